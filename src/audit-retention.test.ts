@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createHash } from "crypto";
+import {
+  AuditCompactor,
+  emptyPruneResult,
+  hasRetentionLimits,
+  recordPruned,
+  resolveRetentionPolicy,
+  storedResponse,
+  type PruneResult,
+} from "./audit-retention";
+import type { AuditStore } from "./audit-store";
+
+describe("Audit retention", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("resolveRetentionPolicy", () => {
+    it("should convert the configuration to milliseconds and bytes", () => {
+      const policy = resolveRetentionPolicy(
+        { max_age_days: 7, max_total_bytes: 1000 },
+        { max_segment_bytes: 100 },
+      );
+
+      expect(policy).toEqual({
+        maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+        maxBytesPerTool: undefined,
+        maxTotalBytes: 1000,
+        maxSegmentBytes: 100,
+        gzip: true,
+      });
+      expect(hasRetentionLimits(policy)).toBe(true);
+      expect(hasRetentionLimits(resolveRetentionPolicy())).toBe(false);
+    });
+  });
+
+  describe("storedResponse", () => {
+    const response = { results: [{ id: 1, stdout: "x".repeat(50) }] };
+
+    it("should keep the full response by default", () => {
+      expect(storedResponse(response)).toBe(response);
+    });
+
+    it("should truncate the long responses only", () => {
+      expect(
+        storedResponse(response, { mode: "truncate", max_characters: 20 }),
+      ).toEqual({
+        truncated: true,
+        length: JSON.stringify(response).length,
+        preview: JSON.stringify(response).slice(0, 20),
+      });
+      expect(
+        storedResponse({ id: 1 }, { mode: "truncate", max_characters: 20 }),
+      ).toEqual({ id: 1 });
+    });
+
+    it("should hash the responses", () => {
+      expect(storedResponse({ id: 1 }, { mode: "hash" })).toEqual({
+        sha256: createHash("sha256").update('{"id":1}').digest("hex"),
+        length: 8,
+      });
+    });
+  });
+
+  describe("AuditCompactor", () => {
+    const pruned = (entries: number, bytes: number) => {
+      const result = emptyPruneResult();
+      recordPruned(result, "controller.jobs_list", "age", entries, bytes);
+      return result;
+    };
+
+    const fakeStore = (compact: AuditStore["compact"]): AuditStore => ({
+      append: vi.fn(),
+      query: vi.fn(),
+      summarize: vi.fn(),
+      getToolStats: vi.fn(),
+      compact,
+      close: vi.fn(),
+    });
+
+    it("should report the last run and the totals", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const compact = vi
+        .fn()
+        .mockResolvedValueOnce(pruned(3, 300))
+        .mockResolvedValueOnce(pruned(2, 100));
+      const policy = resolveRetentionPolicy({ max_age_days: 1 });
+      const compactor = new AuditCompactor(fakeStore(compact), policy, 5);
+
+      await compactor.runOnce();
+      await compactor.runOnce();
+
+      expect(compact).toHaveBeenCalledWith(policy);
+      const report = compactor.getReport();
+      expect(report).toMatchObject({
+        intervalMinutes: 5,
+        runs: 2,
+        lastResult: { entries: 2, bytes: 100 },
+        total: {
+          entries: 5,
+          bytes: 400,
+          byReason: { age: 5, tool_size: 0, total_size: 0 },
+          byTool: { "controller.jobs_list": 5 },
+        },
+      });
+      expect(report.lastRunAt).toBeDefined();
+    });
+
+    it("should not run two compactions at once", async () => {
+      let finish: (result: PruneResult) => void = () => {};
+      const compact = vi.fn(
+        () =>
+          new Promise<PruneResult>((resolve) => {
+            finish = resolve;
+          }),
+      );
+      const compactor = new AuditCompactor(
+        fakeStore(compact),
+        resolveRetentionPolicy({ max_age_days: 1 }),
+      );
+
+      const first = compactor.runOnce();
+      const second = compactor.runOnce();
+      finish(emptyPruneResult());
+
+      expect(await first).toBe(await second);
+      expect(compact).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep the error of a failed compaction", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const compactor = new AuditCompactor(
+        fakeStore(vi.fn().mockRejectedValue(new Error("database is locked"))),
+        resolveRetentionPolicy({ max_age_days: 1 }),
+      );
+
+      expect(await compactor.runOnce()).toEqual(emptyPruneResult());
+      expect(compactor.getReport()).toMatchObject({
+        runs: 1,
+        lastError: "database is locked",
+      });
+    });
+  });
+});
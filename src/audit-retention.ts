@@ -0,0 +1,277 @@
+import { createHash } from "crypto";
+import type { AuditStore } from "./audit-store.js";
+import { createLogger } from "./logging.js";
+
+const log = createLogger("audit");
+
+/**
+ * retention section of the audit configuration. The limits are enforced by
+ * the background compactor, not on each call.
+ */
+export interface AuditRetentionConfig {
+  max_age_days?: number;
+  max_bytes_per_tool?: number;
+  max_total_bytes?: number;
+  compact_interval_minutes?: number;
+}
+
+/**
+ * rotation section of the audit configuration, JSONL backend only
+ */
+export interface AuditRotationConfig {
+  max_segment_bytes?: number;
+  gzip?: boolean;
+}
+
+export type AuditResponseMode = "full" | "truncate" | "hash";
+
+export const AUDIT_RESPONSE_MODES: AuditResponseMode[] = [
+  "full",
+  "truncate",
+  "hash",
+];
+
+/**
+ * responses section of the audit configuration: how much of the AAP
+ * responses is stored
+ */
+export interface AuditResponsesConfig {
+  mode?: AuditResponseMode;
+  max_characters?: number;
+}
+
+export const DEFAULT_COMPACT_INTERVAL_MINUTES = 60;
+export const DEFAULT_STORED_RESPONSE_CHARACTERS = 2000;
+
+/**
+ * Limits applied by AuditStore.compact, undefined when unlimited
+ */
+export interface RetentionPolicy {
+  maxAgeMs?: number;
+  maxBytesPerTool?: number;
+  maxTotalBytes?: number;
+  maxSegmentBytes?: number;
+  gzip: boolean;
+}
+
+export type PruneReason = "age" | "tool_size" | "total_size";
+
+export const PRUNE_REASONS: PruneReason[] = ["age", "tool_size", "total_size"];
+
+/**
+ * What a compaction removed. The bytes are the size of the stored records.
+ */
+export interface PruneResult {
+  entries: number;
+  bytes: number;
+  byReason: Record<PruneReason, number>;
+  byTool: Record<string, number>;
+  // JSONL segments rotated by the compaction
+  rotatedSegments: number;
+}
+
+export const emptyPruneResult = (): PruneResult => ({
+  entries: 0,
+  bytes: 0,
+  byReason: { age: 0, tool_size: 0, total_size: 0 },
+  byTool: {},
+  rotatedSegments: 0,
+});
+
+/**
+ * Adds the entries removed from a tool for a reason to a result
+ */
+export const recordPruned = (
+  result: PruneResult,
+  toolName: string,
+  reason: PruneReason,
+  entries: number,
+  bytes: number,
+): void => {
+  if (entries === 0 && bytes === 0) {
+    return;
+  }
+  result.entries += entries;
+  result.bytes += bytes;
+  result.byReason[reason] += entries;
+  result.byTool[toolName] = (result.byTool[toolName] || 0) + entries;
+};
+
+const mergePruneResults = (total: PruneResult, result: PruneResult): void => {
+  total.rotatedSegments += result.rotatedSegments;
+  for (const reason of PRUNE_REASONS) {
+    total.byReason[reason] += result.byReason[reason];
+  }
+  for (const [toolName, entries] of Object.entries(result.byTool)) {
+    total.byTool[toolName] = (total.byTool[toolName] || 0) + entries;
+  }
+  total.entries += result.entries;
+  total.bytes += result.bytes;
+};
+
+export const resolveRetentionPolicy = (
+  retention: AuditRetentionConfig = {},
+  rotation: AuditRotationConfig = {},
+): RetentionPolicy => ({
+  maxAgeMs:
+    retention.max_age_days !== undefined
+      ? retention.max_age_days * 24 * 60 * 60 * 1000
+      : undefined,
+  maxBytesPerTool: retention.max_bytes_per_tool,
+  maxTotalBytes: retention.max_total_bytes,
+  maxSegmentBytes: rotation.max_segment_bytes,
+  gzip: rotation.gzip ?? true,
+});
+
+/**
+ * Whether the policy has anything for the compactor to do
+ */
+export const hasRetentionLimits = (policy: RetentionPolicy): boolean =>
+  policy.maxAgeMs !== undefined ||
+  policy.maxBytesPerTool !== undefined ||
+  policy.maxTotalBytes !== undefined ||
+  policy.maxSegmentBytes !== undefined;
+
+/**
+ * Response as stored in the audit log. "truncate" keeps the beginning of
+ * the serialized response, "hash" only its SHA-256 digest, which still
+ * tells whether two calls returned the same data.
+ */
+export const storedResponse = (
+  response: unknown,
+  config: AuditResponsesConfig = {},
+): unknown => {
+  const mode = config.mode ?? "full";
+  if (mode === "full" || response === undefined) {
+    return response;
+  }
+  const serialized = JSON.stringify(response) ?? "";
+  if (mode === "hash") {
+    return {
+      sha256: createHash("sha256").update(serialized).digest("hex"),
+      length: serialized.length,
+    };
+  }
+  const maxCharacters =
+    config.max_characters ?? DEFAULT_STORED_RESPONSE_CHARACTERS;
+  if (serialized.length <= maxCharacters) {
+    return response;
+  }
+  return {
+    truncated: true,
+    length: serialized.length,
+    preview: serialized.slice(0, maxCharacters),
+  };
+};
+
+export interface CompactionReport {
+  policy: RetentionPolicy;
+  intervalMinutes: number;
+  runs: number;
+  lastRunAt?: string;
+  lastResult?: PruneResult;
+  lastError?: string;
+  // Everything pruned since the server started
+  total: PruneResult;
+}
+
+/**
+ * Runs AuditStore.compact periodically and keeps what was pruned for the
+ * /logs page
+ */
+export class AuditCompactor {
+  private readonly store: AuditStore;
+  private readonly policy: RetentionPolicy;
+  private readonly intervalMinutes: number;
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<PruneResult> | undefined;
+  private report: CompactionReport;
+
+  constructor(
+    store: AuditStore,
+    policy: RetentionPolicy,
+    intervalMinutes: number = DEFAULT_COMPACT_INTERVAL_MINUTES,
+  ) {
+    this.store = store;
+    this.policy = policy;
+    this.intervalMinutes = intervalMinutes;
+    this.report = {
+      policy,
+      intervalMinutes,
+      runs: 0,
+      total: emptyPruneResult(),
+    };
+  }
+
+  /**
+   * Compacts now, then every intervalMinutes. The timer does not keep the
+   * process alive.
+   */
+  start(): void {
+    this.stop();
+    void this.runOnce();
+    this.timer = setInterval(
+      () => void this.runOnce(),
+      this.intervalMinutes * 60 * 1000,
+    );
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Compacts the store, a run already in progress is awaited instead of
+   * starting another one
+   */
+  async runOnce(): Promise<PruneResult> {
+    if (!this.running) {
+      this.running = this.compact().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async compact(): Promise<PruneResult> {
+    const startedAt = new Date().toISOString();
+    try {
+      const result = await this.store.compact(this.policy);
+      mergePruneResults(this.report.total, result);
+      this.report = {
+        ...this.report,
+        runs: this.report.runs + 1,
+        lastRunAt: startedAt,
+        lastResult: result,
+        lastError: undefined,
+      };
+      if (result.entries > 0 || result.rotatedSegments > 0) {
+        log.info(
+          `Pruned ${result.entries} audit entries (${result.bytes} bytes)`,
+          {
+            byReason: result.byReason,
+            rotatedSegments: result.rotatedSegments,
+          },
+        );
+      }
+      return result;
+    } catch (error) {
+      log.error("Audit compaction failed", { error });
+      this.report = {
+        ...this.report,
+        runs: this.report.runs + 1,
+        lastRunAt: startedAt,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+      return emptyPruneResult();
+    }
+  }
+
+  getReport(): CompactionReport {
+    return this.report;
+  }
+}
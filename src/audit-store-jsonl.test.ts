@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonlAuditStore } from "./audit-store-jsonl";
+import type { AuditEntry } from "./audit-store";
+import { resolveRetentionPolicy } from "./audit-retention";
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  toolName: "controller.jobs_list",
+  timestamp: "2025-01-01T10:00:00.000Z",
+  endpoint: "/api/controller/v2/jobs/",
+  payload: {},
+  response: {},
+  return_code: 200,
+  ...overrides,
+});
+
+describe("JsonlAuditStore", () => {
+  let logDir: string;
+  let store: JsonlAuditStore;
+
+  beforeEach(() => {
+    logDir = mkdtempSync(join(tmpdir(), "aap-mcp-audit-"));
+    store = new JsonlAuditStore(logDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it("should append one JSON line per call to the file of the tool", async () => {
+    await store.append(entry({ session_id: "s1", user_agent: "ua" }));
+
+    const lines = readFileSync(
+      join(logDir, "controller.jobs_list.jsonl"),
+      "utf8",
+    ).split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual({
+      timestamp: "2025-01-01T10:00:00.000Z",
+      endpoint: "/api/controller/v2/jobs/",
+      payload: {},
+      response: {},
+      return_code: 200,
+      session_id: "s1",
+      user_agent: "ua",
+    });
+  });
+
+  it("should skip the malformed lines", async () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    writeFileSync(
+      join(logDir, "eda.activations_list.jsonl"),
+      `${JSON.stringify(entry({}))}\nnot json\n`,
+    );
+
+    const entries = await store.readToolEntries("eda.activations_list");
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].toolName).toBe("eda.activations_list");
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Skipped 1 malformed line(s)"),
+    );
+  });
+
+  it("should query the entries most recent first", async () => {
+    await store.append(entry({ timestamp: "2025-01-01T10:00:00.000Z" }));
+    await store.append(
+      entry({
+        toolName: "eda.activations_list",
+        timestamp: "2025-01-02T10:00:00.000Z",
+        return_code: 500,
+      }),
+    );
+    await store.append(entry({ timestamp: "2025-01-03T10:00:00.000Z" }));
+
+    const recent = await store.query({ limit: 2 });
+    expect(recent.map((e) => e.timestamp)).toEqual([
+      "2025-01-03T10:00:00.000Z",
+      "2025-01-02T10:00:00.000Z",
+    ]);
+
+    const filtered = await store.query({
+      since: "2025-01-02T00:00:00.000Z",
+      returnCode: 200,
+    });
+    expect(filtered.map((e) => e.timestamp)).toEqual([
+      "2025-01-03T10:00:00.000Z",
+    ]);
+  });
+
+  it("should summarize and count the calls per tool", async () => {
+    await store.append(entry({ payload: { userAgent: "old-client" } }));
+    await store.append(
+      entry({ return_code: 404, user_agent: "Claude/1", username: "ada" }),
+    );
+
+    expect(await store.summarize({ userAgent: "claude" })).toEqual({
+      total: 1,
+      byReturnCode: { 404: 1 },
+      byTool: { "controller.jobs_list": 1 },
+      byUserAgent: { "Claude/1": 1 },
+      byUser: { ada: 1 },
+    });
+    expect(await store.getToolStats()).toEqual({
+      "controller.jobs_list": { calls: 2, successes: 1 },
+    });
+  });
+
+  describe("compact", () => {
+    const now = new Date("2025-01-10T00:00:00.000Z");
+
+    it("should rotate and gzip the oversized files", async () => {
+      await store.append(entry({ timestamp: "2025-01-01T10:00:00.000Z" }));
+      await store.append(entry({ timestamp: "2025-01-02T10:00:00.000Z" }));
+
+      const result = await store.compact(
+        resolveRetentionPolicy({}, { max_segment_bytes: 10 }),
+        now,
+      );
+      await store.append(entry({ timestamp: "2025-01-11T10:00:00.000Z" }));
+
+      expect(result).toMatchObject({ entries: 0, rotatedSegments: 1 });
+      expect(readdirSync(logDir).sort()).toEqual([
+        "controller.jobs_list.20250110T000000000Z.jsonl.gz",
+        "controller.jobs_list.jsonl",
+      ]);
+      expect(await store.listToolNames()).toEqual(["controller.jobs_list"]);
+      expect((await store.query()).map((e) => e.timestamp)).toEqual([
+        "2025-01-11T10:00:00.000Z",
+        "2025-01-02T10:00:00.000Z",
+        "2025-01-01T10:00:00.000Z",
+      ]);
+    });
+
+    it("should prune the expired entries", async () => {
+      await store.append(entry({ timestamp: "2025-01-01T10:00:00.000Z" }));
+      await store.append(entry({ timestamp: "2025-01-09T10:00:00.000Z" }));
+      await store.append(
+        entry({
+          toolName: "eda.activations_list",
+          timestamp: "2025-01-09T12:00:00.000Z",
+        }),
+      );
+
+      const result = await store.compact(
+        resolveRetentionPolicy({ max_age_days: 7 }, { gzip: false }),
+        now,
+      );
+
+      expect(result).toMatchObject({
+        entries: 1,
+        byReason: { age: 1 },
+        byTool: { "controller.jobs_list": 1 },
+        rotatedSegments: 1,
+      });
+      expect((await store.query()).map((e) => e.timestamp)).toEqual([
+        "2025-01-09T12:00:00.000Z",
+        "2025-01-09T10:00:00.000Z",
+      ]);
+    });
+
+    it("should delete the oldest segments beyond the size limits", async () => {
+      const rotation = resolveRetentionPolicy({}, { max_segment_bytes: 1 });
+      await store.append(entry({ timestamp: "2025-01-01T10:00:00.000Z" }));
+      await store.compact(rotation, new Date("2025-01-01T11:00:00.000Z"));
+      await store.append(entry({ timestamp: "2025-01-02T10:00:00.000Z" }));
+      await store.compact(rotation, new Date("2025-01-02T11:00:00.000Z"));
+      await store.append(entry({ timestamp: "2025-01-03T10:00:00.000Z" }));
+
+      const result = await store.compact(
+        resolveRetentionPolicy({ max_bytes_per_tool: 1 }),
+        now,
+      );
+
+      // The segments are deleted, the current file of the tool is kept
+      expect(result).toMatchObject({
+        entries: 2,
+        byReason: { tool_size: 2 },
+        byTool: { "controller.jobs_list": 2 },
+      });
+      expect((await store.query()).map((e) => e.timestamp)).toEqual([
+        "2025-01-03T10:00:00.000Z",
+      ]);
+    });
+  });
+
+  it("should return no entries without a log directory", async () => {
+    const missing = new JsonlAuditStore(join(logDir, "missing"), {
+      createDir: false,
+    });
+
+    expect(await missing.listToolNames()).toEqual([]);
+    expect(await missing.query()).toEqual([]);
+  });
+});
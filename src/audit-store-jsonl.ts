@@ -0,0 +1,436 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import {
+  emptyPruneResult,
+  recordPruned,
+  type PruneReason,
+  type PruneResult,
+  type RetentionPolicy,
+} from "./audit-retention.js";
+import type {
+  AuditEntry,
+  AuditQuery,
+  AuditStore,
+  AuditSummary,
+  ToolCallStats,
+} from "./audit-store.js";
+import { getLogEntryUserAgent, type LogEntry } from "./logger.js";
+import { createLogger } from "./logging.js";
+
+const log = createLogger("audit");
+
+const JSONL_EXTENSION = ".jsonl";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Rotated segment: <tool>.<rotation time>.jsonl, .jsonl.gz once compressed
+const SEGMENT_FILE = /^(.+)\.(\d{8}T\d{9}Z)\.jsonl(\.gz)?$/;
+
+interface SegmentFile {
+  toolName: string;
+  // Rotation time, sortable; undefined for the current file of the tool
+  stamp?: string;
+  file: string;
+  gzipped: boolean;
+}
+
+const parseLogFileName = (file: string): SegmentFile | undefined => {
+  const segment = SEGMENT_FILE.exec(file);
+  if (segment) {
+    return {
+      toolName: segment[1],
+      stamp: segment[2],
+      file,
+      gzipped: segment[3] !== undefined,
+    };
+  }
+  if (file.endsWith(JSONL_EXTENSION)) {
+    return {
+      toolName: file.slice(0, -JSONL_EXTENSION.length),
+      file,
+      gzipped: false,
+    };
+  }
+  return undefined;
+};
+
+const segmentStamp = (date: Date): string =>
+  date.toISOString().replace(/[-:.]/g, "");
+
+const lineTimestamp = (line: string): string | undefined => {
+  try {
+    return (JSON.parse(line) as LogEntry).timestamp;
+  } catch (_error) {
+    return undefined;
+  }
+};
+
+// Oldest segments first, the current file last
+const compareSegments = (a: SegmentFile, b: SegmentFile): number => {
+  if (a.stamp === b.stamp) return 0;
+  if (a.stamp === undefined) return 1;
+  if (b.stamp === undefined) return -1;
+  return a.stamp < b.stamp ? -1 : 1;
+};
+
+const matchesQuery = (entry: AuditEntry, query: AuditQuery): boolean => {
+  if (query.since !== undefined && entry.timestamp < query.since) return false;
+  if (query.until !== undefined && entry.timestamp >= query.until) return false;
+  if (query.toolName !== undefined && entry.toolName !== query.toolName) {
+    return false;
+  }
+  if (
+    query.returnCode !== undefined &&
+    entry.return_code !== query.returnCode
+  ) {
+    return false;
+  }
+  if (query.sessionId !== undefined && entry.session_id !== query.sessionId) {
+    return false;
+  }
+  if (query.username !== undefined && entry.username !== query.username) {
+    return false;
+  }
+  if (
+    query.userAgent !== undefined &&
+    !getLogEntryUserAgent(entry)
+      .toLowerCase()
+      .includes(query.userAgent.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+};
+
+const increment = <K extends string | number>(
+  counts: Record<K, number>,
+  key: K,
+): void => {
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+/**
+ * Audit store appending to one <tool>.jsonl file per tool, the format of
+ * the first releases. Every query reads the files, prefer the SQLite store
+ * beyond small volumes.
+ */
+export class JsonlAuditStore implements AuditStore {
+  private readonly logDir: string;
+
+  constructor(logDir: string = "logs", options: { createDir?: boolean } = {}) {
+    this.logDir = logDir;
+    if (options.createDir !== false) {
+      this.ensureLogDir();
+    }
+  }
+
+  private async ensureLogDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.logDir, { recursive: true });
+    } catch (error) {
+      log.error("Failed to create log directory", {
+        logDir: this.logDir,
+        error,
+      });
+    }
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    const { toolName, ...logEntry } = entry;
+    const logFile = join(this.logDir, `${toolName}${JSONL_EXTENSION}`);
+    await fs.appendFile(logFile, JSON.stringify(logEntry) + "\n");
+  }
+
+  // Log files of the directory, of all tools or of one tool
+  private async listLogFiles(toolName?: string): Promise<SegmentFile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.logDir);
+    } catch (_error) {
+      // No log directory yet
+      return [];
+    }
+    return files
+      .map(parseLogFileName)
+      .filter(
+        (file): file is SegmentFile =>
+          file !== undefined &&
+          (toolName === undefined || file.toolName === toolName),
+      )
+      .sort(compareSegments);
+  }
+
+  /**
+   * Names of the tools having log files
+   */
+  async listToolNames(): Promise<string[]> {
+    const files = await this.listLogFiles();
+    return [...new Set(files.map((file) => file.toolName))];
+  }
+
+  private async readLines(file: SegmentFile): Promise<string[]> {
+    const path = join(this.logDir, file.file);
+    let content: string;
+    try {
+      const data = await fs.readFile(path);
+      content = (file.gzipped ? await gunzipAsync(data) : data).toString(
+        "utf8",
+      );
+    } catch (_error) {
+      return [];
+    }
+    return content.split("\n").filter((line) => line.trim());
+  }
+
+  private async writeLines(file: SegmentFile, lines: string[]): Promise<void> {
+    const content = Buffer.from(lines.map((line) => `${line}\n`).join(""));
+    await fs.writeFile(
+      join(this.logDir, file.file),
+      file.gzipped ? await gzipAsync(content) : content,
+    );
+  }
+
+  private parseLines(file: SegmentFile, lines: string[]): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    let malformed = 0;
+    for (const line of lines) {
+      try {
+        entries.push({
+          ...(JSON.parse(line) as LogEntry),
+          toolName: file.toolName,
+        });
+      } catch (_error) {
+        malformed++;
+      }
+    }
+    if (malformed > 0) {
+      log.warn(
+        `Skipped ${malformed} malformed line(s) in ${join(this.logDir, file.file)}`,
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Entries of a tool in file order, rotated segments first. Malformed
+   * lines are skipped.
+   */
+  async readToolEntries(toolName: string): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    for (const file of await this.listLogFiles(toolName)) {
+      entries.push(...this.parseLines(file, await this.readLines(file)));
+    }
+    return entries;
+  }
+
+  private async readEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    const toolNames =
+      query.toolName !== undefined
+        ? [query.toolName]
+        : await this.listToolNames();
+    const entries: AuditEntry[] = [];
+    for (const toolName of toolNames) {
+      for (const entry of await this.readToolEntries(toolName)) {
+        if (matchesQuery(entry, query)) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries;
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries = await this.readEntries(query);
+    // Most recent first, the sort is stable for equal timestamps
+    entries.reverse();
+    entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return query.limit !== undefined ? entries.slice(0, query.limit) : entries;
+  }
+
+  async summarize(query: AuditQuery = {}): Promise<AuditSummary> {
+    const summary: AuditSummary = {
+      total: 0,
+      byReturnCode: {},
+      byTool: {},
+      byUserAgent: {},
+      byUser: {},
+    };
+    for (const entry of await this.readEntries(query)) {
+      summary.total++;
+      increment(summary.byReturnCode, entry.return_code);
+      increment(summary.byTool, entry.toolName);
+      increment(summary.byUserAgent, getLogEntryUserAgent(entry));
+      if (entry.username !== undefined) {
+        increment(summary.byUser, entry.username);
+      }
+    }
+    return summary;
+  }
+
+  async getToolStats(): Promise<Record<string, ToolCallStats>> {
+    const stats: Record<string, ToolCallStats> = {};
+    for (const entry of await this.readEntries({})) {
+      const toolStats = (stats[entry.toolName] ??= { calls: 0, successes: 0 });
+      toolStats.calls++;
+      if (entry.return_code >= 200 && entry.return_code < 300) {
+        toolStats.successes++;
+      }
+    }
+    return stats;
+  }
+
+  // Renames the current file of a tool to a segment, then compresses it
+  private async rotate(
+    file: SegmentFile,
+    policy: RetentionPolicy,
+    now: Date,
+  ): Promise<SegmentFile> {
+    const segment: SegmentFile = {
+      toolName: file.toolName,
+      stamp: segmentStamp(now),
+      file: `${file.toolName}.${segmentStamp(now)}${JSONL_EXTENSION}`,
+      gzipped: false,
+    };
+    await fs.rename(
+      join(this.logDir, file.file),
+      join(this.logDir, segment.file),
+    );
+    if (!policy.gzip) {
+      return segment;
+    }
+    const gzipped = { ...segment, file: `${segment.file}.gz`, gzipped: true };
+    await this.writeLines(gzipped, await this.readLines(segment));
+    await fs.unlink(join(this.logDir, segment.file));
+    return gzipped;
+  }
+
+  private async fileSize(file: SegmentFile): Promise<number> {
+    try {
+      return (await fs.stat(join(this.logDir, file.file))).size;
+    } catch (_error) {
+      return 0;
+    }
+  }
+
+  // Deletes a rotated segment, counting its entries
+  private async deleteSegment(
+    file: SegmentFile,
+    reason: PruneReason,
+    result: PruneResult,
+  ): Promise<number> {
+    const size = await this.fileSize(file);
+    const entries = (await this.readLines(file)).length;
+    await fs.unlink(join(this.logDir, file.file));
+    recordPruned(result, file.toolName, reason, entries, size);
+    return size;
+  }
+
+  /**
+   * Rotates the current files over maxSegmentBytes or holding entries
+   * older than maxAgeMs, then prunes the rotated segments. The current
+   * file of a tool is never deleted, the size limits apply once it is
+   * rotated.
+   */
+  async compact(
+    policy: RetentionPolicy,
+    now: Date = new Date(),
+  ): Promise<PruneResult> {
+    const result = emptyPruneResult();
+    const cutoff =
+      policy.maxAgeMs !== undefined
+        ? new Date(now.getTime() - policy.maxAgeMs).toISOString()
+        : undefined;
+
+    // Rotation of the current files
+    for (const file of await this.listLogFiles()) {
+      if (file.stamp !== undefined) {
+        continue;
+      }
+      const oversized =
+        policy.maxSegmentBytes !== undefined &&
+        (await this.fileSize(file)) >= policy.maxSegmentBytes;
+      const expired =
+        cutoff !== undefined &&
+        (await this.readLines(file)).some(
+          (line) => (lineTimestamp(line) ?? "") < cutoff,
+        );
+      if (oversized || expired) {
+        await this.rotate(file, policy, now);
+        result.rotatedSegments++;
+      }
+    }
+
+    // Age: drop the expired entries of the segments
+    if (cutoff !== undefined) {
+      for (const file of await this.listLogFiles()) {
+        if (file.stamp === undefined) {
+          continue;
+        }
+        const lines = await this.readLines(file);
+        // Malformed lines are dropped with the expired entries
+        const kept = lines.filter(
+          (line) => (lineTimestamp(line) ?? "") >= cutoff,
+        );
+        if (kept.length === lines.length) {
+          continue;
+        }
+        if (kept.length === 0) {
+          await this.deleteSegment(file, "age", result);
+          continue;
+        }
+        const size = await this.fileSize(file);
+        await this.writeLines(file, kept);
+        recordPruned(
+          result,
+          file.toolName,
+          "age",
+          lines.length - kept.length,
+          size - (await this.fileSize(file)),
+        );
+      }
+    }
+
+    // Size: drop the oldest segments of each tool, then of all tools
+    const files = await this.listLogFiles();
+    const sizes = new Map<string, number>();
+    for (const file of files) {
+      sizes.set(file.file, await this.fileSize(file));
+    }
+    const deleted = new Set<string>();
+    if (policy.maxBytesPerTool !== undefined) {
+      for (const toolName of new Set(files.map((file) => file.toolName))) {
+        const toolFiles = files.filter((file) => file.toolName === toolName);
+        let toolBytes = toolFiles.reduce(
+          (sum, file) => sum + sizes.get(file.file)!,
+          0,
+        );
+        for (const file of toolFiles) {
+          if (toolBytes <= policy.maxBytesPerTool || !file.stamp) {
+            break;
+          }
+          toolBytes -= await this.deleteSegment(file, "tool_size", result);
+          deleted.add(file.file);
+        }
+      }
+    }
+    if (policy.maxTotalBytes !== undefined) {
+      const remaining = files.filter((file) => !deleted.has(file.file));
+      let totalBytes = remaining.reduce(
+        (sum, file) => sum + sizes.get(file.file)!,
+        0,
+      );
+      for (const file of remaining.filter((file) => file.stamp)) {
+        if (totalBytes <= policy.maxTotalBytes) {
+          break;
+        }
+        totalBytes -= await this.deleteSegment(file, "total_size", result);
+      }
+    }
+    return result;
+  }
+
+  async close(): Promise<void> {}
+}
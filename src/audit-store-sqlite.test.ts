@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Database from "better-sqlite3";
+import { SqliteAuditStore } from "./audit-store-sqlite";
+import { migrateJsonlLogs, type AuditEntry } from "./audit-store";
+import { resolveRetentionPolicy } from "./audit-retention";
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  toolName: "controller.jobs_list",
+  timestamp: "2025-01-01T10:00:00.000Z",
+  endpoint: "/api/controller/v2/jobs/",
+  payload: { page: 1 },
+  response: { count: 0 },
+  return_code: 200,
+  ...overrides,
+});
+
+describe("SqliteAuditStore", () => {
+  let store: SqliteAuditStore;
+
+  beforeEach(async () => {
+    store = new SqliteAuditStore(":memory:");
+    await store.append(
+      entry({
+        session_id: "s1",
+        user_agent: "Claude/1",
+        category: "job_management",
+        username: "ada",
+        user_id: 7,
+        client_name: "claude-code",
+        client_version: "1.0",
+        arguments: { page_size: 5 },
+      }),
+    );
+    await store.append(
+      entry({
+        toolName: "eda.activations_list",
+        timestamp: "2025-01-02T10:00:00.000Z",
+        return_code: 500,
+        session_id: "s2",
+        user_agent: "Cursor 100%_fast",
+      }),
+    );
+    await store.append(
+      entry({
+        timestamp: "2025-01-03T10:00:00.000Z",
+        return_code: 404,
+        payload: { userAgent: "old-client" },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it("should return the entries most recent first", async () => {
+    const entries = await store.query({ limit: 2 });
+
+    expect(entries.map((e) => e.timestamp)).toEqual([
+      "2025-01-03T10:00:00.000Z",
+      "2025-01-02T10:00:00.000Z",
+    ]);
+    expect(entries[1]).toEqual({
+      toolName: "eda.activations_list",
+      timestamp: "2025-01-02T10:00:00.000Z",
+      endpoint: "/api/controller/v2/jobs/",
+      payload: { page: 1 },
+      response: { count: 0 },
+      return_code: 500,
+      session_id: "s2",
+      user_agent: "Cursor 100%_fast",
+    });
+  });
+
+  it("should filter by time range, tool, status code and session", async () => {
+    const timestamps = async (query: object) =>
+      (await store.query(query)).map((e) => e.timestamp);
+
+    expect(
+      await timestamps({
+        since: "2025-01-02T10:00:00.000Z",
+        until: "2025-01-03T10:00:00.000Z",
+      }),
+    ).toEqual(["2025-01-02T10:00:00.000Z"]);
+    expect(await timestamps({ toolName: "controller.jobs_list" })).toEqual([
+      "2025-01-03T10:00:00.000Z",
+      "2025-01-01T10:00:00.000Z",
+    ]);
+    expect(await timestamps({ returnCode: 404 })).toEqual([
+      "2025-01-03T10:00:00.000Z",
+    ]);
+    expect(await timestamps({ sessionId: "s1" })).toEqual([
+      "2025-01-01T10:00:00.000Z",
+    ]);
+    expect(await timestamps({ username: "ada" })).toEqual([
+      "2025-01-01T10:00:00.000Z",
+    ]);
+  });
+
+  it("should store the identity of the caller", async () => {
+    const [first] = await store.query({ username: "ada" });
+
+    expect(first).toMatchObject({
+      session_id: "s1",
+      category: "job_management",
+      username: "ada",
+      user_id: 7,
+      client_name: "claude-code",
+      client_version: "1.0",
+      arguments: { page_size: 5 },
+    });
+  });
+
+  it("should match a user agent substring literally", async () => {
+    expect(await store.query({ userAgent: "CLAUDE" })).toHaveLength(1);
+    expect(await store.query({ userAgent: "100%_f" })).toHaveLength(1);
+    expect(await store.query({ userAgent: "1%" })).toHaveLength(0);
+    // Older entries only had the user agent in the payload
+    expect(await store.query({ userAgent: "old-client" })).toHaveLength(1);
+  });
+
+  it("should summarize the matching entries", async () => {
+    expect(await store.summarize()).toEqual({
+      total: 3,
+      byReturnCode: { 200: 1, 404: 1, 500: 1 },
+      byTool: { "controller.jobs_list": 2, "eda.activations_list": 1 },
+      byUserAgent: { "Claude/1": 1, "Cursor 100%_fast": 1, "old-client": 1 },
+      byUser: { ada: 1 },
+    });
+    expect(
+      (await store.summarize({ toolName: "controller.jobs_list" }))
+        .byReturnCode,
+    ).toEqual({ 200: 1, 404: 1 });
+  });
+
+  it("should count the calls and successes per tool", async () => {
+    expect(await store.getToolStats()).toEqual({
+      "controller.jobs_list": { calls: 2, successes: 1 },
+      "eda.activations_list": { calls: 1, successes: 0 },
+    });
+  });
+
+  it("should prune the entries older than the maximum age", async () => {
+    const result = await store.compact(
+      resolveRetentionPolicy({ max_age_days: 1 }),
+      new Date("2025-01-03T12:00:00.000Z"),
+    );
+
+    expect(result).toMatchObject({
+      entries: 2,
+      byReason: { age: 2, tool_size: 0, total_size: 0 },
+      byTool: { "controller.jobs_list": 1, "eda.activations_list": 1 },
+    });
+    expect(result.bytes).toBeGreaterThan(0);
+    expect((await store.query()).map((e) => e.timestamp)).toEqual([
+      "2025-01-03T10:00:00.000Z",
+    ]);
+  });
+
+  it("should prune the oldest entries beyond the size limits", async () => {
+    // Two entries of about 1100 bytes, the others are about 100 bytes
+    for (const timestamp of [
+      "2025-01-04T10:00:00.000Z",
+      "2025-01-05T10:00:00.000Z",
+    ]) {
+      await store.append(entry({ timestamp, response: "x".repeat(1000) }));
+    }
+
+    const perTool = await store.compact(
+      resolveRetentionPolicy({ max_bytes_per_tool: 2100 }),
+    );
+    expect(perTool).toMatchObject({
+      entries: 3,
+      byReason: { tool_size: 3 },
+      byTool: { "controller.jobs_list": 3 },
+    });
+
+    const total = await store.compact(
+      resolveRetentionPolicy({ max_total_bytes: 1150 }),
+    );
+    expect(total).toMatchObject({
+      entries: 1,
+      byReason: { total_size: 1 },
+      byTool: { "eda.activations_list": 1 },
+    });
+    expect((await store.query()).map((e) => e.timestamp)).toEqual([
+      "2025-01-05T10:00:00.000Z",
+    ]);
+  });
+
+  it("should skip the entries already imported", () => {
+    const first = store.importEntries([
+      entry({}),
+      entry({ timestamp: "2025-01-04T10:00:00.000Z" }),
+    ]);
+
+    expect(first).toEqual({ imported: 1, skipped: 1 });
+  });
+});
+
+describe("SqliteAuditStore schema", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "aap-mcp-audit-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should upgrade a database of the first schema version", async () => {
+    const path = join(dir, "audit.db");
+    const db = new Database(path);
+    db.exec(`CREATE TABLE audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp TEXT NOT NULL,
+      tool_name TEXT NOT NULL, endpoint TEXT NOT NULL,
+      return_code INTEGER NOT NULL, session_id TEXT,
+      user_agent TEXT NOT NULL, payload TEXT, response TEXT);
+      INSERT INTO audit_log (timestamp, tool_name, endpoint, return_code, user_agent)
+      VALUES ('2025-01-01T10:00:00.000Z', 'controller.jobs_list', '/api', 200, 'ua');
+      PRAGMA user_version = 1;`);
+    db.close();
+
+    const store = new SqliteAuditStore(path);
+    await store.append(
+      entry({ timestamp: "2025-01-02T10:00:00.000Z", username: "ada" }),
+    );
+
+    expect((await store.query()).map((e) => [e.timestamp, e.username])).toEqual(
+      [
+        ["2025-01-02T10:00:00.000Z", "ada"],
+        ["2025-01-01T10:00:00.000Z", undefined],
+      ],
+    );
+    await store.close();
+  });
+});
+
+describe("migrateJsonlLogs", () => {
+  let logDir: string;
+
+  beforeEach(() => {
+    logDir = mkdtempSync(join(tmpdir(), "aap-mcp-audit-"));
+  });
+
+  afterEach(() => {
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it("should import the JSONL files once", async () => {
+    const { toolName: _toolName, ...line } = entry({});
+    writeFileSync(
+      join(logDir, "controller.jobs_list.jsonl"),
+      `${JSON.stringify(line)}\n${JSON.stringify({ ...line, return_code: 404 })}\n`,
+    );
+    writeFileSync(
+      join(logDir, "eda.activations_list.jsonl"),
+      `${JSON.stringify(line)}\n`,
+    );
+    writeFileSync(join(logDir, "notes.txt"), "not a log file");
+    const store = new SqliteAuditStore(join(logDir, "audit.db"));
+
+    expect(await migrateJsonlLogs(logDir, store)).toEqual({
+      files: 2,
+      imported: 3,
+      skipped: 0,
+    });
+    expect(await migrateJsonlLogs(logDir, store)).toEqual({
+      files: 2,
+      imported: 0,
+      skipped: 3,
+    });
+    expect(await store.getToolStats()).toEqual({
+      "controller.jobs_list": { calls: 2, successes: 1 },
+      "eda.activations_list": { calls: 1, successes: 1 },
+    });
+    await store.close();
+  });
+});
@@ -0,0 +1,364 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import {
+  emptyPruneResult,
+  recordPruned,
+  type PruneReason,
+  type PruneResult,
+  type RetentionPolicy,
+} from "./audit-retention.js";
+import type {
+  AuditEntry,
+  AuditQuery,
+  AuditStore,
+  AuditSummary,
+  ToolCallStats,
+} from "./audit-store.js";
+import { getLogEntryUserAgent } from "./logger.js";
+
+interface AuditRow {
+  timestamp: string;
+  tool_name: string;
+  endpoint: string;
+  return_code: number;
+  session_id: string | null;
+  user_agent: string;
+  payload: string | null;
+  response: string | null;
+  category: string | null;
+  username: string | null;
+  user_id: number | null;
+  client_name: string | null;
+  client_version: string | null;
+  arguments: string | null;
+}
+
+// Each step brings the schema from the previous version (PRAGMA user_version)
+const SCHEMA_MIGRATIONS: string[] = [
+  `CREATE TABLE audit_log (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     timestamp TEXT NOT NULL,
+     tool_name TEXT NOT NULL,
+     endpoint TEXT NOT NULL,
+     return_code INTEGER NOT NULL,
+     session_id TEXT,
+     user_agent TEXT NOT NULL,
+     payload TEXT,
+     response TEXT
+   );
+   CREATE INDEX audit_log_timestamp ON audit_log (timestamp);
+   CREATE INDEX audit_log_tool ON audit_log (tool_name, timestamp);
+   CREATE INDEX audit_log_return_code ON audit_log (return_code, timestamp);
+   CREATE INDEX audit_log_session ON audit_log (session_id, timestamp);
+   CREATE INDEX audit_log_user_agent ON audit_log (user_agent, timestamp);`,
+  `ALTER TABLE audit_log ADD COLUMN category TEXT;
+   ALTER TABLE audit_log ADD COLUMN username TEXT;
+   ALTER TABLE audit_log ADD COLUMN user_id INTEGER;
+   ALTER TABLE audit_log ADD COLUMN client_name TEXT;
+   ALTER TABLE audit_log ADD COLUMN client_version TEXT;
+   ALTER TABLE audit_log ADD COLUMN arguments TEXT;
+   CREATE INDEX audit_log_username ON audit_log (username, timestamp);`,
+];
+
+// Size of a stored record in bytes
+const RECORD_BYTES = `(octet_length(timestamp) + octet_length(tool_name)
+  + octet_length(endpoint) + octet_length(user_agent)
+  + COALESCE(octet_length(session_id), 0) + COALESCE(octet_length(payload), 0)
+  + COALESCE(octet_length(response), 0) + COALESCE(octet_length(category), 0)
+  + COALESCE(octet_length(username), 0) + COALESCE(octet_length(client_name), 0)
+  + COALESCE(octet_length(client_version), 0)
+  + COALESCE(octet_length(arguments), 0))`;
+
+const COLUMN_NAMES = [
+  "timestamp",
+  "tool_name",
+  "endpoint",
+  "return_code",
+  "session_id",
+  "user_agent",
+  "payload",
+  "response",
+  "category",
+  "username",
+  "user_id",
+  "client_name",
+  "client_version",
+  "arguments",
+];
+const COLUMNS = COLUMN_NAMES.join(", ");
+const VALUES = COLUMN_NAMES.map((name) => `@${name}`).join(", ");
+
+const toJson = (value: unknown): string | null =>
+  value === undefined ? null : JSON.stringify(value);
+
+const toRow = (entry: AuditEntry): AuditRow => ({
+  timestamp: entry.timestamp,
+  tool_name: entry.toolName,
+  endpoint: entry.endpoint,
+  return_code: entry.return_code,
+  session_id: entry.session_id ?? null,
+  user_agent: getLogEntryUserAgent(entry),
+  payload: toJson(entry.payload),
+  response: toJson(entry.response),
+  category: entry.category ?? null,
+  username: entry.username ?? null,
+  user_id: entry.user_id ?? null,
+  client_name: entry.client_name ?? null,
+  client_version: entry.client_version ?? null,
+  arguments: toJson(entry.arguments),
+});
+
+// Optional fields of an entry, without the NULL columns
+const optionalFields = (row: AuditRow): Partial<AuditEntry> => {
+  const fields: Partial<AuditEntry> = {};
+  if (row.session_id !== null) fields.session_id = row.session_id;
+  if (row.category !== null) fields.category = row.category;
+  if (row.username !== null) fields.username = row.username;
+  if (row.user_id !== null) fields.user_id = row.user_id;
+  if (row.client_name !== null) fields.client_name = row.client_name;
+  if (row.client_version !== null) fields.client_version = row.client_version;
+  if (row.arguments !== null) fields.arguments = JSON.parse(row.arguments);
+  return fields;
+};
+
+const fromRow = (row: AuditRow): AuditEntry => ({
+  timestamp: row.timestamp,
+  toolName: row.tool_name,
+  endpoint: row.endpoint,
+  return_code: row.return_code,
+  user_agent: row.user_agent,
+  payload: row.payload === null ? undefined : JSON.parse(row.payload),
+  response: row.response === null ? undefined : JSON.parse(row.response),
+  ...optionalFields(row),
+});
+
+// WHERE clause and parameters of a query
+const buildWhere = (
+  query: AuditQuery,
+): { where: string; params: (string | number)[] } => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.since !== undefined) {
+    conditions.push("timestamp >= ?");
+    params.push(query.since);
+  }
+  if (query.until !== undefined) {
+    conditions.push("timestamp < ?");
+    params.push(query.until);
+  }
+  if (query.toolName !== undefined) {
+    conditions.push("tool_name = ?");
+    params.push(query.toolName);
+  }
+  if (query.returnCode !== undefined) {
+    conditions.push("return_code = ?");
+    params.push(query.returnCode);
+  }
+  if (query.sessionId !== undefined) {
+    conditions.push("session_id = ?");
+    params.push(query.sessionId);
+  }
+  if (query.username !== undefined) {
+    conditions.push("username = ?");
+    params.push(query.username);
+  }
+  if (query.userAgent !== undefined) {
+    // LIKE is case-insensitive for ASCII
+    conditions.push("user_agent LIKE ? ESCAPE '\\'");
+    params.push(`%${query.userAgent.replace(/[\\%_]/g, "\\$&")}%`);
+  }
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+};
+
+/**
+ * Audit store in a SQLite database, the filters and the aggregates of the
+ * web UI run as indexed queries
+ */
+export class SqliteAuditStore implements AuditStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    // Lets compact() give the pages of the pruned rows back to the file
+    // system, only effective on a new database
+    this.db.pragma("auto_vacuum = INCREMENTAL");
+    this.db.pragma("journal_mode = WAL");
+    this.migrateSchema();
+  }
+
+  private migrateSchema(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    for (let step = version; step < SCHEMA_MIGRATIONS.length; step++) {
+      this.db.transaction(() => {
+        this.db.exec(SCHEMA_MIGRATIONS[step]);
+        this.db.pragma(`user_version = ${step + 1}`);
+      })();
+    }
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.db
+      .prepare(`INSERT INTO audit_log (${COLUMNS}) VALUES (${VALUES})`)
+      .run(toRow(entry));
+  }
+
+  /**
+   * Inserts entries in one transaction, skipping the entries already
+   * stored (same tool, timestamp, endpoint and status code)
+   */
+  importEntries(entries: AuditEntry[]): { imported: number; skipped: number } {
+    const insert = this.db.prepare(
+      `INSERT INTO audit_log (${COLUMNS}) SELECT ${VALUES}
+       WHERE NOT EXISTS (
+         SELECT 1 FROM audit_log WHERE tool_name = @tool_name
+           AND timestamp = @timestamp AND endpoint = @endpoint
+           AND return_code = @return_code
+       )`,
+    );
+    return this.db.transaction(() => {
+      let imported = 0;
+      for (const entry of entries) {
+        imported += insert.run(toRow(entry)).changes;
+      }
+      return { imported, skipped: entries.length - imported };
+    })();
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const { where, params } = buildWhere(query);
+    const limit = query.limit !== undefined ? "LIMIT ?" : "";
+    const rows = this.db
+      .prepare(
+        `SELECT ${COLUMNS} FROM audit_log ${where}
+         ORDER BY timestamp DESC, id DESC ${limit}`,
+      )
+      .all(
+        ...params,
+        ...(query.limit !== undefined ? [query.limit] : []),
+      ) as AuditRow[];
+    return rows.map(fromRow);
+  }
+
+  // Counts of the matching entries grouped by a column
+  private countBy(
+    column: "return_code" | "tool_name" | "user_agent" | "username",
+    query: AuditQuery,
+  ): Record<string, number> {
+    const { where, params } = buildWhere(query);
+    const rows = this.db
+      .prepare(
+        `SELECT ${column} AS value, COUNT(*) AS count FROM audit_log ${where}
+         GROUP BY ${column}`,
+      )
+      .all(...params) as { value: string | number | null; count: number }[];
+    return Object.fromEntries(
+      rows
+        .filter((row) => row.value !== null)
+        .map((row) => [row.value, row.count]),
+    );
+  }
+
+  async summarize(query: AuditQuery = {}): Promise<AuditSummary> {
+    const byReturnCode = this.countBy("return_code", query);
+    return {
+      total: Object.values(byReturnCode).reduce((sum, n) => sum + n, 0),
+      byReturnCode,
+      byTool: this.countBy("tool_name", query),
+      byUserAgent: this.countBy("user_agent", query),
+      byUser: this.countBy("username", query),
+    };
+  }
+
+  async getToolStats(): Promise<Record<string, ToolCallStats>> {
+    const rows = this.db
+      .prepare(
+        `SELECT tool_name, COUNT(*) AS calls,
+           SUM(return_code >= 200 AND return_code < 300) AS successes
+         FROM audit_log GROUP BY tool_name`,
+      )
+      .all() as { tool_name: string; calls: number; successes: number }[];
+    return Object.fromEntries(
+      rows.map((row) => [
+        row.tool_name,
+        { calls: row.calls, successes: row.successes },
+      ]),
+    );
+  }
+
+  // Deletes the rows selected by a (id, tool_name, bytes) query
+  private deleteRows(
+    reason: PruneReason,
+    select: string,
+    params: (string | number)[],
+    result: PruneResult,
+  ): void {
+    const rows = this.db.prepare(select).all(...params) as {
+      id: number;
+      tool_name: string;
+      bytes: number;
+    }[];
+    const remove = this.db.prepare("DELETE FROM audit_log WHERE id = ?");
+    for (const row of rows) {
+      remove.run(row.id);
+      recordPruned(result, row.tool_name, reason, 1, row.bytes);
+    }
+  }
+
+  async compact(
+    policy: RetentionPolicy,
+    now: Date = new Date(),
+  ): Promise<PruneResult> {
+    const result = emptyPruneResult();
+    this.db.transaction(() => {
+      if (policy.maxAgeMs !== undefined) {
+        const cutoff = new Date(now.getTime() - policy.maxAgeMs).toISOString();
+        this.deleteRows(
+          "age",
+          `SELECT id, tool_name, ${RECORD_BYTES} AS bytes FROM audit_log
+           WHERE timestamp < ?`,
+          [cutoff],
+          result,
+        );
+      }
+      // Rows beyond the limit once the more recent rows are counted
+      const beyondLimit = (partition: string) =>
+        `SELECT id, tool_name, bytes FROM (
+           SELECT id, tool_name, ${RECORD_BYTES} AS bytes,
+             SUM(${RECORD_BYTES}) OVER (${partition}
+               ORDER BY timestamp DESC, id DESC) AS kept_bytes
+           FROM audit_log
+         ) WHERE kept_bytes > ?`;
+      if (policy.maxBytesPerTool !== undefined) {
+        this.deleteRows(
+          "tool_size",
+          beyondLimit("PARTITION BY tool_name"),
+          [policy.maxBytesPerTool],
+          result,
+        );
+      }
+      if (policy.maxTotalBytes !== undefined) {
+        this.deleteRows(
+          "total_size",
+          beyondLimit(""),
+          [policy.maxTotalBytes],
+          result,
+        );
+      }
+    })();
+    if (result.entries > 0) {
+      this.db.pragma("incremental_vacuum");
+    }
+    return result;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,123 @@
+import { join } from "path";
+import type { LogEntry } from "./logger.js";
+import type {
+  AuditResponsesConfig,
+  AuditRetentionConfig,
+  AuditRotationConfig,
+  PruneResult,
+  RetentionPolicy,
+} from "./audit-retention.js";
+import { JsonlAuditStore } from "./audit-store-jsonl.js";
+import { SqliteAuditStore } from "./audit-store-sqlite.js";
+
+/**
+ * Storage of the audit log: one record per tool call
+ */
+
+export type AuditBackend = "sqlite" | "jsonl";
+
+export const AUDIT_BACKENDS: AuditBackend[] = ["sqlite", "jsonl"];
+
+/**
+ * audit section of aap-mcp.yaml
+ */
+export interface AuditConfig {
+  backend?: AuditBackend;
+  // SQLite database file, or directory of the JSONL files
+  path?: string;
+  retention?: AuditRetentionConfig;
+  rotation?: AuditRotationConfig;
+  responses?: AuditResponsesConfig;
+}
+
+export type AuditEntry = LogEntry & { toolName: string };
+
+/**
+ * Filters of the audit queries, all optional. since is inclusive and
+ * until exclusive (ISO timestamps), userAgent matches a case-insensitive
+ * substring.
+ */
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  toolName?: string;
+  returnCode?: number;
+  sessionId?: string;
+  username?: string;
+  userAgent?: string;
+  limit?: number;
+}
+
+export interface AuditSummary {
+  total: number;
+  byReturnCode: Record<number, number>;
+  byTool: Record<string, number>;
+  byUserAgent: Record<string, number>;
+  // Entries without a username are not counted
+  byUser: Record<string, number>;
+}
+
+export interface ToolCallStats {
+  calls: number;
+  // Calls answered with a 2xx status code
+  successes: number;
+}
+
+export interface AuditStore {
+  append(entry: AuditEntry): Promise<void>;
+  // Matching entries, most recent first
+  query(query?: AuditQuery): Promise<AuditEntry[]>;
+  // Counts of the matching entries, limit is ignored
+  summarize(query?: AuditQuery): Promise<AuditSummary>;
+  getToolStats(): Promise<Record<string, ToolCallStats>>;
+  // Removes the entries beyond the retention limits, oldest first
+  compact(policy: RetentionPolicy, now?: Date): Promise<PruneResult>;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_AUDIT_PATHS: Record<AuditBackend, string> = {
+  sqlite: join("logs", "audit.db"),
+  jsonl: "logs",
+};
+
+/**
+ * Opens the audit store of the configuration, SQLite by default
+ */
+export const createAuditStore = (config: AuditConfig = {}): AuditStore => {
+  const backend = config.backend ?? "sqlite";
+  const path = config.path ?? DEFAULT_AUDIT_PATHS[backend];
+  return backend === "jsonl"
+    ? new JsonlAuditStore(path)
+    : new SqliteAuditStore(path);
+};
+
+export interface AuditMigrationResult {
+  files: number;
+  imported: number;
+  // Entries already in the target store
+  skipped: number;
+}
+
+/**
+ * Imports the <tool>.jsonl files of logDir into a SQLite store. Entries
+ * already imported are skipped, so the migration can run again safely.
+ */
+export const migrateJsonlLogs = async (
+  logDir: string,
+  target: SqliteAuditStore,
+): Promise<AuditMigrationResult> => {
+  const source = new JsonlAuditStore(logDir, { createDir: false });
+  const toolNames = await source.listToolNames();
+  const result: AuditMigrationResult = {
+    files: toolNames.length,
+    imported: 0,
+    skipped: 0,
+  };
+  for (const toolName of toolNames) {
+    const entries = await source.readToolEntries(toolName);
+    const { imported, skipped } = target.importEntries(entries);
+    result.imported += imported;
+    result.skipped += skipped;
+  }
+  return result;
+};
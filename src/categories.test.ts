@@ -0,0 +1,269 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandCategories,
+  expandCategory,
+  findCategoryCycle,
+  normalizeCategories,
+  parseCategoryEntry,
+  type CategoryTool,
+} from "./categories";
+
+const tools: CategoryTool[] = [
+  {
+    name: "gateway.teams_list",
+    method: "get",
+    service: "gateway",
+    tags: ["Teams"],
+  },
+  {
+    name: "gateway.teams_destroy",
+    method: "delete",
+    service: "gateway",
+    tags: ["Teams"],
+  },
+  {
+    name: "controller.hosts_list",
+    method: "get",
+    service: "controller",
+    tags: ["Hosts"],
+  },
+  {
+    name: "controller.hosts_create",
+    method: "post",
+    service: "controller",
+    tags: ["Hosts"],
+  },
+  { name: "eda.activations_list", method: "get", service: "eda" },
+];
+
+describe("Categories", () => {
+  describe("normalizeCategories", () => {
+    it("should accept both category forms", () => {
+      expect(
+        normalizeCategories({
+          developer: ["controller.hosts_list"],
+          admin: { required_role: "superuser", tools: ["gateway.*"] },
+        }),
+      ).toEqual({
+        tools: { developer: ["controller.hosts_list"], admin: ["gateway.*"] },
+        requiredRoles: { developer: "user", admin: "superuser" },
+        parents: { developer: [], admin: [] },
+      });
+    });
+
+    it("should normalize extends", () => {
+      const resolved = normalizeCategories({
+        base: ["controller.hosts_list"],
+        single: { extends: "base" },
+        multiple: { extends: ["base", "single"], tools: ["gateway.*"] },
+      });
+
+      expect(resolved.tools).toEqual({
+        base: ["controller.hosts_list"],
+        single: [],
+        multiple: ["gateway.*"],
+      });
+      expect(resolved.parents).toEqual({
+        base: [],
+        single: ["base"],
+        multiple: ["base", "single"],
+      });
+    });
+
+    it("should inherit the highest required role of the ancestors", () => {
+      const resolved = normalizeCategories({
+        base: ["controller.hosts_list"],
+        admin: { required_role: "superuser", tools: ["gateway.*"] },
+        audit: { required_role: "auditor", extends: "base" },
+        child: { extends: "admin" },
+        grandchild: { extends: ["audit", "child"] },
+      });
+
+      expect(resolved.requiredRoles).toEqual({
+        base: "user",
+        admin: "superuser",
+        audit: "auditor",
+        child: "superuser",
+        grandchild: "superuser",
+      });
+    });
+
+    it("should reject unknown parents and cycles", () => {
+      expect(() =>
+        normalizeCategories({ child: { extends: "missing" } }),
+      ).toThrow("category 'child' extends unknown category 'missing'");
+      expect(() =>
+        normalizeCategories({
+          a: { extends: "b", tools: [] },
+          b: { extends: "c" },
+          c: { extends: "a" },
+        }),
+      ).toThrow("cycle: a -> b -> c -> a");
+      expect(() => normalizeCategories({ empty: {} })).toThrow(
+        "must be a list of tools or define a 'tools' list or 'extends'",
+      );
+    });
+
+    it("should reject invalid entries", () => {
+      expect(() => normalizeCategories({ broken: ["/[a-/"] })).toThrow(
+        "category 'broken': invalid regular expression",
+      );
+      expect(() => normalizeCategories({ broken: ["tag:"] })).toThrow(
+        "empty tag selector",
+      );
+    });
+  });
+
+  describe("findCategoryCycle", () => {
+    it("should ignore diamonds", () => {
+      expect(
+        findCategoryCycle({ a: ["b", "c"], b: ["d"], c: ["d"], d: [] }),
+      ).toBeUndefined();
+    });
+
+    it("should report self references", () => {
+      expect(findCategoryCycle({ a: ["a"] })).toEqual(["a", "a"]);
+    });
+  });
+
+  describe("parseCategoryEntry", () => {
+    it("should recognize each kind of entry", () => {
+      expect(parseCategoryEntry("controller.hosts_list").kind).toBe("name");
+      expect(parseCategoryEntry("gateway.teams_*").kind).toBe("glob");
+      expect(parseCategoryEntry("/_list$/").kind).toBe("regex");
+      expect(parseCategoryEntry("service:eda").kind).toBe("service");
+      expect(parseCategoryEntry("method:get").kind).toBe("method");
+      expect(parseCategoryEntry("tag:Hosts").kind).toBe("tag");
+      expect(parseCategoryEntry("!*_destroy")).toMatchObject({
+        kind: "glob",
+        exclude: true,
+      });
+    });
+
+    it("should not treat dots in globs as wildcards", () => {
+      const rule = parseCategoryEntry("controller.hosts_*");
+      expect(rule.matches(tools[2])).toBe(true);
+      expect(rule.matches({ ...tools[2], name: "controllerXhosts_list" })).toBe(
+        false,
+      );
+    });
+
+    it("should match methods and tags case-insensitively", () => {
+      expect(parseCategoryEntry("method:GET").matches(tools[0])).toBe(true);
+      expect(parseCategoryEntry("tag:host*").matches(tools[2])).toBe(true);
+      expect(parseCategoryEntry("tag:Hosts").matches(tools[4])).toBe(false);
+    });
+  });
+
+  describe("expandCategory", () => {
+    it("should keep exact names that exist", () => {
+      expect(
+        expandCategory(["controller.hosts_list", "controller.missing"], tools)
+          .toolNames,
+      ).toEqual(["controller.hosts_list"]);
+    });
+
+    it("should combine includes and excludes", () => {
+      const expansion = expandCategory(
+        ["gateway.teams_*", "controller.*_list", "!*_destroy"],
+        tools,
+      );
+
+      expect(expansion.toolNames).toEqual([
+        "gateway.teams_list",
+        "controller.hosts_list",
+      ]);
+      expect(expansion.rules).toEqual([
+        {
+          entry: "gateway.teams_*",
+          kind: "glob",
+          exclude: false,
+          toolNames: ["gateway.teams_list", "gateway.teams_destroy"],
+        },
+        {
+          entry: "controller.*_list",
+          kind: "glob",
+          exclude: false,
+          toolNames: ["controller.hosts_list"],
+        },
+        {
+          entry: "!*_destroy",
+          kind: "glob",
+          exclude: true,
+          toolNames: ["gateway.teams_destroy"],
+        },
+      ]);
+    });
+
+    it("should support selectors and regular expressions", () => {
+      expect(
+        expandCategory(["service:controller", "!method:post"], tools).toolNames,
+      ).toEqual(["controller.hosts_list"]);
+      expect(expandCategory(["tag:Teams"], tools).toolNames).toEqual([
+        "gateway.teams_list",
+        "gateway.teams_destroy",
+      ]);
+      expect(
+        expandCategory(["/^(eda|gateway)\\..*_list$/"], tools).toolNames,
+      ).toEqual(["gateway.teams_list", "eda.activations_list"]);
+    });
+
+    it("should start from all the tools with only exclusions", () => {
+      expect(
+        expandCategory(["!method:delete", "!method:post"], tools).toolNames,
+      ).toEqual([
+        "gateway.teams_list",
+        "controller.hosts_list",
+        "eda.activations_list",
+      ]);
+    });
+  });
+
+  describe("expandCategories", () => {
+    it("should expand every category", () => {
+      const expanded = expandCategories(
+        { readonly: ["method:get"], empty: [] },
+        tools,
+      );
+
+      expect(expanded.readonly.toolNames).toHaveLength(3);
+      expect(expanded.empty.toolNames).toEqual([]);
+    });
+
+    it("should inherit tools and track where they come from", () => {
+      const expanded = expandCategories(
+        {
+          teams: ["gateway.teams_*"],
+          hosts: ["tag:Hosts"],
+          operator: ["eda.activations_list", "!*_destroy"],
+          auditor: ["!method:post"],
+        },
+        tools,
+        { operator: ["teams", "hosts"], auditor: ["operator"] },
+      );
+
+      expect(expanded.operator.toolNames).toEqual([
+        "gateway.teams_list",
+        "controller.hosts_list",
+        "controller.hosts_create",
+        "eda.activations_list",
+      ]);
+      expect(expanded.operator.inheritedFrom).toEqual({
+        "gateway.teams_list": "teams",
+        "controller.hosts_list": "hosts",
+        "controller.hosts_create": "hosts",
+      });
+      // Exclusions only subtract from the inherited tools
+      expect(expanded.auditor.toolNames).toEqual([
+        "gateway.teams_list",
+        "controller.hosts_list",
+        "eda.activations_list",
+      ]);
+      expect(expanded.auditor.inheritedFrom).toEqual({
+        "gateway.teams_list": "teams",
+        "controller.hosts_list": "hosts",
+        "eda.activations_list": "operator",
+      });
+    });
+  });
+});
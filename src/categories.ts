@@ -0,0 +1,389 @@
+import { isUserRole, USER_ROLES, type UserRole } from "./permissions.js";
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+
+/**
+ * Extended form of a category entry in aap-mcp.yaml
+ */
+export interface CategoryDefinition {
+  required_role?: UserRole;
+  extends?: string | string[];
+  tools?: string[];
+}
+
+/**
+ * A category is either a plain list of tool entries or a CategoryDefinition.
+ * An entry is an exact tool name, a glob (gateway.teams_*), a regular
+ * expression (/^controller\..*_list$/) or a selector (service:eda,
+ * method:get, tag:Hosts). Entries starting with '!' exclude tools, including
+ * the tools inherited through 'extends'.
+ */
+export type CategoryConfig = string[] | CategoryDefinition;
+
+export interface ResolvedCategories {
+  tools: Record<string, string[]>;
+  requiredRoles: Record<string, UserRole>;
+  parents: Record<string, string[]>;
+}
+
+/**
+ * Finds a cycle in the category inheritance graph, returns the names of
+ * the categories forming it (first and last are the same) or undefined
+ */
+export const findCategoryCycle = (
+  parents: Record<string, string[]>,
+): string[] | undefined => {
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | undefined => {
+    const index = path.indexOf(name);
+    if (index !== -1) {
+      return [...path.slice(index), name];
+    }
+    if (done.has(name)) {
+      return undefined;
+    }
+    path.push(name);
+    for (const parent of parents[name] || []) {
+      const cycle = visit(parent);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    done.add(name);
+    return undefined;
+  };
+
+  for (const name of Object.keys(parents)) {
+    const cycle = visit(name);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Highest role of each category and of the categories it extends, so that
+ * a child never opens the tools of its parents to lower roles. parents
+ * must not contain cycles.
+ */
+const inheritRequiredRoles = (
+  requiredRoles: Record<string, UserRole>,
+  parents: Record<string, string[]>,
+): Record<string, UserRole> => {
+  const effective: Record<string, UserRole> = {};
+
+  const resolve = (name: string): UserRole => {
+    if (!effective[name]) {
+      effective[name] = (parents[name] || [])
+        .map(resolve)
+        .reduce(
+          (highest, role) =>
+            USER_ROLES.indexOf(role) > USER_ROLES.indexOf(highest)
+              ? role
+              : highest,
+          requiredRoles[name],
+        );
+    }
+    return effective[name];
+  };
+
+  for (const name of Object.keys(requiredRoles)) {
+    resolve(name);
+  }
+  return effective;
+};
+
+/**
+ * Normalizes the categories section of the configuration. Categories
+ * without a required_role are open to every authenticated user, unless
+ * they extend a category requiring a higher role: the highest role of a
+ * category and its ancestors applies.
+ */
+export const normalizeCategories = (
+  categories: Record<string, CategoryConfig>,
+): ResolvedCategories => {
+  const resolved: ResolvedCategories = {
+    tools: {},
+    requiredRoles: {},
+    parents: {},
+  };
+
+  for (const [name, category] of Object.entries(categories)) {
+    if (Array.isArray(category)) {
+      resolved.tools[name] = category;
+      resolved.requiredRoles[name] = "user";
+      resolved.parents[name] = [];
+      continue;
+    }
+
+    const parents =
+      category && typeof category.extends === "string"
+        ? [category.extends]
+        : category?.extends;
+    if (
+      !category ||
+      (category.tools !== undefined && !Array.isArray(category.tools)) ||
+      (parents !== undefined && !Array.isArray(parents)) ||
+      (category.tools === undefined && parents === undefined)
+    ) {
+      throw new Error(
+        `Invalid configuration: category '${name}' must be a list of tools or define a 'tools' list or 'extends'`,
+      );
+    }
+
+    for (const parent of parents || []) {
+      if (!Object.prototype.hasOwnProperty.call(categories, parent)) {
+        throw new Error(
+          `Invalid configuration: category '${name}' extends unknown category '${parent}'`,
+        );
+      }
+    }
+
+    const requiredRole = category.required_role ?? "user";
+    if (!isUserRole(requiredRole)) {
+      throw new Error(
+        `Invalid configuration: category '${name}' has unknown required_role '${requiredRole}' (expected one of: ${USER_ROLES.join(", ")})`,
+      );
+    }
+
+    resolved.tools[name] = category.tools || [];
+    resolved.requiredRoles[name] = requiredRole;
+    resolved.parents[name] = parents || [];
+  }
+
+  const cycle = findCategoryCycle(resolved.parents);
+  if (cycle) {
+    throw new Error(
+      `Invalid configuration: categories extend each other in a cycle: ${cycle.join(" -> ")}`,
+    );
+  }
+  resolved.requiredRoles = inheritRequiredRoles(
+    resolved.requiredRoles,
+    resolved.parents,
+  );
+
+  // Reject invalid patterns before any tool is generated
+  for (const [name, entries] of Object.entries(resolved.tools)) {
+    for (const entry of entries) {
+      try {
+        parseCategoryEntry(entry);
+      } catch (error) {
+        throw new Error(
+          `Invalid configuration: category '${name}': ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  return resolved;
+};
+
+export type CategoryTool = Pick<
+  AAPMcpToolDefinition,
+  "name" | "method" | "service" | "tags"
+>;
+
+export type CategoryRuleKind =
+  "name" | "glob" | "regex" | "service" | "method" | "tag";
+
+export interface CategoryRule {
+  entry: string;
+  kind: CategoryRuleKind;
+  exclude: boolean;
+  matches: (tool: CategoryTool) => boolean;
+}
+
+export interface CategoryRuleExpansion {
+  entry: string;
+  kind: CategoryRuleKind;
+  exclude: boolean;
+  toolNames: string[];
+}
+
+export interface CategoryExpansion {
+  toolNames: string[];
+  rules: CategoryRuleExpansion[];
+  // Tools coming only from a parent category, mapped to the category that
+  // lists them
+  inheritedFrom: Record<string, string>;
+}
+
+const SELECTOR_KINDS: CategoryRuleKind[] = ["service", "method", "tag"];
+
+// Convert a glob (* and ? wildcards) into an anchored regular expression
+const globToRegExp = (glob: string, flags?: string): RegExp => {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, flags);
+};
+
+const isGlob = (value: string): boolean => /[*?]/.test(value);
+
+/**
+ * Parses one category entry. Throws on invalid regular expressions and
+ * empty selectors.
+ */
+export const parseCategoryEntry = (entry: string): CategoryRule => {
+  const exclude = entry.startsWith("!");
+  const pattern = exclude ? entry.slice(1) : entry;
+
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regexMatch) {
+    let regex: RegExp;
+    try {
+      // Stateful flags would make test() depend on the previous call
+      regex = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ""));
+    } catch (error) {
+      throw new Error(
+        `invalid regular expression '${entry}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return {
+      entry,
+      kind: "regex",
+      exclude,
+      matches: (tool) => regex.test(tool.name),
+    };
+  }
+
+  const selectorMatch = pattern.match(/^([a-z]+):(.*)$/s);
+  if (
+    selectorMatch &&
+    SELECTOR_KINDS.includes(selectorMatch[1] as CategoryRuleKind)
+  ) {
+    const kind = selectorMatch[1] as CategoryRuleKind;
+    const value = selectorMatch[2].trim();
+    if (!value) {
+      throw new Error(`empty ${kind} selector '${entry}'`);
+    }
+    // HTTP methods and OpenAPI tags are matched case-insensitively
+    const regex = globToRegExp(value, kind === "service" ? undefined : "i");
+    const matches = (tool: CategoryTool): boolean => {
+      if (kind === "service") return regex.test(tool.service || "");
+      if (kind === "method") return regex.test(tool.method);
+      return (tool.tags || []).some((tag) => regex.test(tag));
+    };
+    return { entry, kind, exclude, matches };
+  }
+
+  if (isGlob(pattern)) {
+    const regex = globToRegExp(pattern);
+    return {
+      entry,
+      kind: "glob",
+      exclude,
+      matches: (tool) => regex.test(tool.name),
+    };
+  }
+
+  return {
+    entry,
+    kind: "name",
+    exclude,
+    matches: (tool) => tool.name === pattern,
+  };
+};
+
+/**
+ * Resolves the entries of a category against the generated tools. A tool
+ * belongs to the category when it is inherited or matches at least one
+ * include entry, and matches no exclude entry. inherited maps the tools
+ * of the parent categories to the category listing them. A category
+ * without parents made only of exclusions starts from all the tools.
+ */
+export const expandCategory = (
+  entries: string[],
+  tools: CategoryTool[],
+  inherited?: Record<string, string>,
+): CategoryExpansion => {
+  const rules = entries.map(parseCategoryEntry);
+  const includes = rules.filter((rule) => !rule.exclude);
+  const excludes = rules.filter((rule) => rule.exclude);
+
+  const includeAll =
+    inherited === undefined && includes.length === 0 && excludes.length > 0;
+  const inheritedFrom: Record<string, string> = {};
+  const toolNames = tools
+    .filter((tool) => {
+      if (excludes.some((rule) => rule.matches(tool))) {
+        return false;
+      }
+      if (includeAll || includes.some((rule) => rule.matches(tool))) {
+        return true;
+      }
+      const origin = inherited?.[tool.name];
+      if (origin !== undefined) {
+        inheritedFrom[tool.name] = origin;
+        return true;
+      }
+      return false;
+    })
+    .map((tool) => tool.name);
+
+  return {
+    toolNames,
+    inheritedFrom,
+    rules: rules.map((rule) => ({
+      entry: rule.entry,
+      kind: rule.kind,
+      exclude: rule.exclude,
+      toolNames: tools
+        .filter((tool) => rule.matches(tool))
+        .map((tool) => tool.name),
+    })),
+  };
+};
+
+/**
+ * Resolves every category, parents first, see expandCategory. parents
+ * comes from normalizeCategories and must not contain cycles.
+ */
+export const expandCategories = (
+  categories: Record<string, string[]>,
+  tools: CategoryTool[],
+  parents: Record<string, string[]> = {},
+): Record<string, CategoryExpansion> => {
+  const expanded: Record<string, CategoryExpansion> = {};
+  const inProgress = new Set<string>();
+
+  const expand = (name: string): CategoryExpansion => {
+    if (expanded[name]) {
+      return expanded[name];
+    }
+    if (inProgress.has(name)) {
+      throw new Error(`Category '${name}' extends itself`);
+    }
+    inProgress.add(name);
+
+    const categoryParents = parents[name] || [];
+    let inherited: Record<string, string> | undefined;
+    if (categoryParents.length > 0) {
+      inherited = {};
+      for (const parent of categoryParents) {
+        const parentExpansion = expand(parent);
+        for (const toolName of parentExpansion.toolNames) {
+          inherited[toolName] ??=
+            parentExpansion.inheritedFrom[toolName] ?? parent;
+        }
+      }
+    }
+
+    expanded[name] = expandCategory(categories[name] || [], tools, inherited);
+    inProgress.delete(name);
+    return expanded[name];
+  };
+
+  for (const name of Object.keys(categories)) {
+    expand(name);
+  }
+  return expanded;
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { parseCliArgs } from "./cli";
+
+describe("parseCliArgs", () => {
+  it("should return no option without arguments", () => {
+    expect(parseCliArgs([])).toEqual({});
+  });
+
+  it("should parse the stdio shortcut and the category", () => {
+    expect(parseCliArgs(["--stdio", "--category", "job_management"])).toEqual({
+      transport: "stdio",
+      category: "job_management",
+    });
+  });
+
+  it("should accept inline values", () => {
+    expect(
+      parseCliArgs(["--transport=http", "--category=system_monitoring"]),
+    ).toEqual({
+      transport: "http",
+      category: "system_monitoring",
+    });
+  });
+
+  it("should parse the configuration check mode", () => {
+    expect(parseCliArgs(["--check-config"])).toEqual({ checkConfig: true });
+  });
+
+  it("should parse the audit log migration", () => {
+    expect(parseCliArgs(["--migrate-audit-logs", "logs"])).toEqual({
+      migrateAuditLogs: "logs",
+    });
+    expect(() => parseCliArgs(["--migrate-audit-logs"])).toThrow(
+      "Missing value for --migrate-audit-logs",
+    );
+  });
+
+  it("should parse the tool cache warm-up", () => {
+    expect(parseCliArgs(["--warm-tool-cache"])).toEqual({
+      warmToolCache: true,
+    });
+  });
+
+  it("should parse the dry-run mode", () => {
+    expect(parseCliArgs(["--stdio", "--dry-run"])).toEqual({
+      transport: "stdio",
+      dryRun: true,
+    });
+  });
+
+  it("should reject unknown transports", () => {
+    expect(() => parseCliArgs(["--transport", "sse"])).toThrow(
+      "Invalid transport 'sse'",
+    );
+  });
+
+  it("should reject missing values", () => {
+    expect(() => parseCliArgs(["--category"])).toThrow(
+      "Missing value for --category",
+    );
+  });
+
+  it("should reject unknown arguments", () => {
+    expect(() => parseCliArgs(["--verbose"])).toThrow(
+      "Unknown argument: --verbose",
+    );
+  });
+});
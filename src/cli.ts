@@ -0,0 +1,91 @@
+/**
+ * Command line handling
+ */
+
+export type TransportMode = "http" | "stdio";
+
+export const TRANSPORT_MODES: TransportMode[] = ["http", "stdio"];
+
+export interface CliOptions {
+  transport?: TransportMode;
+  category?: string;
+  checkConfig?: boolean;
+  dryRun?: boolean;
+  // Directory of the JSONL audit logs to import into the SQLite store
+  migrateAuditLogs?: string;
+  // Fill the tool cache and exit
+  warmToolCache?: boolean;
+}
+
+/**
+ * Checks whether a string is a known transport mode
+ */
+export const isTransportMode = (value: unknown): value is TransportMode => {
+  return (
+    typeof value === "string" &&
+    TRANSPORT_MODES.includes(value as TransportMode)
+  );
+};
+
+/**
+ * Parses the command line arguments (without the node and script paths)
+ */
+export const parseCliArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+    const takeValue = (): string => {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value === "") {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case "--stdio":
+        options.transport = "stdio";
+        break;
+      case "--transport": {
+        const transport = takeValue();
+        if (!isTransportMode(transport)) {
+          throw new Error(
+            `Invalid transport '${transport}' (expected one of: ${TRANSPORT_MODES.join(", ")})`,
+          );
+        }
+        options.transport = transport;
+        break;
+      }
+      case "--category":
+        options.category = takeValue();
+        break;
+      case "--check-config":
+        options.checkConfig = true;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--migrate-audit-logs":
+        options.migrateAuditLogs = takeValue();
+        break;
+      case "--warm-tool-cache":
+        options.warmToolCache = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  return options;
+};
+
+/**
+ * Sends everything written with console.log/info/debug to stderr. Used by
+ * the stdio transport, where stdout carries the MCP protocol stream.
+ */
+export const redirectConsoleToStderr = (): void => {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { ConfigReloader, type ReloadableConfig } from "./config-reload";
+import { redactSecrets } from "./redaction";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const tool = (name: string, service: string) =>
+  ({ name, service, method: "GET" }) as unknown as AAPMcpToolDefinition;
+
+const config: ReloadableConfig = {
+  services: [{ name: "eda" }],
+  redaction: { fields: ["webhook_key"] },
+  categories: {
+    operator: ["eda.*"],
+    admin: { extends: ["operator"], tools: ["eda.projects_create"] },
+  },
+};
+
+const createReloader = (loadConfig: () => ReloadableConfig) => {
+  const generateTools = vi.fn(async () => [
+    tool("eda.projects_list", "eda"),
+    tool("eda.projects_create", "eda"),
+  ]);
+  const apply = vi.fn((state) => state.tools.length);
+  const reloader = new ConfigReloader({ loadConfig, generateTools, apply });
+  return { reloader, generateTools, apply };
+};
+
+describe("ConfigReloader", () => {
+  it("should hand the new tools, categories and redaction rules to apply", async () => {
+    const { reloader, generateTools, apply } = createReloader(() => config);
+
+    expect(await reloader.reload()).toBe(2);
+
+    expect(generateTools).toHaveBeenCalledWith([{ name: "eda" }], [], {});
+    const state = apply.mock.calls[0][0];
+    expect(state.config).toBe(config);
+    expect(state.categories.parents).toEqual({
+      operator: [],
+      admin: ["operator"],
+    });
+    expect(state.expansions.operator.toolNames).toEqual([
+      "eda.projects_list",
+      "eda.projects_create",
+    ]);
+    expect(state.expansions.admin.toolNames).toHaveLength(2);
+    expect(redactSecrets({ webhook_key: "abc" }, state.redactionRules)).toEqual(
+      { webhook_key: "[REDACTED]" },
+    );
+  });
+
+  it("should reject an invalid configuration without applying it", async () => {
+    const { reloader, generateTools, apply } = createReloader(() => {
+      throw new Error("Invalid configuration in aap-mcp.yaml");
+    });
+
+    await expect(reloader.reload()).rejects.toThrow("Invalid configuration");
+    expect(generateTools).not.toHaveBeenCalled();
+    expect(apply).not.toHaveBeenCalled();
+    expect(reloader.isReloading()).toBe(false);
+  });
+
+  it("should reject invalid redaction paths and category cycles", async () => {
+    const { reloader, apply } = createReloader(() => ({
+      ...config,
+      redaction: { paths: ["$"] },
+    }));
+    await expect(reloader.reload()).rejects.toThrow("Invalid redaction path");
+
+    const cyclic = createReloader(() => ({
+      categories: {
+        a: { extends: ["b"], tools: [] },
+        b: { extends: ["a"], tools: [] },
+      },
+    }));
+    await expect(cyclic.reloader.reload()).rejects.toThrow();
+    expect(apply).not.toHaveBeenCalled();
+    expect(cyclic.apply).not.toHaveBeenCalled();
+  });
+
+  it("should run the reloads one at a time", async () => {
+    const loaded: string[] = [];
+    let release: () => void = () => {};
+    const { reloader, apply } = createReloader(() => config);
+    apply.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve(0);
+        }),
+    );
+    apply.mockImplementation(() => {
+      loaded.push("second");
+      return 1;
+    });
+
+    const first = reloader.reload();
+    await vi.waitFor(() => expect(apply).toHaveBeenCalledTimes(1));
+    const second = reloader.reload();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(loaded).toEqual([]);
+    expect(reloader.isReloading()).toBe(true);
+
+    release();
+    expect(await first).toBe(0);
+    expect(await second).toBe(1);
+    expect(loaded).toEqual(["second"]);
+  });
+});
@@ -0,0 +1,101 @@
+import type { AAPMcpToolDefinition, ServiceConfig } from "./openapi-loader.js";
+import {
+  expandCategories,
+  normalizeCategories,
+  type CategoryConfig,
+  type CategoryExpansion,
+  type ResolvedCategories,
+} from "./categories.js";
+import {
+  compileRedactionRules,
+  type RedactionConfig,
+  type RedactionRules,
+} from "./redaction.js";
+import type { SpecStatus } from "./readiness.js";
+
+// Sections of aap-mcp.yaml a reload rebuilds the state from
+export interface ReloadableConfig {
+  services?: ServiceConfig[];
+  redaction?: RedactionConfig;
+  categories: Record<string, CategoryConfig>;
+}
+
+// Everything a reload swaps at once
+export interface ReloadedState<C extends ReloadableConfig> {
+  config: C;
+  categories: ResolvedCategories;
+  expansions: Record<string, CategoryExpansion>;
+  redactionRules: RedactionRules;
+  tools: AAPMcpToolDefinition[];
+  // Tools removed because their operation is not allowed
+  disabledToolNames: string[];
+  specStatuses: Record<string, SpecStatus>;
+}
+
+export interface ConfigReloaderOptions<C extends ReloadableConfig, R> {
+  // Reads and validates the configuration file, throws when it is invalid
+  loadConfig: () => C;
+  generateTools: (
+    services: ServiceConfig[],
+    disabledToolNames: string[],
+    specStatuses: Record<string, SpecStatus>,
+  ) => Promise<AAPMcpToolDefinition[]>;
+  // Swaps the running state, only called once the whole configuration was
+  // loaded without error
+  apply: (state: ReloadedState<C>) => Promise<R> | R;
+}
+
+/**
+ * Reloads aap-mcp.yaml: builds the tools, categories and redaction rules
+ * of the new configuration, then hands them to apply. An invalid file
+ * leaves the running state untouched. Reloads run one at a time so the
+ * latest file content wins.
+ */
+export class ConfigReloader<C extends ReloadableConfig, R> {
+  private inProgress: Promise<R> | undefined;
+
+  constructor(private readonly options: ConfigReloaderOptions<C, R>) {}
+
+  isReloading(): boolean {
+    return this.inProgress !== undefined;
+  }
+
+  async reload(): Promise<R> {
+    while (this.inProgress) {
+      await this.inProgress.catch(() => undefined);
+    }
+    this.inProgress = this.run();
+    try {
+      return await this.inProgress;
+    } finally {
+      this.inProgress = undefined;
+    }
+  }
+
+  private async run(): Promise<R> {
+    const config = this.options.loadConfig();
+    const categories = normalizeCategories(config.categories);
+    const redactionRules = compileRedactionRules(config.redaction);
+    const disabledToolNames: string[] = [];
+    const specStatuses: Record<string, SpecStatus> = {};
+    const tools = await this.options.generateTools(
+      config.services || [],
+      disabledToolNames,
+      specStatuses,
+    );
+    const expansions = expandCategories(
+      categories.tools,
+      tools,
+      categories.parents,
+    );
+    return this.options.apply({
+      config,
+      categories,
+      expansions,
+      redactionRules,
+      tools,
+      disabledToolNames,
+      specStatuses,
+    });
+  }
+}
@@ -0,0 +1,317 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatConfigIssues,
+  validateConfigSchema,
+  validateConfigSemantics,
+} from "./config-validator";
+
+describe("Configuration validation", () => {
+  describe("validateConfigSchema", () => {
+    it("should accept a valid configuration", () => {
+      const issues = validateConfigSchema({
+        enable_ui: true,
+        services: [
+          {
+            name: "controller",
+            local_path: "data/schema.json",
+            timeout_seconds: 60,
+          },
+          { name: "eda", required: false },
+        ],
+        risk_levels: { "controller.jobs_relaunch_create": "destructive" },
+        logging: { level: "debug", format: "json" },
+        audit: {
+          backend: "jsonl",
+          path: "/var/log/aap-mcp",
+          retention: { max_age_days: 30, max_total_bytes: 1073741824 },
+          rotation: { max_segment_bytes: 10485760, gzip: true },
+          responses: { mode: "truncate", max_characters: 2000 },
+        },
+        redaction: {
+          fields: ["webhook_key"],
+          paths: ["$.results[*].extra_vars"],
+          mask_responses: true,
+        },
+        ui_auth: { session_ttl_minutes: 60, logs_role: "superuser" },
+        cors: { origins: ["https://aap.example.com"] },
+        sessions: {
+          idle_timeout_minutes: 30,
+          max_sessions_per_token: 0,
+          store: {
+            backend: "redis",
+            url: "redis://redis:6379/0",
+            key_prefix: "aap-mcp:",
+          },
+        },
+        rate_limits: {
+          write: { per_session: { per_minute: 10, burst: 2 } },
+          tools: {
+            "controller.job_templates_launch_create": { per_minute: 2 },
+          },
+          max_concurrent_calls: 2,
+        },
+        tool_cache: { enabled: true, path: "/var/cache/aap-mcp" },
+        upstream: {
+          timeout_seconds: 10,
+          retries: 3,
+          circuit_breaker: { failure_threshold: 3, reset_timeout_seconds: 15 },
+        },
+        tracing: {
+          enabled: true,
+          endpoint: "http://collector:4318/v1/traces",
+          headers: { "x-api-key": "secret" },
+        },
+        response_shaping: {
+          max_characters: 1000,
+          tools: { "controller.jobs_list": { max_characters: 2000 } },
+        },
+        categories: {
+          job_management: ["controller.jobs_list"],
+          user_management: {
+            required_role: "superuser",
+            tools: ["gateway.users_list"],
+          },
+          user_audit: { extends: ["user_management"] },
+        },
+      });
+
+      expect(issues).toEqual([]);
+    });
+
+    it("should report an empty configuration", () => {
+      expect(validateConfigSchema(undefined)).toEqual([
+        {
+          severity: "error",
+          path: "(root)",
+          message: "configuration is empty",
+        },
+      ]);
+    });
+
+    it("should report a missing categories section", () => {
+      const issues = validateConfigSchema({ enable_ui: true });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toContain("categories");
+    });
+
+    it("should report unknown keys", () => {
+      const issues = validateConfigSchema({
+        enable_uii: true,
+        services: [{ name: "eda", enable: false }],
+        categories: {},
+      });
+
+      expect(issues.map((issue) => issue.message)).toEqual([
+        "unknown key 'enable_uii'",
+        "unknown key 'enable'",
+      ]);
+      expect(issues[1].path).toBe("services[0]");
+    });
+
+    it("should report wrong types and values", () => {
+      const issues = validateConfigSchema({
+        enable_ui: "yes",
+        transport: "sse",
+        risk_levels: { "controller.jobs_list": "harmless" },
+        categories: { admin: { required_role: "root", tools: [] } },
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        "enable_ui",
+        "transport",
+        "risk_levels['controller.jobs_list']",
+        "categories['admin'].required_role",
+      ]);
+      expect(issues[1].message).toBe("should be one of: http, stdio");
+    });
+  });
+
+  describe("validateConfigSemantics", () => {
+    const tools = [
+      { name: "controller.jobs_list", method: "get", service: "controller" },
+      { name: "gateway.users_list", method: "get", service: "gateway" },
+    ];
+
+    it("should accept a consistent configuration", () => {
+      const issues = validateConfigSemantics(
+        {
+          services: [{ name: "controller" }, { name: "gateway" }],
+          categories: { admin: ["controller.jobs_list", "gateway.users_list"] },
+        },
+        tools,
+      );
+
+      expect(issues).toEqual([]);
+    });
+
+    it("should report unknown and duplicate services", () => {
+      const issues = validateConfigSemantics(
+        {
+          services: [
+            { name: "controler" },
+            { name: "gateway" },
+            { name: "gateway" },
+          ],
+          categories: {},
+        },
+        tools,
+      );
+
+      expect(issues).toEqual([
+        {
+          severity: "error",
+          path: "services[0]",
+          message:
+            "unknown service 'controler' (expected one of: eda, gateway, galaxy, controller)",
+        },
+        {
+          severity: "error",
+          path: "services[2]",
+          message: "service 'gateway' is configured more than once",
+        },
+      ]);
+    });
+
+    it("should report category tools that do not resolve", () => {
+      const issues = validateConfigSemantics(
+        {
+          services: [{ name: "controller" }, { name: "eda", enabled: false }],
+          categories: {
+            admin: [
+              "controller.jobs_list",
+              "controller.jobs_list",
+              "galaxy.api_galaxy__ui_v1_namespaces_list",
+              "eda.activations_list",
+              "controller.jobs_cancel_create",
+            ],
+            empty: [],
+            patterns: ["gateway.*", "eda.*", "!*_destroy"],
+          },
+        },
+        tools,
+        ["controller.jobs_cancel_create"],
+      );
+
+      expect(issues).toEqual([
+        {
+          severity: "warning",
+          path: "categories.admin[1]",
+          message: "duplicate entry 'controller.jobs_list'",
+        },
+        {
+          severity: "error",
+          path: "categories.admin[2]",
+          message:
+            "tool 'galaxy.api_galaxy__ui_v1_namespaces_list' does not exist",
+        },
+        {
+          severity: "warning",
+          path: "categories.admin[3]",
+          message:
+            "tool 'eda.activations_list' belongs to the disabled service 'eda'",
+        },
+        {
+          severity: "warning",
+          path: "categories.admin[4]",
+          message:
+            "tool 'controller.jobs_cancel_create' is disabled because write operations are not allowed",
+        },
+        {
+          severity: "warning",
+          path: "categories.empty",
+          message: "category is empty",
+        },
+        {
+          severity: "warning",
+          path: "categories.patterns[1]",
+          message: "pattern 'eda.*' does not match any tool",
+        },
+      ]);
+    });
+
+    it("should report risk levels set on unknown tools", () => {
+      const issues = validateConfigSemantics(
+        {
+          risk_levels: {
+            "controller.jobs_list": "destructive",
+            "controller.jobs_lst": "destructive",
+          },
+          categories: {},
+        },
+        tools,
+      );
+
+      expect(issues).toEqual([
+        {
+          severity: "warning",
+          path: "risk_levels.controller.jobs_lst",
+          message: "tool 'controller.jobs_lst' does not exist or is disabled",
+        },
+      ]);
+    });
+
+    it("should report rate limits set on unknown tools", () => {
+      const issues = validateConfigSemantics(
+        {
+          rate_limits: {
+            tools: {
+              "controller.jobs_list": { per_minute: 5 },
+              "controller.jobs_lst": { per_minute: 5 },
+            },
+          },
+          categories: {},
+        },
+        tools,
+      );
+
+      expect(issues).toEqual([
+        {
+          severity: "warning",
+          path: "rate_limits.tools.controller.jobs_lst",
+          message: "tool 'controller.jobs_lst' does not exist or is disabled",
+        },
+      ]);
+    });
+
+    it("should report a rotation set for the sqlite audit backend", () => {
+      const issues = validateConfigSemantics(
+        { audit: { rotation: { max_segment_bytes: 1000 } }, categories: {} },
+        tools,
+      );
+
+      expect(issues).toEqual([
+        {
+          severity: "warning",
+          path: "audit.rotation",
+          message: "rotation only applies to the jsonl audit backend",
+        },
+      ]);
+    });
+
+    it("should report invalid category entries", () => {
+      const issues = validateConfigSemantics(
+        { categories: { broken: ["/(/"] } },
+        tools,
+      );
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        severity: "error",
+        path: "categories",
+      });
+      expect(issues[0].message).toContain("invalid regular expression");
+    });
+  });
+
+  describe("formatConfigIssues", () => {
+    it("should format one issue per line", () => {
+      expect(
+        formatConfigIssues([
+          { severity: "error", path: "services[0]", message: "unknown" },
+          { severity: "warning", path: "categories.a", message: "empty" },
+        ]),
+      ).toBe("  ERROR services[0]: unknown\n  WARNING categories.a: empty");
+    });
+  });
+});
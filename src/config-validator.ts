@@ -0,0 +1,455 @@
+import Ajv from "ajv";
+import { getDefaultServiceConfigs } from "./openapi-loader.js";
+import {
+  normalizeCategories,
+  parseCategoryEntry,
+  type CategoryConfig,
+  type CategoryTool,
+} from "./categories.js";
+import { USER_ROLES } from "./permissions.js";
+import { TRANSPORT_MODES } from "./cli.js";
+import { RISK_LEVELS } from "./risk.js";
+import { LOG_FORMATS, LOG_LEVELS } from "./logging.js";
+import { AUDIT_BACKENDS, type AuditConfig } from "./audit-store.js";
+import { AUDIT_RESPONSE_MODES } from "./audit-retention.js";
+import { SESSION_STORE_BACKENDS } from "./session-store.js";
+import type { RateLimitsConfig } from "./rate-limits.js";
+
+export interface ConfigIssue {
+  severity: "error" | "warning";
+  path: string;
+  message: string;
+}
+
+/**
+ * JSON Schema of aap-mcp.yaml
+ */
+export const configSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  type: "object",
+  definitions: {
+    shapingRules: {
+      type: "object",
+      properties: {
+        max_characters: { type: "integer", minimum: 1 },
+        drop_fields: { type: "array", items: { type: "string" } },
+      },
+      additionalProperties: false,
+    },
+    rateLimitBudget: {
+      type: "object",
+      properties: {
+        per_minute: { type: "number", minimum: 0 },
+        burst: { type: "integer", minimum: 1 },
+      },
+      required: ["per_minute"],
+      additionalProperties: false,
+    },
+    rateLimitClass: {
+      type: "object",
+      properties: {
+        per_session: { $ref: "#/definitions/rateLimitBudget" },
+        per_token: { $ref: "#/definitions/rateLimitBudget" },
+        per_tool: { $ref: "#/definitions/rateLimitBudget" },
+      },
+      additionalProperties: false,
+    },
+  },
+  properties: {
+    record_api_queries: { type: "boolean" },
+    "ignore-certificate-errors": { type: "boolean" },
+    enable_ui: { type: "boolean" },
+    enable_metrics: { type: "boolean" },
+    allow_write_operations: { type: "boolean" },
+    base_url: { type: "string" },
+    transport: { enum: TRANSPORT_MODES },
+    watch_config: { type: "boolean" },
+    services: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          url: { type: "string" },
+          local_path: { type: "string" },
+          enabled: { type: "boolean" },
+          required: { type: "boolean" },
+          timeout_seconds: { type: "number", exclusiveMinimum: 0 },
+        },
+        required: ["name"],
+        additionalProperties: false,
+      },
+    },
+    response_shaping: {
+      type: "object",
+      properties: {
+        max_characters: { type: "integer", minimum: 1 },
+        drop_fields: { type: "array", items: { type: "string" } },
+        services: {
+          type: "object",
+          additionalProperties: { $ref: "#/definitions/shapingRules" },
+        },
+        tools: {
+          type: "object",
+          additionalProperties: { $ref: "#/definitions/shapingRules" },
+        },
+      },
+      additionalProperties: false,
+    },
+    risk_levels: {
+      type: "object",
+      additionalProperties: { enum: RISK_LEVELS },
+    },
+    audit: {
+      type: "object",
+      properties: {
+        backend: { enum: AUDIT_BACKENDS },
+        path: { type: "string" },
+        retention: {
+          type: "object",
+          properties: {
+            max_age_days: { type: "number", exclusiveMinimum: 0 },
+            max_bytes_per_tool: { type: "integer", minimum: 1 },
+            max_total_bytes: { type: "integer", minimum: 1 },
+            compact_interval_minutes: { type: "number", exclusiveMinimum: 0 },
+          },
+          additionalProperties: false,
+        },
+        rotation: {
+          type: "object",
+          properties: {
+            max_segment_bytes: { type: "integer", minimum: 1 },
+            gzip: { type: "boolean" },
+          },
+          additionalProperties: false,
+        },
+        responses: {
+          type: "object",
+          properties: {
+            mode: { enum: AUDIT_RESPONSE_MODES },
+            max_characters: { type: "integer", minimum: 1 },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    redaction: {
+      type: "object",
+      properties: {
+        fields: { type: "array", items: { type: "string", minLength: 1 } },
+        paths: { type: "array", items: { type: "string", pattern: "^\\$" } },
+        mask_responses: { type: "boolean" },
+      },
+      additionalProperties: false,
+    },
+    ui_auth: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        admin_token: { type: "string", minLength: 1 },
+        session_secret: { type: "string", minLength: 1 },
+        session_ttl_minutes: { type: "number", exclusiveMinimum: 0 },
+        logs_role: { enum: USER_ROLES },
+      },
+      additionalProperties: false,
+    },
+    sessions: {
+      type: "object",
+      properties: {
+        idle_timeout_minutes: { type: "number", minimum: 0 },
+        max_lifetime_minutes: { type: "number", minimum: 0 },
+        max_sessions: { type: "integer", minimum: 0 },
+        max_sessions_per_token: { type: "integer", minimum: 0 },
+        sweep_interval_seconds: { type: "number", exclusiveMinimum: 0 },
+        revalidate_interval_minutes: { type: "number", minimum: 0 },
+        store: {
+          type: "object",
+          properties: {
+            backend: { enum: SESSION_STORE_BACKENDS },
+            url: { type: "string", pattern: "^rediss?://" },
+            key_prefix: { type: "string" },
+            encryption_key: { type: "string", minLength: 1 },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    rate_limits: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        read: { $ref: "#/definitions/rateLimitClass" },
+        write: { $ref: "#/definitions/rateLimitClass" },
+        tools: {
+          type: "object",
+          additionalProperties: { $ref: "#/definitions/rateLimitBudget" },
+        },
+        max_concurrent_calls: { type: "integer", minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    tool_cache: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        path: { type: "string", minLength: 1 },
+      },
+      additionalProperties: false,
+    },
+    upstream: {
+      type: "object",
+      properties: {
+        timeout_seconds: { type: "number", exclusiveMinimum: 0 },
+        retries: { type: "integer", minimum: 0 },
+        retry_base_delay_ms: { type: "integer", minimum: 0 },
+        retry_max_delay_ms: { type: "integer", minimum: 0 },
+        circuit_breaker: {
+          type: "object",
+          properties: {
+            failure_threshold: { type: "integer", minimum: 0 },
+            reset_timeout_seconds: { type: "number", minimum: 0 },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    cors: {
+      type: "object",
+      properties: {
+        origins: { type: "array", items: { type: "string", minLength: 1 } },
+      },
+      additionalProperties: false,
+    },
+    logging: {
+      type: "object",
+      properties: {
+        level: { enum: LOG_LEVELS },
+        format: { enum: LOG_FORMATS },
+      },
+      additionalProperties: false,
+    },
+    tracing: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        endpoint: { type: "string" },
+        headers: {
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+        service_name: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    categories: {
+      type: "object",
+      // A category is either a list of tools or an object with a 'tools'
+      // list and/or the categories it extends
+      additionalProperties: {
+        type: ["array", "object"],
+        items: { type: "string" },
+        properties: {
+          required_role: { enum: USER_ROLES },
+          extends: {
+            type: ["string", "array"],
+            items: { type: "string" },
+          },
+          tools: { type: "array", items: { type: "string" } },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["categories"],
+  additionalProperties: false,
+};
+
+const validateSchema = new Ajv({ allErrors: true }).compile(configSchema);
+
+/**
+ * Checks the structure of the configuration against configSchema
+ */
+export const validateConfigSchema = (config: unknown): ConfigIssue[] => {
+  if (config === null || config === undefined) {
+    return [
+      { severity: "error", path: "(root)", message: "configuration is empty" },
+    ];
+  }
+
+  if (validateSchema(config)) {
+    return [];
+  }
+
+  return (validateSchema.errors || []).map((error) => {
+    const path = error.dataPath.replace(/^\./, "") || "(root)";
+    const params = error.params as {
+      additionalProperty?: string;
+      allowedValues?: unknown[];
+    };
+    let message = error.message || "is invalid";
+    if (params.additionalProperty !== undefined) {
+      message = `unknown key '${params.additionalProperty}'`;
+    } else if (params.allowedValues !== undefined) {
+      message = `should be one of: ${params.allowedValues.join(", ")}`;
+    }
+    return { severity: "error", path, message };
+  });
+};
+
+/**
+ * Checks the configuration against the generated tools: service names,
+ * category entries that do not resolve to a tool, patterns that match
+ * nothing, duplicates and risk levels set on unknown tools.
+ * disabledToolNames lists the tools removed because write operations are
+ * not allowed, they are reported as warnings only.
+ */
+export const validateConfigSemantics = (
+  config: {
+    services?: { name: string; enabled?: boolean }[];
+    risk_levels?: Record<string, string>;
+    rate_limits?: RateLimitsConfig;
+    audit?: AuditConfig;
+    categories: Record<string, CategoryConfig>;
+  },
+  tools: CategoryTool[],
+  disabledToolNames: string[] = [],
+): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const knownServices = Object.keys(getDefaultServiceConfigs(""));
+  const services = config.services || [];
+
+  const seenServices = new Set<string>();
+  services.forEach((service, index) => {
+    const path = `services[${index}]`;
+    if (!knownServices.includes(service.name)) {
+      issues.push({
+        severity: "error",
+        path,
+        message: `unknown service '${service.name}' (expected one of: ${knownServices.join(", ")})`,
+      });
+    }
+    if (seenServices.has(service.name)) {
+      issues.push({
+        severity: "error",
+        path,
+        message: `service '${service.name}' is configured more than once`,
+      });
+    }
+    seenServices.add(service.name);
+  });
+
+  const disabledServices = services
+    .filter((service) => service.enabled === false)
+    .map((service) => service.name);
+  const existingTools = new Set(tools.map((tool) => tool.name));
+
+  const toolSettings = [
+    ["risk_levels", config.risk_levels],
+    ["rate_limits.tools", config.rate_limits?.tools],
+  ] as const;
+  for (const [section, settings] of toolSettings) {
+    for (const toolName of Object.keys(settings || {})) {
+      if (!existingTools.has(toolName)) {
+        issues.push({
+          severity: "warning",
+          path: `${section}.${toolName}`,
+          message: `tool '${toolName}' does not exist or is disabled`,
+        });
+      }
+    }
+  }
+  if (config.audit?.rotation && config.audit.backend !== "jsonl") {
+    issues.push({
+      severity: "warning",
+      path: "audit.rotation",
+      message: "rotation only applies to the jsonl audit backend",
+    });
+  }
+
+  let categories: Record<string, string[]>;
+  let parents: Record<string, string[]>;
+
+  try {
+    ({ tools: categories, parents } = normalizeCategories(config.categories));
+  } catch (error) {
+    issues.push({
+      severity: "error",
+      path: "categories",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return issues;
+  }
+
+  for (const [categoryName, entries] of Object.entries(categories)) {
+    const path = `categories.${categoryName}`;
+    if (entries.length === 0 && parents[categoryName].length === 0) {
+      issues.push({ severity: "warning", path, message: "category is empty" });
+    }
+
+    const seenTools = new Set<string>();
+    entries.forEach((toolName, index) => {
+      const toolPath = `${path}[${index}]`;
+      if (seenTools.has(toolName)) {
+        issues.push({
+          severity: "warning",
+          path: toolPath,
+          message: `duplicate entry '${toolName}'`,
+        });
+      }
+      seenTools.add(toolName);
+
+      const rule = parseCategoryEntry(toolName);
+      if (rule.kind !== "name") {
+        // Exclusions matching nothing are harmless
+        if (!rule.exclude && !tools.some((tool) => rule.matches(tool))) {
+          issues.push({
+            severity: "warning",
+            path: toolPath,
+            message: `pattern '${toolName}' does not match any tool`,
+          });
+        }
+        return;
+      }
+      if (rule.exclude || existingTools.has(toolName)) {
+        return;
+      }
+      const serviceName = toolName.split(".")[0];
+      if (disabledServices.includes(serviceName)) {
+        issues.push({
+          severity: "warning",
+          path: toolPath,
+          message: `tool '${toolName}' belongs to the disabled service '${serviceName}'`,
+        });
+      } else if (disabledToolNames.includes(toolName)) {
+        issues.push({
+          severity: "warning",
+          path: toolPath,
+          message: `tool '${toolName}' is disabled because write operations are not allowed`,
+        });
+      } else {
+        issues.push({
+          severity: "error",
+          path: toolPath,
+          message: `tool '${toolName}' does not exist`,
+        });
+      }
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Formats configuration issues, one per line
+ */
+export const formatConfigIssues = (issues: ConfigIssue[]): string => {
+  return issues
+    .map(
+      (issue) =>
+        `  ${issue.severity.toUpperCase()} ${issue.path}: ${issue.message}`,
+    )
+    .join("\n");
+};
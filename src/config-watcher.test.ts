@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, type FSWatcher } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { watchConfigFile } from "./config-watcher";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("watchConfigFile", () => {
+  let configDir: string;
+  let configPath: string;
+  let watcher: FSWatcher | undefined;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "aap-mcp-config-"));
+    configPath = join(configDir, "aap-mcp.yaml");
+    writeFileSync(configPath, "categories: {}\n");
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("should call onChange once the burst of writes is over", async () => {
+    const onChange = vi.fn();
+    watcher = watchConfigFile(configPath, onChange, 100);
+
+    for (let i = 0; i < 5; i++) {
+      writeFileSync(configPath, `categories: {}\n# edit ${i}\n`);
+      await wait(20);
+    }
+    expect(onChange).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), {
+      timeout: 2000,
+    });
+    await wait(200);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should handle a file replaced on save", async () => {
+    const onChange = vi.fn();
+    watcher = watchConfigFile(configPath, onChange, 50);
+
+    writeFileSync(join(configDir, "aap-mcp.yaml.swp"), "categories: {}\n");
+    rmSync(configPath);
+    writeFileSync(configPath, "categories: {}\n");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), {
+      timeout: 2000,
+    });
+  });
+
+  it("should ignore the other files of the directory", async () => {
+    const onChange = vi.fn();
+    watcher = watchConfigFile(configPath, onChange, 50);
+
+    writeFileSync(join(configDir, "other.yaml"), "a: 1\n");
+    await wait(200);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should not call onChange once closed", async () => {
+    const onChange = vi.fn();
+    watcher = watchConfigFile(configPath, onChange, 50);
+
+    writeFileSync(configPath, "categories: {}\n# edit\n");
+    watcher.close();
+    await wait(200);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
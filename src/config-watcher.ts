@@ -0,0 +1,37 @@
+import { watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+
+/**
+ * Watches a configuration file and calls onChange once the file has been
+ * quiet for debounceMs. The parent directory is watched rather than the
+ * file itself, so that editors replacing the file on save are handled.
+ */
+export const watchConfigFile = (
+  configPath: string,
+  onChange: () => void,
+  debounceMs: number = 500,
+): FSWatcher => {
+  const fileName = basename(configPath);
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = watch(dirname(configPath), (_event, changedFile) => {
+    if (changedFile !== fileName) {
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      onChange();
+    }, debounceMs);
+  });
+
+  watcher.on("close", () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  });
+
+  return watcher;
+};
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDryRunParameter,
+  buildDryRunPreview,
+  isDryRunRequested,
+  redactHeaders,
+} from "./dry-run";
+import { buildToolRequest } from "./tool-request";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const createMockTool = (
+  overrides: Partial<AAPMcpToolDefinition> = {},
+): AAPMcpToolDefinition => ({
+  name: "gateway.users_destroy",
+  description: "Delete a user",
+  inputSchema: {
+    type: "object",
+    properties: { id: { type: "integer" } },
+    required: ["id"],
+  },
+  pathTemplate: "/api/gateway/v1/users/{id}/",
+  method: "delete",
+  parameters: [{ name: "id", in: "path", required: true }] as any,
+  executionParameters: {} as any,
+  securityRequirements: [] as any,
+  operationId: "users_destroy",
+  deprecated: false,
+  service: "gateway",
+  logs: [],
+  size: 100,
+  ...overrides,
+});
+
+describe("Dry run", () => {
+  describe("addDryRunParameter", () => {
+    it("should add the dry_run argument to write tools only", () => {
+      const writeTool = addDryRunParameter(createMockTool());
+      const readTool = addDryRunParameter(
+        createMockTool({
+          method: "get",
+          inputSchema: { type: "object", properties: {} },
+        }),
+      );
+
+      expect((writeTool.inputSchema as any).properties.dry_run).toMatchObject({
+        type: "boolean",
+      });
+      expect((readTool.inputSchema as any).properties.dry_run).toBeUndefined();
+    });
+  });
+
+  describe("isDryRunRequested", () => {
+    it("should accept booleans and strings", () => {
+      expect(isDryRunRequested({ dry_run: true })).toBe(true);
+      expect(isDryRunRequested({ dry_run: "true" })).toBe(true);
+      expect(isDryRunRequested({ dry_run: false })).toBe(false);
+      expect(isDryRunRequested({})).toBe(false);
+    });
+  });
+
+  describe("redactHeaders", () => {
+    it("should hide the credentials", () => {
+      expect(
+        redactHeaders({
+          Authorization: "Bearer secret",
+          Cookie: "sessionid=secret",
+          Accept: "application/json",
+        }),
+      ).toEqual({
+        Authorization: "Bearer [REDACTED]",
+        Cookie: "[REDACTED]",
+        Accept: "application/json",
+      });
+    });
+  });
+
+  describe("buildDryRunPreview", () => {
+    it("should describe the request without the token", () => {
+      const tool = createMockTool({
+        name: "gateway.users_partial_update",
+        method: "patch",
+        inputSchema: {
+          type: "object",
+          properties: {
+            id: { type: "integer" },
+            requestBody: {
+              type: "object",
+              properties: { first_name: { type: "string" } },
+            },
+          },
+          required: ["id"],
+        },
+      });
+      const args = { id: 42, requestBody: { first_name: "Ada" } };
+      const request = buildToolRequest(
+        tool,
+        args,
+        "https://aap.example.com",
+        "secret",
+      );
+
+      expect(buildDryRunPreview(tool, args, request)).toEqual({
+        dry_run: true,
+        tool: "gateway.users_partial_update",
+        request: {
+          method: "PATCH",
+          url: "https://aap.example.com/api/gateway/v1/users/42/",
+          headers: {
+            Authorization: "Bearer [REDACTED]",
+            Accept: "application/json",
+            "Content-Type": "application/json",
+          },
+          body: { first_name: "Ada" },
+        },
+        valid: true,
+        errors: [],
+      });
+    });
+
+    it("should report arguments that do not match the operation", () => {
+      const tool = createMockTool();
+      const args = { dry_run: true };
+      const request = buildToolRequest(
+        tool,
+        args,
+        "https://aap.example.com",
+        "secret",
+      );
+
+      const preview = buildDryRunPreview(tool, args, request);
+      expect(preview.valid).toBe(false);
+      expect(preview.errors).toEqual([
+        "arguments should have required property 'id'",
+        "path parameter 'id' is missing",
+      ]);
+    });
+
+    it("should ignore path parameters missing from the path", () => {
+      const tool = createMockTool({
+        inputSchema: {
+          type: "object",
+          properties: { version: { type: "string" }, id: { type: "integer" } },
+          required: ["version", "id"],
+        },
+        parameters: [
+          { name: "version", in: "path", required: true },
+          { name: "id", in: "path", required: true },
+        ] as any,
+      });
+      const args = { id: 1 };
+      const request = buildToolRequest(
+        tool,
+        args,
+        "https://aap.example.com",
+        "secret",
+      );
+
+      expect(buildDryRunPreview(tool, args, request).valid).toBe(true);
+    });
+
+    it("should report wrong types", () => {
+      const tool = createMockTool();
+      const args = { id: "abc" };
+      const request = buildToolRequest(
+        tool,
+        args,
+        "https://aap.example.com",
+        "secret",
+      );
+
+      expect(buildDryRunPreview(tool, args, request).errors).toEqual([
+        "id should be integer",
+      ]);
+    });
+  });
+});
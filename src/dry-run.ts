@@ -0,0 +1,158 @@
+import Ajv from "ajv";
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+import { isReadOnlyTool } from "./permissions.js";
+import type { ToolRequest } from "./tool-request.js";
+
+/**
+ * Preview of a tool call returned instead of sending the request
+ */
+export interface DryRunPreview {
+  dry_run: true;
+  tool: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  valid: boolean;
+  errors: string[];
+}
+
+// Headers never shown in a preview
+const REDACTED_HEADERS = ["authorization", "cookie"];
+
+const ajv = new Ajv({ allErrors: true, unknownFormats: "ignore" });
+const validators = new WeakMap<object, Ajv.ValidateFunction>();
+
+/**
+ * Adds the dry_run argument to the input schema of write tools
+ */
+export const addDryRunParameter = (
+  tool: AAPMcpToolDefinition,
+): AAPMcpToolDefinition => {
+  const schema = tool.inputSchema;
+  if (isReadOnlyTool(tool) || typeof schema !== "object") {
+    return tool;
+  }
+  schema.properties = {
+    ...schema.properties,
+    dry_run: {
+      type: "boolean",
+      description:
+        "Return the HTTP request that would be sent to AAP, without sending it.",
+    },
+  };
+  return tool;
+};
+
+/**
+ * Checks whether the caller asked for a dry run
+ */
+export const isDryRunRequested = (args: Record<string, unknown>): boolean => {
+  return args.dry_run === true || args.dry_run === "true";
+};
+
+/**
+ * Replaces the value of the credential headers
+ */
+export const redactHeaders = (
+  headers: Record<string, string>,
+): Record<string, string> => {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!REDACTED_HEADERS.includes(name.toLowerCase())) {
+      redacted[name] = value;
+    } else if (value.startsWith("Bearer ")) {
+      redacted[name] = "Bearer [REDACTED]";
+    } else {
+      redacted[name] = "[REDACTED]";
+    }
+  }
+  return redacted;
+};
+
+// Whether a path parameter is declared but missing from the path template
+const isUnusedPathParameter = (
+  tool: AAPMcpToolDefinition,
+  name: string,
+): boolean => {
+  return (
+    (tool.parameters || []).some(
+      (param) => param.in === "path" && param.name === name,
+    ) && !tool.pathTemplate.includes(`{${name}}`)
+  );
+};
+
+/**
+ * Validates the arguments of a tool call against the input schema derived
+ * from the OpenAPI operation, and checks that every path parameter was
+ * filled in. Returns the list of problems.
+ */
+export const validateToolCall = (
+  tool: AAPMcpToolDefinition,
+  args: Record<string, unknown>,
+  request: ToolRequest,
+): string[] => {
+  const errors: string[] = [];
+
+  if (typeof tool.inputSchema === "object") {
+    let validate = validators.get(tool.inputSchema);
+    if (!validate) {
+      try {
+        validate = ajv.compile(tool.inputSchema);
+      } catch (error) {
+        return [
+          `input schema cannot be compiled: ${error instanceof Error ? error.message : String(error)}`,
+        ];
+      }
+      validators.set(tool.inputSchema, validate);
+    }
+    if (!validate(args)) {
+      for (const error of validate.errors || []) {
+        // Some specs declare path parameters that are not in the path
+        // (e.g. 'version' in the controller schema), they are never sent
+        const missing = (error.params as { missingProperty?: string })
+          .missingProperty;
+        if (
+          missing !== undefined &&
+          !error.dataPath &&
+          isUnusedPathParameter(tool, missing)
+        ) {
+          continue;
+        }
+        const path = error.dataPath.replace(/^\./, "") || "arguments";
+        errors.push(`${path} ${error.message || "is invalid"}`);
+      }
+    }
+  }
+
+  for (const [, name] of request.url.matchAll(/\{([^}]+)\}/g)) {
+    errors.push(`path parameter '${name}' is missing`);
+  }
+
+  return errors;
+};
+
+/**
+ * Builds the preview of a tool call, credentials are redacted
+ */
+export const buildDryRunPreview = (
+  tool: AAPMcpToolDefinition,
+  args: Record<string, unknown>,
+  request: ToolRequest,
+): DryRunPreview => {
+  const errors = validateToolCall(tool, args, request);
+  return {
+    dry_run: true,
+    tool: tool.name,
+    request: {
+      method: request.method,
+      url: request.url,
+      headers: redactHeaders(request.headers),
+      ...(request.body !== undefined ? { body: JSON.parse(request.body) } : {}),
+    },
+    valid: errors.length === 0,
+    errors,
+  };
+};
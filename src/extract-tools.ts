@@ -7,6 +7,7 @@
 import { OpenAPIV3 } from "openapi-types";
 import type { JSONSchema7 } from "json-schema";
 import type { McpToolDefinition } from "openapi-mcp-generator";
+import { findSecretFields } from "./redaction.js";
 
 export interface McpToolLogEntry {
   severity: "INFO" | "WARN" | "ERR";
@@ -15,8 +16,11 @@ export interface McpToolLogEntry {
 
 export interface AAPMcpToolDefinition extends McpToolDefinition {
   deprecated: boolean;
+  tags?: string[];
   logs: McpToolLogEntry[];
   size?: number;
+  // Fields holding secrets in the arguments or the responses
+  secretFields?: string[];
 }
 
 /**
@@ -298,6 +302,22 @@ export function generateInputSchemaAndDetails(
   return { inputSchema, parameters: allParameters, requestBodyContentType };
 }
 
+/**
+ * Fields of the request body and of the successful responses that the
+ * schemas mark as secrets
+ */
+function getSecretFields(operation: OpenAPIV3.OperationObject): string[] {
+  const requestBody = operation.requestBody as
+    OpenAPIV3.RequestBodyObject | undefined;
+  const responses = Object.entries(operation.responses || {})
+    .filter(([status]) => status.startsWith("2"))
+    .map(([, response]) => response as OpenAPIV3.ResponseObject);
+  const schemas = [requestBody, ...responses].flatMap((body) =>
+    Object.values(body?.content || {}).map((content) => content.schema),
+  );
+  return findSecretFields(schemas);
+}
+
 /**
  * Extracts tool definitions from an OpenAPI document
  * This is a local fork of the extractToolsFromApi function from openapi-mcp-generator
@@ -444,7 +464,9 @@ export function extractToolsFromApi(
         securityRequirements,
         operationId: originalBaseName,
         deprecated,
+        tags: operation.tags,
         logs: logs,
+        secretFields: getSecretFields(operation),
       } as AAPMcpToolDefinition);
     }
   }
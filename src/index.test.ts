@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { spawn, type ChildProcess } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+const repoPath = (path: string) =>
+  fileURLToPath(new URL(`../${path}`, import.meta.url));
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+describe("stdio transport", () => {
+  let workDir: string;
+  let child: ChildProcess | undefined;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), "aap-mcp-stdio-"));
+    // dotenv logs the variables it loads unless told to be quiet
+    writeFileSync(join(workDir, ".env"), "LOG_LEVEL=debug\n");
+    writeFileSync(
+      join(workDir, "aap-mcp.yaml"),
+      [
+        "base_url: https://127.0.0.1:1",
+        "tool_cache:",
+        "  enabled: false",
+        "services:",
+        "  - name: gateway",
+        `    local_path: ${repoPath("data/gateway-schema.json")}`,
+        "categories:",
+        "  anonymous:",
+        "    - gateway.*",
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    child?.kill();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("should only write protocol frames to stdout", async () => {
+    child = spawn(
+      repoPath("node_modules/.bin/tsx"),
+      [repoPath("src/index.ts"), "--stdio", "--category", "anonymous"],
+      {
+        cwd: workDir,
+        env: { PATH: process.env.PATH, HOME: process.env.HOME },
+        stdio: ["pipe", "pipe", "ignore"],
+      },
+    );
+
+    let stdout = "";
+    const lines = await new Promise<string[]>((resolve, reject) => {
+      child!.on("error", reject);
+      child!.on("exit", (code) =>
+        reject(new Error(`Server exited with ${code}: ${stdout}`)),
+      );
+      child!.stdout!.on("data", (chunk: Buffer) => {
+        stdout += chunk.toString();
+        const complete = stdout.split("\n").slice(0, -1);
+        if (complete.some((line) => line.includes('"id":2'))) {
+          resolve(complete);
+        }
+      });
+      child!.stdin!.write(
+        [
+          initialize,
+          { jsonrpc: "2.0", method: "notifications/initialized" },
+          { jsonrpc: "2.0", id: 2, method: "tools/list" },
+        ]
+          .map((message) => `${JSON.stringify(message)}\n`)
+          .join(""),
+      );
+    });
+
+    const messages = lines.map((line) => JSON.parse(line));
+    expect(messages.every((message) => message.jsonrpc === "2.0")).toBe(true);
+    expect(messages.map((message) => message.id)).toEqual([1, 2]);
+    expect(messages[1].result.tools.length).toBeGreaterThan(0);
+  }, 60000);
+});
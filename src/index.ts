@@ -7,16 +7,34 @@ import cors from "cors";
 import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { extractToolsFromApi } from "./extract-tools.js";
-import { readFileSync, writeFileSync, promises as fs } from "fs";
+import { readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 import * as yaml from "js-yaml";
-import { ToolLogger, type LogEntry } from "./logger.js";
+import {
+  ToolLogger,
+  getLogEntryUserAgent,
+  type AuditContext,
+} from "./logger.js";
+
+import {
+  createAuditStore,
+  migrateJsonlLogs,
+  type AuditConfig,
+  type AuditQuery,
+} from "./audit-store.js";
+import { SqliteAuditStore } from "./audit-store-sqlite.js";
+import {
+  AuditCompactor,
+  hasRetentionLimits,
+  resolveRetentionPolicy,
+} from "./audit-retention.js";
 import { metricsService } from "./metrics.js";
 import {
   renderDashboard,
@@ -43,11 +61,117 @@ import {
 import {
   loadOpenApiSpecs,
   type AAPMcpToolDefinition,
+  type OpenApiSpecEntry,
   type ServiceConfig,
 } from "./openapi-loader.js";
+import {
+  filterToolsByRole,
+  getUserRole,
+  hasRequiredRole,
+  isReadOnlyTool,
+  type UserRole,
+} from "./permissions.js";
+import {
+  expandCategories,
+  normalizeCategories,
+  type CategoryConfig,
+  type CategoryExpansion,
+  type ResolvedCategories,
+} from "./categories.js";
+import {
+  addPaginationParameters,
+  fetchAllPages,
+  getPaginationOptions,
+  isPaginatedListTool,
+  isPaginatedResponse,
+} from "./pagination.js";
+import {
+  addFieldsParameter,
+  getFieldsArgument,
+  hasUpstreamFieldsParameter,
+  resolveShapingRules,
+  shapeResponse,
+  type ResponseShapingConfig,
+} from "./response-shaping.js";
+import {
+  parseCliArgs,
+  redirectConsoleToStderr,
+  type TransportMode,
+} from "./cli.js";
+import { watchConfigFile } from "./config-watcher.js";
+import {
+  configureLogging,
+  createLogger,
+  requestContextMiddleware,
+  type LoggingConfig,
+} from "./logging.js";
+import {
+  compileRedactionRules,
+  redactSecrets,
+  type RedactionConfig,
+  type RedactionRules,
+} from "./redaction.js";
+import {
+  UiAuthenticator,
+  type CorsConfig,
+  type UiAuthConfig,
+} from "./ui-auth.js";
+import {
+  SessionManager,
+  TokenRejectedError,
+  describeSessionEnd,
+  type SessionRecord,
+  type SessionUser,
+  type SessionsConfig,
+} from "./sessions.js";
+import { createSessionStore } from "./session-store.js";
+import { ConfigReloader, type ReloadedState } from "./config-reload.js";
+import { markSessionInitialized } from "./session-restore.js";
+import {
+  RateLimiter,
+  createRateLimitResult,
+  type RateLimitedCall,
+  type RateLimitsConfig,
+} from "./rate-limits.js";
+import {
+  initTracing,
+  shutdownTracing,
+  traceTransport,
+  tracedFetch,
+  type TracingConfig,
+} from "./tracing.js";
+import { UpstreamClient, type UpstreamConfig } from "./upstream.js";
+import { checkReadiness, probeService, type SpecStatus } from "./readiness.js";
+import { SpecRetryScheduler } from "./spec-retry.js";
+import {
+  ToolCache,
+  computeToolCacheKey,
+  getDefaultToolCachePath,
+  type CachedServiceTools,
+  type ToolCacheConfig,
+} from "./tool-cache.js";
+import { buildToolRequest } from "./tool-request.js";
+import {
+  addDryRunParameter,
+  buildDryRunPreview,
+  isDryRunRequested,
+} from "./dry-run.js";
+import {
+  confirmDestructiveCall,
+  describeTarget,
+  getTargetPath,
+  resolveRiskLevel,
+  type RiskLevel,
+} from "./risk.js";
+import {
+  formatConfigIssues,
+  validateConfigSchema,
+  validateConfigSemantics,
+  type ConfigIssue,
+} from "./config-validator.js";
 
-// Load environment variables
-config();
+// Parse command line arguments
+const cliOptions = parseCliArgs(process.argv.slice(2));
 
 type Category = string[];
 
@@ -58,26 +182,87 @@ interface AapMcpConfig {
   enable_metrics?: boolean;
   allow_write_operations?: boolean;
   base_url?: string;
+  transport?: TransportMode;
+  watch_config?: boolean;
   services?: ServiceConfig[];
-  categories: Record<string, string[]>;
+  response_shaping?: ResponseShapingConfig;
+  risk_levels?: Record<string, RiskLevel>;
+  tracing?: TracingConfig;
+  logging?: LoggingConfig;
+  audit?: AuditConfig;
+  redaction?: RedactionConfig;
+  ui_auth?: UiAuthConfig;
+  cors?: CorsConfig;
+  sessions?: SessionsConfig;
+  rate_limits?: RateLimitsConfig;
+  upstream?: UpstreamConfig;
+  tool_cache?: ToolCacheConfig;
+  categories: Record<string, CategoryConfig>;
 }
 
+const configPath = join(process.cwd(), "aap-mcp.yaml");
+
 // Load configuration from file
 const loadConfig = (): AapMcpConfig => {
-  const configPath = join(process.cwd(), "aap-mcp.yaml");
   const configFile = readFileSync(configPath, "utf8");
-  const config = yaml.load(configFile) as AapMcpConfig;
+  const config = yaml.load(configFile);
 
-  if (!config.categories) {
-    throw new Error("Invalid configuration: missing categories section");
+  const issues = validateConfigSchema(config);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid configuration in ${configPath}:\n${formatConfigIssues(issues)}`,
+    );
   }
 
-  return config;
+  return config as AapMcpConfig;
 };
 
-// Load configuration
-const localConfig = loadConfig();
-const allCategories: Record<string, Category> = localConfig.categories;
+// Module loggers
+const serverLog = createLogger("server");
+const loaderLog = createLogger("loader");
+const sessionsLog = createLogger("sessions");
+const executorLog = createLogger("executor");
+const uiLog = createLogger("ui");
+
+// Load environment variables, quietly as stdout carries the MCP protocol
+// stream with the stdio transport
+config({ quiet: true });
+
+// Load configuration, a broken file stops the server with the list of issues
+let localConfig: AapMcpConfig;
+let resolvedCategories: ResolvedCategories;
+let redactionRules: RedactionRules;
+try {
+  localConfig = loadConfig();
+  resolvedCategories = normalizeCategories(localConfig.categories);
+  redactionRules = compileRedactionRules(localConfig.redaction);
+  // Log level and format (priority: env var > config file > default)
+  configureLogging({
+    level: process.env.LOG_LEVEL || localConfig.logging?.level,
+    format: process.env.LOG_FORMAT || localConfig.logging?.format,
+  });
+} catch (error) {
+  serverLog.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+// MCP transport (priority: command line > config file > default)
+const transportMode: TransportMode =
+  cliOptions.transport || localConfig.transport || "http";
+
+// With the stdio transport, stdout carries the MCP protocol stream
+if (transportMode === "stdio") {
+  redirectConsoleToStderr();
+}
+
+// Category entries as configured, the tool names of each category are only
+// known once the tools are generated (see expandCategoryEntries)
+let categoryEntries: Record<string, string[]> = resolvedCategories.tools;
+let categoryExpansions: Record<string, CategoryExpansion> = {};
+let allCategories: Record<string, Category> = {};
+let categoryRequiredRoles: Record<string, UserRole> =
+  resolvedCategories.requiredRoles;
+let categoryParents: Record<string, string[]> = resolvedCategories.parents;
 
 // Configuration constants (with priority: env var > config file > default)
 const CONFIG = {
@@ -89,8 +274,18 @@ const CONFIG = {
 // Log entries size limit for /logs endpoint
 const logEntriesSizeLimit = 10000;
 
+// Time the readiness endpoint waits for the ping endpoint of a service
+const READINESS_PROBE_TIMEOUT_MS = 3000;
+
+// Version of the server, part of the tool cache key
+const SERVER_VERSION = (
+  JSON.parse(
+    readFileSync(new URL("../package.json", import.meta.url), "utf8"),
+  ) as { version: string }
+).version;
+
 // Log configuration settings
-console.log(`BASE_URL: ${CONFIG.BASE_URL}`);
+serverLog.info(`BASE_URL: ${CONFIG.BASE_URL}`);
 
 // Helper function to get boolean configuration with environment variable override
 const getBooleanConfig = (
@@ -107,7 +302,7 @@ const recordApiQueries = getBooleanConfig(
   "RECORD_API_QUERIES",
   localConfig.record_api_queries,
 );
-console.log(
+serverLog.info(
   `API query recording: ${recordApiQueries ? "ENABLED" : "DISABLED"}`,
 );
 
@@ -115,50 +310,74 @@ const ignoreCertificateErrors = getBooleanConfig(
   "IGNORE_CERTIFICATE_ERRORS",
   localConfig["ignore-certificate-errors"],
 );
-console.log(
+serverLog.info(
   `Certificate validation: ${ignoreCertificateErrors ? "DISABLED" : "ENABLED"}`,
 );
 
 const enableUI = getBooleanConfig("ENABLE_UI", localConfig.enable_ui);
-console.log(`Web UI: ${enableUI ? "ENABLED" : "DISABLED"}`);
+serverLog.info(`Web UI: ${enableUI ? "ENABLED" : "DISABLED"}`);
 
 const allowWriteOperations = getBooleanConfig(
   "ALLOW_WRITE_OPERATIONS",
   localConfig.allow_write_operations,
 );
-console.log(
+serverLog.info(
   `Write operations (POST/DELETE/PATCH): ${allowWriteOperations ? "ENABLED" : "DISABLED"}`,
 );
 
+const enableTracing = getBooleanConfig(
+  "ENABLE_TRACING",
+  localConfig.tracing?.enabled,
+);
+if (enableTracing) {
+  initTracing(localConfig.tracing);
+}
+serverLog.info(
+  `OpenTelemetry tracing: ${enableTracing ? "ENABLED" : "DISABLED"}`,
+);
+
 // Initialize allowed operations list based on configuration
 const allowedOperations = allowWriteOperations
   ? ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"]
   : ["GET", "HEAD", "OPTIONS"];
 
+// Generated tools kept on disk between starts (disabled by default)
+const toolCachePath = localConfig.tool_cache?.path || getDefaultToolCachePath();
+const toolCache =
+  localConfig.tool_cache?.enabled === true
+    ? new ToolCache(toolCachePath)
+    : undefined;
+serverLog.info(`Tool cache: ${toolCache ? toolCachePath : "DISABLED"}`);
+
 // Get services configuration
-const servicesConfig = localConfig.services || [];
-console.log(
+let servicesConfig = localConfig.services || [];
+serverLog.info(
   `Services configured: ${servicesConfig.length > 0 ? servicesConfig.map((s) => s.name).join(", ") : "none"}`,
 );
 
+// Timeouts of the services
+const getServiceTimeouts = (
+  services: ServiceConfig[],
+): Record<string, number | undefined> => {
+  return Object.fromEntries(
+    services.map((service) => [service.name, service.timeout_seconds]),
+  );
+};
+
+// Timeouts, retries and circuit breakers of the requests sent to AAP
+const upstreamClient = new UpstreamClient({
+  config: localConfig.upstream,
+  serviceTimeouts: getServiceTimeouts(servicesConfig),
+});
+
 // Configure HTTPS certificate validation globally
 if (ignoreCertificateErrors) {
   process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-  console.warn(
-    "WARNING: HTTPS certificate validation is disabled. This should only be used in development/testing environments.",
+  serverLog.warn(
+    "HTTPS certificate validation is disabled. This should only be used in development/testing environments.",
   );
 }
 
-// TypeScript interfaces
-
-interface SessionData {
-  [sessionId: string]: {
-    token: string;
-    is_superuser: boolean;
-    is_platform_auditor: boolean;
-  };
-}
-
 // Helper functions
 const extractBearerToken = (
   authHeader: string | undefined,
@@ -170,13 +389,12 @@ const extractBearerToken = (
 
 const getBearerTokenForSession = (sessionId: string | undefined): string => {
   let bearerToken = CONFIG.FALLBACK_BEARER_TOKEN;
-  if (sessionId && sessionData[sessionId]) {
-    bearerToken = sessionData[sessionId].token;
-    console.log(
-      `Using session-specific Bearer token for session: ${sessionId}`,
-    );
+  const sessionToken = sessionManager.get(sessionId)?.token;
+  if (sessionToken) {
+    bearerToken = sessionToken;
+    sessionsLog.debug("Using the Bearer token of the session", { sessionId });
   } else {
-    console.log("Using fallback Bearer token from environment variable");
+    sessionsLog.debug("Using fallback Bearer token from environment variable");
   }
 
   if (!bearerToken) {
@@ -191,15 +409,24 @@ const getBearerTokenForSession = (sessionId: string | undefined): string => {
 // Validate authorization token and extract user permissions
 const validateTokenAndGetPermissions = async (
   bearerToken: string,
-): Promise<{ is_superuser: boolean; is_platform_auditor: boolean }> => {
+): Promise<SessionUser> => {
   try {
-    const response = await fetch(`${CONFIG.BASE_URL}/api/gateway/v1/me/`, {
-      headers: {
-        Authorization: `Bearer ${bearerToken}`,
-        Accept: "application/json",
+    const response = await upstreamClient.fetch(
+      `${CONFIG.BASE_URL}/api/gateway/v1/me/`,
+      {
+        headers: {
+          Authorization: `Bearer ${bearerToken}`,
+          Accept: "application/json",
+        },
       },
-    });
+      { urlTemplate: "/api/gateway/v1/me/", service: "gateway" },
+    );
 
+    if (response.status === 401 || response.status === 403) {
+      throw new TokenRejectedError(
+        `Authentication failed: ${response.status} ${response.statusText}`,
+      );
+    }
     if (!response.ok) {
       throw new Error(
         `Authentication failed: ${response.status} ${response.statusText}`,
@@ -220,28 +447,185 @@ const validateTokenAndGetPermissions = async (
     return {
       is_superuser: userInfo.is_superuser || false,
       is_platform_auditor: userInfo.is_platform_auditor || false,
+      username: userInfo.username,
+      user_id: userInfo.id,
     };
   } catch (error) {
-    console.error("Token validation failed:", error);
-    throw new Error(
-      `Token validation failed: ${error instanceof Error ? error.message : String(error)}`,
+    sessionsLog.error("Token validation failed", { error });
+    const message = `Token validation failed: ${error instanceof Error ? error.message : String(error)}`;
+    throw error instanceof TokenRejectedError
+      ? new TokenRejectedError(message)
+      : new Error(message);
+  }
+};
+
+// Tokens and users of the MCP sessions, with their idle timeout, lifetime
+// and limits
+const sessionManager = new SessionManager({
+  config: localConfig.sessions,
+  store: createSessionStore(localConfig.sessions?.store),
+  validateToken: validateTokenAndGetPermissions,
+  closeSession: async (sessionId, reason) => {
+    metricsService.recordSessionEnded(reason);
+    await transports[sessionId]?.close();
+  },
+});
+
+// Rate limits and concurrency cap of the tool calls
+const rateLimiter = new RateLimiter({
+  config: localConfig.rate_limits,
+  onLimited: (call, rejection) => {
+    executorLog.warn(`Tool ${call.toolName} limited`, {
+      sessionId: call.sessionId,
+      scope: rejection.scope,
+      limitClass: rejection.limitClass,
+      retryAfterMs: Math.ceil(rejection.retryAfterMs),
+    });
+    metricsService.recordToolCallLimited(
+      call.toolName,
+      rejection.scope,
+      rejection.limitClass,
     );
+  },
+});
+
+const logSessionUser = (sessionId: string, permissions: SessionUser) => {
+  sessionsLog.info("Stored session data", {
+    sessionId,
+    username: permissions.username,
+    superuser: permissions.is_superuser,
+    auditor: permissions.is_platform_auditor,
+  });
+};
+
+// Permissions of the fallback token, validated once on first use
+let fallbackPermissions: Promise<SessionUser> | undefined;
+
+// Get the AAP permissions of the token used by a session
+const getPermissionsForSession = async (
+  sessionId: string | undefined,
+): Promise<SessionUser> => {
+  const session = sessionManager.get(sessionId);
+  if (session?.user) {
+    return session.user;
+  }
+
+  // A token that failed validation does not get the fallback permissions
+  if (session?.token || !CONFIG.FALLBACK_BEARER_TOKEN) {
+    // Without any token the session gets the least privileged role
+    return { is_superuser: false, is_platform_auditor: false };
   }
+
+  if (!fallbackPermissions) {
+    fallbackPermissions = validateTokenAndGetPermissions(
+      CONFIG.FALLBACK_BEARER_TOKEN,
+    ).catch((error) => {
+      fallbackPermissions = undefined;
+      throw error;
+    });
+  }
+  return fallbackPermissions;
 };
 
-const storeSessionData = (
-  sessionId: string,
-  token: string,
-  permissions: { is_superuser: boolean; is_platform_auditor: boolean },
-): void => {
-  sessionData[sessionId] = {
-    token,
-    is_superuser: permissions.is_superuser,
-    is_platform_auditor: permissions.is_platform_auditor,
+// Get the category override stored on the transport of a session
+const getCategoryOverrideForSession = (
+  sessionId: string | undefined,
+): string | undefined => {
+  // The stdio transport has a single client and takes its category from the command line
+  if (transportMode === "stdio") {
+    return cliOptions.category;
+  }
+  const transport = sessionId ? transports[sessionId] : null;
+  return transport ? (transport as any).categoryOverride : undefined;
+};
+
+// Whether the session previews its write tool calls instead of sending them
+const isDryRunSession = (sessionId: string | undefined): boolean => {
+  // The stdio transport takes the dry-run mode from the command line
+  if (transportMode === "stdio") {
+    return cliOptions.dryRun === true;
+  }
+  const transport = sessionId ? transports[sessionId] : undefined;
+  return transport ? (transport as any).dryRun === true : false;
+};
+
+// Get the risk level of a tool (read, write or destructive)
+const getRiskLevel = (tool: AAPMcpToolDefinition): RiskLevel => {
+  return resolveRiskLevel(tool, localConfig.risk_levels);
+};
+
+// Send a request to AAP within a trace span and record the call and its
+// latency in the metrics. signal aborts it when the MCP client cancels the
+// tool call.
+const fetchUpstream = async (
+  tool: AAPMcpToolDefinition,
+  url: string,
+  options?: RequestInit,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  const startTime = Date.now();
+  let statusCode = 0;
+  try {
+    const response = await upstreamClient.fetch(url, options, {
+      urlTemplate: tool.pathTemplate,
+      service: tool.service,
+      signal,
+    });
+    statusCode = response.status;
+    return response;
+  } finally {
+    metricsService.recordApiCall(
+      tool.service || "unknown",
+      tool.pathTemplate,
+      options?.method || "GET",
+      statusCode,
+      (Date.now() - startTime) / 1000,
+    );
+  }
+};
+
+// Fetch a label for the object a destructive tool is about to change, shown
+// to the user in the confirmation request
+const fetchTargetDescription = async (
+  tool: AAPMcpToolDefinition,
+  args: Record<string, unknown>,
+  bearerToken: string,
+  signal?: AbortSignal,
+): Promise<string | undefined> => {
+  const targetPath = getTargetPath(tool);
+  if (!targetPath) {
+    return undefined;
+  }
+  const targetTool: AAPMcpToolDefinition = {
+    ...tool,
+    method: "get",
+    pathTemplate: targetPath,
+    parameters: (tool.parameters || []).filter((param) => param.in === "path"),
   };
-  console.log(
-    `Stored session data for ${sessionId}: superuser=${permissions.is_superuser}, auditor=${permissions.is_platform_auditor}`,
+  const targetRequest = buildToolRequest(
+    targetTool,
+    args,
+    CONFIG.BASE_URL,
+    bearerToken,
   );
+  try {
+    const response = await fetchUpstream(
+      targetTool,
+      targetRequest.url,
+      {
+        method: targetRequest.method,
+        headers: targetRequest.headers,
+      },
+      signal,
+    );
+    if (!response.ok) {
+      return `${targetRequest.url} (HTTP ${response.status})`;
+    }
+    return describeTarget(await response.json()) ?? targetRequest.url;
+  } catch (error) {
+    executorLog.warn(`Failed to fetch ${targetRequest.url}`, { error });
+    return `${targetRequest.url} (could not be fetched)`;
+  }
 };
 
 // Determine user category based on category name
@@ -252,7 +636,9 @@ const getUserCategory = (category?: string): Category => {
     if (allCategories[categoryName]) {
       return allCategories[categoryName];
     } else {
-      console.warn(`Unknown category: ${category}, returning empty category`);
+      sessionsLog.warn(
+        `Unknown category: ${category}, returning empty category`,
+      );
       return [];
     }
   }
@@ -269,6 +655,33 @@ const filterToolsByCategory = (
   return tools.filter((tool) => category.includes(tool.name));
 };
 
+// Determine the role required to use a category
+const getCategoryRequiredRole = (category?: string): UserRole => {
+  return (category && categoryRequiredRoles[category.toLowerCase()]) || "user";
+};
+
+// Get the tools a session may use, based on its category and AAP role
+const getToolsForSession = async (
+  sessionId: string | undefined,
+  categoryOverride: string | undefined,
+): Promise<AAPMcpToolDefinition[]> => {
+  const category = getUserCategory(categoryOverride);
+  const requiredRole = getCategoryRequiredRole(categoryOverride);
+  const role = getUserRole(await getPermissionsForSession(sessionId));
+
+  if (!hasRequiredRole(role, requiredRole)) {
+    sessionsLog.warn(
+      `Role ${role} does not meet the ${requiredRole} role required by category ${categoryOverride}`,
+      { sessionId },
+    );
+  }
+  return filterToolsByRole(
+    filterToolsByCategory(allTools, category),
+    role,
+    requiredRole,
+  );
+};
+
 // Find which category a tool belongs to (returns first match or "uncategorized")
 const getCategoryForTool = (toolName: string): string => {
   for (const [categoryName, categoryTools] of Object.entries(allCategories)) {
@@ -297,49 +710,145 @@ const getCategoryColor = (categoryName: string): string => {
   return colors[hash % colors.length];
 };
 
+// Normalize the OpenAPI spec of a service and turn its operations into
+// tools
+const buildServiceTools = async (
+  spec: OpenApiSpecEntry,
+): Promise<CachedServiceTools> => {
+  const disabledToolNames: string[] = [];
+  loaderLog.info(`Loading ${spec.service}`);
+  let oas = new OASNormalize(spec.spec);
+  const derefedDocument = await oas.deref();
+  oas = new OASNormalize(derefedDocument);
+
+  const mspecification = await oas.convert();
+  // Convert to bundled version for consistency
+  const bundledSpec = await new OASNormalize(mspecification).bundle();
+
+  const tools = extractToolsFromApi(
+    bundledSpec as any,
+  ) as AAPMcpToolDefinition[];
+  const filteredTools = tools.filter((tool) => {
+    tool.service = spec.service; // Add service information to each tool
+    tool.logs = tool.logs || []; // Ensure logs array is initialized
+    // Filter out operations not in allowedOperations list
+    if (!allowedOperations.includes(tool.method.toUpperCase())) {
+      tool.logs.push({
+        severity: "INFO",
+        msg: "operation disabled by configuration",
+      });
+      const disabledTool = spec.reformatFunc({ ...tool, logs: [] });
+      if (disabledTool) {
+        disabledToolNames.push(disabledTool.name);
+      }
+      return false;
+    }
+    const originDescription = tool.description;
+    const result = spec.reformatFunc(tool);
+    if (result !== false) {
+      result.originalDescription = originDescription;
+      if (isPaginatedListTool(result)) {
+        addPaginationParameters(result);
+      }
+      addFieldsParameter(result);
+      addDryRunParameter(result);
+    }
+    return result !== false;
+  });
+
+  return { tools: filteredTools, disabledToolNames };
+};
+
+// Get the tools of a service from the tool cache, or build them and store
+// them there. refresh ignores the cached tools.
+const getServiceTools = async (
+  spec: OpenApiSpecEntry,
+  refresh: boolean = false,
+): Promise<CachedServiceTools> => {
+  if (!toolCache || !spec.service) {
+    return buildServiceTools(spec);
+  }
+  const key = computeToolCacheKey({
+    service: spec.service,
+    spec: spec.spec,
+    serverVersion: SERVER_VERSION,
+    settings: { allowedOperations },
+  });
+  const cached = refresh ? undefined : await toolCache.read(spec.service, key);
+  if (cached) {
+    loaderLog.info(
+      `Loaded ${cached.tools.length} ${spec.service} tools from the tool cache`,
+    );
+    return cached;
+  }
+  const serviceTools = await buildServiceTools(spec);
+  await toolCache.write(spec.service, key, serviceTools);
+  return serviceTools;
+};
+
 // Generate tools from OpenAPI specs
-const generateTools = async (): Promise<AAPMcpToolDefinition[]> => {
-  const openApiSpecs = await loadOpenApiSpecs(servicesConfig, CONFIG.BASE_URL);
+// The names of the tools removed because their operation is not allowed are
+// added to disabledToolNames when given, the outcome of each service to
+// specStatuses. Throws when the spec of a required service fails to load,
+// the optional ones are left out. refreshToolCache regenerates the tools
+// even when they are cached.
+const generateTools = async (
+  services: ServiceConfig[],
+  disabledToolNames?: string[],
+  specStatuses?: Record<string, SpecStatus>,
+  refreshToolCache: boolean = false,
+): Promise<AAPMcpToolDefinition[]> => {
+  const openApiSpecs = await loadOpenApiSpecs(
+    services,
+    CONFIG.BASE_URL,
+    upstreamClient.fetch,
+  );
   let rawToolList: AAPMcpToolDefinition[] = [];
+  const requiredFailures: string[] = [];
 
   for (const spec of openApiSpecs) {
-    console.log(`Loading ${spec.service}`);
-    let oas = new OASNormalize(spec.spec);
-    const derefedDocument = await oas.deref();
-    oas = new OASNormalize(derefedDocument);
-
-    const mspecification = await oas.convert();
-    // Convert to bundled version for consistency
-    const bundledSpec = await new OASNormalize(mspecification).bundle();
+    const required =
+      services.find((service) => service.name === spec.service)?.required ===
+      true;
+    const setSpecStatus = (error?: string) => {
+      if (error !== undefined && required) {
+        requiredFailures.push(`${spec.service}: ${error}`);
+      }
+      if (specStatuses && spec.service) {
+        specStatuses[spec.service] = {
+          loaded: error === undefined,
+          required,
+          source: spec.localPath || spec.url,
+          error,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+    };
+    if (!spec.spec) {
+      setSpecStatus(spec.error ?? "no spec");
+      continue;
+    }
 
     try {
-      const tools = extractToolsFromApi(
-        bundledSpec as any,
-      ) as AAPMcpToolDefinition[];
-      const filteredTools = tools.filter((tool) => {
-        tool.service = spec.service; // Add service information to each tool
-        tool.logs = tool.logs || []; // Ensure logs array is initialized
-        // Filter out operations not in allowedOperations list
-        if (!allowedOperations.includes(tool.method.toUpperCase())) {
-          tool.logs.push({
-            severity: "INFO",
-            msg: "operation disabled by configuration",
-          });
-          return false;
-        }
-        const originDescription = tool.description;
-        const result = spec.reformatFunc(tool);
-        if (result !== false) {
-          result.originalDescription = originDescription;
-        }
-        return result !== false;
-      });
-      rawToolList = rawToolList.concat(filteredTools);
+      const serviceTools = await getServiceTools(spec, refreshToolCache);
+      disabledToolNames?.push(...serviceTools.disabledToolNames);
+      rawToolList = rawToolList.concat(serviceTools.tools);
+      setSpecStatus();
     } catch (error) {
-      console.error("Error generating tools from OpenAPI spec:", error);
+      loaderLog.error("Error generating tools from OpenAPI spec", {
+        service: spec.service,
+        error,
+      });
+      setSpecStatus(error instanceof Error ? error.message : String(error));
     }
   }
 
+  if (requiredFailures.length > 0) {
+    throw new Error(
+      `Required services failed to load, set required: false to start without them:\n${requiredFailures.join("\n")}`,
+    );
+  }
+
   // Calculate size for each tool and sort by size
   const toolsWithSize: AAPMcpToolDefinition[] = rawToolList.map((tool) => {
     const toolSize = JSON.stringify({
@@ -356,6 +865,16 @@ const generateTools = async (): Promise<AAPMcpToolDefinition[]> => {
   // Sort by size in descending order
   toolsWithSize.sort((a, b) => b.size - a.size);
 
+  toolsWithSize.forEach((tool) => {
+    if (tool.deprecated)
+      tool.logs.push({ severity: "INFO", msg: "endpoint is deprecated" });
+    if (tool.name.length > 64) {
+      tool.logs.push({ severity: "ERR", msg: "tool name is too long (64)" });
+    } else if (tool.name.length > 40) {
+      tool.logs.push({ severity: "WARN", msg: "tool name is too long (40)" });
+    }
+  });
+
   // Generate CSV content
   const csvHeader =
     "Tool name,size (characters),description,path template,service\n";
@@ -370,7 +889,7 @@ const generateTools = async (): Promise<AAPMcpToolDefinition[]> => {
   // Write the tools list in the local environment
   if (process.env.NODE_ENV === "development") {
     writeFileSync("tool_list.csv", csvContent, "utf8");
-    console.log(
+    loaderLog.info(
       `Tool list saved to tool_list.csv (${toolsWithSize.length} tools)`,
     );
   }
@@ -380,271 +899,517 @@ const generateTools = async (): Promise<AAPMcpToolDefinition[]> => {
 
 let allTools: AAPMcpToolDefinition[] = [];
 
-// Initialize logger only if recording is enabled
-const toolLogger = recordApiQueries ? new ToolLogger() : null;
-
-// Helper function to read log entries for a tool
-const getToolLogEntries = async (toolName: string): Promise<LogEntry[]> => {
-  const logFile = join(process.cwd(), "logs", `${toolName}.jsonl`);
-  try {
-    const content = readFileSync(logFile, "utf8");
-    const lines = content
-      .trim()
-      .split("\n")
-      .filter((line) => line);
-    return lines.map((line) => JSON.parse(line) as LogEntry);
-  } catch (_error) {
-    // Log file doesn't exist or can't be read
-    return [];
+// Spec loading outcome of the enabled services, reported by the readiness
+// endpoint
+let specStatuses: Record<string, SpecStatus> = {};
+
+// Tool names of each expanded category
+const getCategoryToolNames = (
+  expansions: Record<string, CategoryExpansion>,
+): Record<string, Category> => {
+  const categories: Record<string, Category> = {};
+  for (const [name, expansion] of Object.entries(expansions)) {
+    categories[name] = expansion.toolNames;
   }
+  return categories;
 };
 
-// Helper function to read all log entries across all tools
-const getAllLogEntries = async (): Promise<
-  (LogEntry & { toolName: string })[]
-> => {
-  const logsDir = join(process.cwd(), "logs");
-  const allEntries: (LogEntry & { toolName: string })[] = [];
+// Resolve the category entries (globs, regular expressions, selectors) to tool names
+const expandCategoryEntries = (
+  entries: Record<string, string[]>,
+  parents: Record<string, string[]>,
+  tools: AAPMcpToolDefinition[],
+): {
+  expansions: Record<string, CategoryExpansion>;
+  categories: Record<string, Category>;
+} => {
+  const expansions = expandCategories(entries, tools, parents);
+  return { expansions, categories: getCategoryToolNames(expansions) };
+};
 
-  try {
-    const files = await fs.readdir(logsDir);
-    const jsonlFiles = files.filter((file) => file.endsWith(".jsonl"));
+// Open the audit store and the logger only if recording is enabled
+const auditStore = recordApiQueries
+  ? createAuditStore(localConfig.audit)
+  : null;
+const toolLogger = auditStore
+  ? new ToolLogger(auditStore, localConfig.audit?.responses, redactionRules)
+  : null;
+
+// Enforce the retention limits in the background, when there are some
+const retentionPolicy = resolveRetentionPolicy(
+  localConfig.audit?.retention,
+  localConfig.audit?.rotation,
+);
+const auditCompactor =
+  auditStore && hasRetentionLimits(retentionPolicy)
+    ? new AuditCompactor(
+        auditStore,
+        retentionPolicy,
+        localConfig.audit?.retention?.compact_interval_minutes,
+      )
+    : null;
+
+// Create an MCP server. Each session gets its own server so that
+// notifications reach the right client.
+const createMcpServer = (): Server => {
+  const server = new Server(
+    {
+      name: "aap",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+      },
+    },
+  );
 
-    for (const file of jsonlFiles) {
-      const toolName = file.replace(".jsonl", "");
-      const entries = await getToolLogEntries(toolName);
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+    // Get the session ID from the transport context
+    const sessionId = extra?.sessionId;
+    const _startTime = Date.now();
 
-      // Add toolName to each entry
-      const entriesWithToolName = entries.map((entry) => ({
-        ...entry,
-        toolName,
-      }));
+    // Get category override from transport if available
+    const categoryOverride = getCategoryOverrideForSession(sessionId);
 
-      allEntries.push(...entriesWithToolName);
-    }
+    // Determine user category based on category override
+    const category = getUserCategory(categoryOverride);
 
-    // Sort by timestamp, most recent first
-    allEntries.sort(
-      (a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-    );
+    // Filter tools based on category and on the role of the session
+    const filteredTools = await getToolsForSession(sessionId, categoryOverride);
 
-    return allEntries;
-  } catch (error) {
-    console.error("Error reading log files:", error);
-    return [];
-  }
-};
+    // Determine category type by comparing with known categories
+    let categoryType = "unknown";
+    for (const [name, tools] of Object.entries(allCategories)) {
+      if (category === tools) {
+        categoryType = name;
+        break;
+      }
+    }
 
-const server = new Server(
-  {
-    name: "aap",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
+    const overrideInfo = categoryOverride
+      ? ` (override: ${categoryOverride})`
+      : "";
+    sessionsLog.info(
+      `Returning ${filteredTools.length} tools for ${categoryType} category${overrideInfo}`,
+      { sessionId },
+    );
 
-server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
-  // Get the session ID from the transport context
-  const sessionId = extra?.sessionId;
-  const _startTime = Date.now();
+    return {
+      tools: filteredTools.map((tool) => {
+        const riskLevel = getRiskLevel(tool);
+        return {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+          annotations: {
+            readOnlyHint: riskLevel === "read",
+            destructiveHint: riskLevel === "destructive",
+          },
+        };
+      }),
+    };
+  });
 
-  // Get category override from transport if available
-  const transport = sessionId ? transports[sessionId] : null;
-  const categoryOverride = transport
-    ? (transport as any).categoryOverride
-    : undefined;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args = {} } = request.params;
+    const startTime = Date.now();
 
-  // Determine user category based on category override
-  const category = getUserCategory(categoryOverride);
+    // Find the matching tool
+    const tool = allTools.find((t) => t.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
 
-  // Filter tools based on category
-  const filteredTools = filterToolsByCategory(allTools, category);
+    // Get the session ID from the transport context
+    const sessionId = extra?.sessionId;
 
-  // Determine category type by comparing with known categories
-  let categoryType = "unknown";
-  for (const [name, tools] of Object.entries(allCategories)) {
-    if (category === tools) {
-      categoryType = name;
-      break;
+    // Refuse tools outside of the category or above the role of the session
+    const sessionTools = await getToolsForSession(
+      sessionId,
+      getCategoryOverrideForSession(sessionId),
+    );
+    if (!sessionTools.some((t) => t.name === name)) {
+      throw new Error(`Tool ${name} is not available for this session`);
     }
-  }
 
-  const overrideInfo = categoryOverride
-    ? ` (override: ${categoryOverride})`
-    : "";
-  console.log(
-    `Returning ${filteredTools.length} tools for ${categoryType} category${overrideInfo} (session: ${sessionId || "none"})`,
-  );
+    // Get user-agent from transport (if available)
+    let userAgent = "unknown";
+    if (sessionId && transports[sessionId]) {
+      const transport = transports[sessionId] as any;
+      userAgent = transport.userAgent || "unknown";
+    } else if (transportMode === "stdio") {
+      // No HTTP headers over stdio, use the client info from the initialize request
+      const clientVersion = server.getClientVersion();
+      userAgent = clientVersion
+        ? `${clientVersion.name}/${clientVersion.version}`
+        : "stdio";
+    }
 
-  return {
-    tools: filteredTools.map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema,
-    })),
-  };
-});
+    // Who makes the call, recorded with it in the audit log
+    const getAuditContext = async (): Promise<AuditContext> => {
+      const user = await getPermissionsForSession(sessionId).catch(
+        () => undefined,
+      );
+      const client = server.getClientVersion();
+      return {
+        sessionId:
+          sessionId ??
+          (transportMode === "stdio" ? STDIO_SESSION_ID : undefined),
+        userAgent,
+        category: getCategoryOverrideForSession(sessionId),
+        username: user?.username,
+        userId: user?.user_id,
+        clientName: client?.name,
+        clientVersion: client?.version,
+        arguments: args,
+      };
+    };
 
-server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
-  const { name, arguments: args = {} } = request.params;
-  const _startTime = Date.now();
+    // Get the Bearer token for this session
+    const bearerToken = getBearerTokenForSession(sessionId);
 
-  // Find the matching tool
-  const tool = allTools.find((t) => t.name === name);
-  if (!tool) {
-    throw new Error(`Unknown tool: ${name}`);
-  }
+    // Refuse the call beyond the rate limits of the session, token and tool
+    const limitedCall: RateLimitedCall = {
+      sessionId:
+        sessionId ?? (transportMode === "stdio" ? STDIO_SESSION_ID : "none"),
+      token: bearerToken,
+      toolName: tool.name,
+      limitClass: getRiskLevel(tool) === "read" ? "read" : "write",
+    };
+    const rejection = rateLimiter.admit(limitedCall);
+    if (rejection) {
+      return createRateLimitResult(rejection);
+    }
+    let releaseCall: (() => void) | undefined;
+    metricsService.incrementToolCallsInFlight();
+
+    // Record the execution in the Prometheus metrics, independently of the
+    // API query recording
+    const service = tool.service || "unknown";
+    const category = getCategoryForTool(tool.name);
+    const recordExecution = (status: "success" | "error") => {
+      metricsService.recordToolExecution(
+        tool.name,
+        service,
+        category,
+        status,
+        (Date.now() - startTime) / 1000,
+      );
+    };
 
-  // Get the session ID from the transport context
-  const sessionId = extra?.sessionId;
+    // Execute the tool by making HTTP request
+    let result: any;
+    let response: Response | undefined;
+    let fullUrl: string = `${CONFIG.BASE_URL}${tool.pathTemplate}`;
+    let requestOptions: RequestInit | undefined;
 
-  // Get user-agent from transport (if available)
-  let userAgent = "unknown";
-  if (sessionId && transports[sessionId]) {
-    const transport = transports[sessionId] as any;
-    userAgent = transport.userAgent || "unknown";
-  }
+    try {
+      // Build URL, headers and body from the arguments
+      const toolRequest = buildToolRequest(
+        tool,
+        args,
+        CONFIG.BASE_URL,
+        bearerToken,
+      );
 
-  // Get the Bearer token for this session
-  const bearerToken = getBearerTokenForSession(sessionId);
+      // Dry run: return the request of a write tool without sending it
+      if (
+        !isReadOnlyTool(tool) &&
+        (isDryRunRequested(args) || isDryRunSession(sessionId))
+      ) {
+        executorLog.info(`Dry run: ${toolRequest.method} ${toolRequest.url}`, {
+          tool: name,
+          sessionId,
+        });
+        const preview = buildDryRunPreview(tool, args, toolRequest);
+        recordExecution("success");
+        return {
+          content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+        };
+      }
 
-  // Execute the tool by making HTTP request
-  let result: any;
-  let response: Response | undefined;
-  let fullUrl: string = `${CONFIG.BASE_URL}${tool.pathTemplate}`;
-  let requestOptions: RequestInit | undefined;
+      // Destructive calls need an explicit confirmation from the user
+      if (getRiskLevel(tool) === "destructive") {
+        await confirmDestructiveCall(server, tool, toolRequest, () =>
+          fetchTargetDescription(tool, args, bearerToken, extra.signal),
+        );
+        executorLog.info(`Destructive operation ${name} confirmed`, {
+          sessionId,
+        });
+      }
 
-  try {
-    // Build URL from path template and parameters
-    let url = tool.pathTemplate;
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${bearerToken}`,
-      Accept: "application/json",
-    };
+      // Prepare request options
+      requestOptions = {
+        method: toolRequest.method,
+        headers: toolRequest.headers,
+        body: toolRequest.body,
+      };
 
-    for (const param of tool.parameters || []) {
-      if (param.in === "path" && args[param.name]) {
-        url = url.replace(`{${param.name}}`, String(args[param.name]));
+      // Take a slot of the session only now, a pending confirmation does
+      // not hold one
+      const limit = rateLimiter.begin(limitedCall);
+      if (!limit.allowed) {
+        return createRateLimitResult(limit.rejection);
       }
-    }
+      releaseCall = limit.release;
 
-    // Add query parameters
-    const queryParams = new URLSearchParams();
-    for (const param of tool.parameters || []) {
-      if (param.in === "query" && args[param.name] !== undefined) {
-        queryParams.append(param.name, String(args[param.name]));
+      // Make HTTP request
+      fullUrl = toolRequest.url;
+      executorLog.info(`Calling: ${toolRequest.method} ${fullUrl}`, {
+        tool: name,
+        sessionId,
+      });
+      response = await fetchUpstream(
+        tool,
+        fullUrl,
+        requestOptions,
+        extra.signal,
+      );
+
+      const contentType = response.headers.get("content-type");
+      if (contentType && contentType.includes("application/json")) {
+        result = await response.json();
+      } else {
+        result = await response.text();
       }
-    }
-    if (queryParams.toString()) {
-      url += "?" + queryParams.toString();
-    }
 
-    // Prepare request options
-    requestOptions = {
-      method: tool.method.toUpperCase(),
-      headers,
-    };
+      // Follow the 'next' links when the caller asked for more than one page
+      const paginationOptions = isPaginatedListTool(tool)
+        ? getPaginationOptions(args)
+        : undefined;
+      if (paginationOptions && response.ok && isPaginatedResponse(result)) {
+        result = await fetchAllPages(
+          result,
+          fullUrl,
+          async (pageUrl) => {
+            executorLog.debug(`Calling: ${pageUrl}`, { tool: name, sessionId });
+            const pageResponse = await fetchUpstream(
+              tool,
+              pageUrl,
+              requestOptions,
+              extra.signal,
+            );
+            if (!pageResponse.ok) {
+              throw new Error(
+                `HTTP ${pageResponse.status}: ${await pageResponse.text()}`,
+              );
+            }
+            return pageResponse.json();
+          },
+          paginationOptions,
+        );
+      }
 
-    // Add request body for POST, PUT, PATCH
-    if (
-      ["POST", "PUT", "PATCH"].includes(tool.method.toUpperCase()) &&
-      args.requestBody
-    ) {
-      headers["Content-Type"] = "application/json";
-      requestOptions.body = JSON.stringify(args.requestBody);
-    }
+      // Log the tool access (only if recording is enabled)
+      if (recordApiQueries && toolLogger) {
+        await toolLogger.logToolAccess(
+          tool,
+          fullUrl,
+          { method: tool.method.toUpperCase() },
+          result,
+          response.status,
+          await getAuditContext(),
+        );
+      }
 
-    // Make HTTP request
-    fullUrl = `${CONFIG.BASE_URL}${url}`;
-    console.log(`Calling: ${fullUrl}`);
-    response = await fetch(fullUrl, requestOptions);
+      // AAP echoes some of the submitted values in its validation errors
+      if (!response.ok) {
+        throw new Error(
+          `HTTP ${response.status}: ${JSON.stringify(redactSecrets(result, redactionRules, tool.secretFields))}`,
+        );
+      }
 
-    const contentType = response.headers.get("content-type");
-    if (contentType && contentType.includes("application/json")) {
-      result = await response.json();
-    } else {
-      result = await response.text();
-    }
+      // Fit the response in the character budget of the tool
+      const shaped = shapeResponse(
+        redactionRules.maskResponses
+          ? redactSecrets(result, redactionRules, tool.secretFields)
+          : result,
+        resolveShapingRules(localConfig.response_shaping, tool),
+        hasUpstreamFieldsParameter(tool) ? undefined : getFieldsArgument(args),
+      );
+      if (shaped.notes.length > 0) {
+        executorLog.info(
+          `Response of ${name} was shaped: ${shaped.notes.join(" ")}`,
+          { sessionId },
+        );
+      }
 
-    // Log the tool access (only if recording is enabled)
-    if (recordApiQueries && toolLogger) {
-      // Add category information to the tool for metrics
-      const toolWithCategory = {
-        ...tool,
-        category: getCategoryForTool(tool.name),
+      recordExecution("success");
+      return {
+        content: [
+          {
+            type: "text",
+            text: shaped.text,
+          },
+          ...(shaped.notes.length > 0
+            ? [{ type: "text", text: shaped.notes.join(" ") }]
+            : []),
+        ],
       };
-      await toolLogger.logToolAccess(
-        toolWithCategory,
-        fullUrl,
-        {
-          method: tool.method.toUpperCase(),
-          userAgent: userAgent,
-        },
-        result,
-        response.status,
-        _startTime,
+    } catch (error) {
+      recordExecution("error");
+      metricsService.recordToolError(
+        tool.name,
+        service,
+        category,
+        response && response.status >= 500
+          ? "server_error"
+          : response && response.status >= 400
+            ? "client_error"
+            : "request_error",
       );
-    }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${JSON.stringify(result)}`);
-    }
+      // Log the failed tool access (only if recording is enabled)
+      if (recordApiQueries && toolLogger) {
+        await toolLogger.logToolAccess(
+          tool,
+          fullUrl,
+          { method: tool.method.toUpperCase() },
+          { error: error instanceof Error ? error.message : String(error) },
+          response?.status || 0,
+          await getAuditContext(),
+        );
+      }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error) {
-    // Log the failed tool access (only if recording is enabled)
-    if (recordApiQueries && toolLogger) {
-      // Add category information to the tool for metrics
-      const toolWithCategory = {
-        ...tool,
-        category: getCategoryForTool(tool.name),
-      };
-      await toolLogger.logToolAccess(
-        toolWithCategory,
-        fullUrl,
-        {
-          method: tool.method.toUpperCase(),
-          userAgent: userAgent,
-        },
-        { error: error instanceof Error ? error.message : String(error) },
-        response?.status || 0,
-        _startTime,
+      executorLog.warn(`Tool ${name} failed`, {
+        sessionId,
+        status: response?.status,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(
+        `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
       );
+    } finally {
+      releaseCall?.();
+      metricsService.decrementToolCallsInFlight();
     }
+  });
 
-    throw new Error(
-      `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
-    );
-  }
-});
+  return server;
+};
 
 // Global state management
 const transports: Record<string, StreamableHTTPServerTransport> = {};
-const sessionData: SessionData = {};
+const servers: Record<string, Server> = {};
+
+// Key of the single stdio client in the servers map
+const STDIO_SESSION_ID = "stdio";
 
 const app = express();
+app.use(requestContextMiddleware());
+app.use(metricsService.httpMiddleware());
 app.use(express.json());
 
-// Allow CORS for all domains, expose the Mcp-Session-Id header
+// Allowed CORS origins (priority: env var > config file > all domains),
+// expose the Mcp-Session-Id header
+const corsOrigins = process.env.CORS_ORIGINS
+  ? process.env.CORS_ORIGINS.split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean)
+  : localConfig.cors?.origins || ["*"];
+serverLog.info(`CORS origins: ${corsOrigins.join(", ")}`);
 app.use(
   cors({
-    origin: "*",
+    origin: corsOrigins.includes("*") ? "*" : corsOrigins,
     exposedHeaders: ["Mcp-Session-Id"],
   }),
 );
 
+// Authentication of the web UI and of the admin endpoints
+const uiAuth = new UiAuthenticator({
+  config: localConfig.ui_auth,
+  adminToken: process.env.UI_ADMIN_TOKEN,
+  sessionSecret: process.env.UI_SESSION_SECRET,
+  validateToken: validateTokenAndGetPermissions,
+});
+serverLog.info(
+  `UI and admin endpoints authentication: ${uiAuth.enabled ? "ENABLED" : "DISABLED"}`,
+);
+
+// Answer the requests of a session past its idle timeout or lifetime, or
+// whose token was revoked, with a JSON-RPC error. 404 tells the client to
+// start a new session.
+const rejectEndedSession = async (
+  sessionId: string,
+  res: express.Response,
+): Promise<boolean> => {
+  const reason = await sessionManager.recordActivity(sessionId);
+  if (!reason) {
+    return false;
+  }
+  res.status(404).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32001,
+      message: describeSessionEnd(reason, sessionManager.config),
+    },
+    id: null,
+  });
+  return true;
+};
+
+// Clean up the transport of a closed session. The session stays in the
+// store, another server may still serve it.
+const onTransportClosed = (transport: StreamableHTTPServerTransport) => {
+  const sid = transport.sessionId;
+  if (sid && transports[sid]) {
+    sessionsLog.info("Transport closed, removing session from transports map", {
+      sessionId: sid,
+    });
+    delete transports[sid];
+    delete servers[sid];
+    metricsService.decrementActiveSessions();
+    // Clean up session data
+    if (sessionManager.forget(sid)) {
+      sessionsLog.debug("Removed session data", { sessionId: sid });
+    }
+  }
+};
+
+// Rebuild the transport and MCP server of a session initialized by another
+// server, from its record in the session store
+const restoreSession = async (
+  sessionId: string,
+  record: SessionRecord,
+): Promise<StreamableHTTPServerTransport> => {
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+  });
+  (transport as any).categoryOverride = record.category;
+  (transport as any).userAgent = record.userAgent || "unknown";
+  (transport as any).dryRun = record.dryRun === true;
+  transport.onclose = () => onTransportClosed(transport);
+
+  const server = createMcpServer();
+  await server.connect(transport);
+  // The client already initialized the session
+  markSessionInitialized(transport, server, sessionId, record);
+  transports[sessionId] = transport;
+  servers[sessionId] = server;
+  metricsService.incrementActiveSessions();
+  traceTransport(transport, () => ({
+    "mcp.session.id": transport.sessionId,
+    "mcp.category": getCategoryOverrideForSession(transport.sessionId),
+  }));
+  sessionsLog.info("Session restored from the session store", {
+    sessionId,
+    category: record.category,
+  });
+  return transport;
+};
+
+// Transport of a session, restored when the session is only in the store
+const getSessionTransport = async (
+  sessionId: string,
+): Promise<StreamableHTTPServerTransport | undefined> => {
+  if (transports[sessionId]) {
+    return transports[sessionId];
+  }
+  const record = sessionManager.get(sessionId);
+  return record ? restoreSession(sessionId, record) : undefined;
+};
+
 // MCP POST endpoint handler
 const mcpPostHandler = async (
   req: express.Request,
@@ -654,73 +1419,106 @@ const mcpPostHandler = async (
   const sessionId = req.headers["mcp-session-id"] as string;
   const authHeader = req.headers["authorization"] as string;
 
-  if (sessionId) {
-    console.log(`Received MCP request for session: ${sessionId}`);
-  } else {
-    console.log("Request body:", req.body);
-  }
+  // The body is not logged, it carries the tool arguments
+  sessionsLog.debug("Received MCP request", {
+    method: Array.isArray(req.body) ? "batch" : req.body?.method,
+  });
 
   try {
     let transport: StreamableHTTPServerTransport;
 
-    if (sessionId && transports[sessionId]) {
+    if (sessionId && (await rejectEndedSession(sessionId, res))) {
+      return;
+    }
+
+    const existingTransport = sessionId
+      ? await getSessionTransport(sessionId)
+      : undefined;
+    if (existingTransport) {
       // Reuse existing transport
-      transport = transports[sessionId];
+      transport = existingTransport;
     } else if (!sessionId && isInitializeRequest(req.body)) {
+      const limit = sessionManager.checkLimits(extractBearerToken(authHeader));
+      if (limit) {
+        sessionsLog.warn("Session refused, too many sessions", { limit });
+        metricsService.recordSessionRejected(limit);
+        res.status(429).json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message:
+              limit === "global"
+                ? "Too many sessions on this server, try again later"
+                : "Too many sessions for this token, close some of them first",
+          },
+          id: null,
+        });
+        return;
+      }
+
       // New initialization request
       transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
         onsessioninitialized: async (sessionId: string) => {
-          console.log(
-            `Session initialized with ID: ${sessionId}${categoryOverride ? ` with category override: ${categoryOverride}` : ""}`,
-          );
-          transports[sessionId] = transport;
-
-          // Store category override and user-agent in transport for later access
-          (transport as any).categoryOverride = categoryOverride;
-          (transport as any).userAgent = req.headers["user-agent"] || "unknown";
-
-          // Extract and validate the bearer token
           const token = extractBearerToken(authHeader);
-          if (token) {
-            try {
-              // Validate token and get user permissions
-              const permissions = await validateTokenAndGetPermissions(token);
-
-              // Store both token and permissions in session data
-              storeSessionData(sessionId, token, permissions);
-            } catch (error) {
-              console.error(
-                `Failed to validate token for session ${sessionId}:`,
-                error,
-              );
-              // Token validation failed, we cannot create the session without valid token
-              throw error;
+          const details = {
+            token,
+            category: categoryOverride,
+            userAgent: req.headers["user-agent"] || "unknown",
+            dryRun: String(req.headers["x-dry-run"]).toLowerCase() === "true",
+            clientInfo: req.body.params?.clientInfo,
+            clientCapabilities: req.body.params?.capabilities,
+          };
+          if (!token) {
+            sessionsLog.warn("No bearer token provided for session", {
+              sessionId,
+            });
+          }
+
+          // Validate the bearer token before the session is registered, a
+          // rejected token must not count toward the session limits
+          try {
+            const permissions = await sessionManager.initialize(
+              sessionId,
+              details,
+            );
+            if (permissions) {
+              logSessionUser(sessionId, permissions);
             }
-          } else {
-            console.warn(`No bearer token provided for session ${sessionId}`);
+          } catch (error) {
+            sessionsLog.error("Failed to validate token for session", {
+              sessionId,
+              error,
+            });
+            // Token validation failed, we cannot create the session without valid token
+            throw error;
           }
+
+          sessionsLog.info("Session initialized", {
+            sessionId,
+            category: categoryOverride,
+          });
+          transports[sessionId] = transport;
+          servers[sessionId] = server;
+          metricsService.incrementActiveSessions();
+
+          // Store category override, user-agent and dry-run mode in transport for later access
+          (transport as any).categoryOverride = details.category;
+          (transport as any).userAgent = details.userAgent;
+          (transport as any).dryRun = details.dryRun;
         },
       });
 
       // Set up onclose handler to clean up transport when closed
-      transport.onclose = () => {
-        const sid = transport.sessionId;
-        if (sid && transports[sid]) {
-          console.log(
-            `Transport closed for session ${sid}, removing from transports map`,
-          );
-          delete transports[sid];
-          // Clean up session data
-          if (sessionData[sid]) {
-            delete sessionData[sid];
-            console.log(`Removed session data for session: ${sid}`);
-          }
-        }
-      };
+      transport.onclose = () => onTransportClosed(transport);
 
-      // Connect the transport to the MCP server BEFORE handling the request
+      // Connect the transport to a new MCP server BEFORE handling the request
+      const server = createMcpServer();
       await server.connect(transport);
+      traceTransport(transport, () => ({
+        "mcp.session.id": transport.sessionId,
+        "mcp.category": getCategoryOverrideForSession(transport.sessionId),
+      }));
       await transport.handleRequest(req, res, req.body);
       return;
     } else {
@@ -739,7 +1537,7 @@ const mcpPostHandler = async (
     // Handle the request with existing transport
     await transport.handleRequest(req, res, req.body);
   } catch (error) {
-    console.error("Error handling MCP request:", error);
+    sessionsLog.error("Error handling MCP request", { error });
     if (!res.headersSent) {
       res.status(500).json({
         jsonrpc: "2.0",
@@ -762,7 +1560,13 @@ const mcpGetHandler = async (
   const sessionId = req.headers["mcp-session-id"] as string;
   const _authHeader = req.headers["authorization"] as string;
 
-  if (!sessionId || !transports[sessionId]) {
+  if (sessionId && (await rejectEndedSession(sessionId, res))) {
+    return;
+  }
+  const transport = sessionId
+    ? await getSessionTransport(sessionId)
+    : undefined;
+  if (!transport) {
     res.status(400).send("Invalid or missing session ID");
     return;
   }
@@ -771,12 +1575,11 @@ const mcpGetHandler = async (
 
   const lastEventId = req.headers["last-event-id"];
   if (lastEventId) {
-    console.log(`Client reconnecting with Last-Event-ID: ${lastEventId}`);
+    sessionsLog.info("Client reconnecting", { lastEventId });
   } else {
-    console.log(`Establishing a new stream for session ${sessionId}`);
+    sessionsLog.info("Establishing a new stream");
   }
 
-  const transport = transports[sessionId];
   await transport.handleRequest(req, res);
 };
 
@@ -788,24 +1591,29 @@ const mcpDeleteHandler = async (
 ) => {
   const sessionId = req.headers["mcp-session-id"] as string;
 
-  if (!sessionId || !transports[sessionId]) {
+  if (sessionId && (await rejectEndedSession(sessionId, res))) {
+    return;
+  }
+  const transport = sessionId
+    ? await getSessionTransport(sessionId)
+    : undefined;
+  if (!transport) {
     res.status(400).send("Invalid or missing session ID");
     return;
   }
 
-  console.log(`Received session termination request for session ${sessionId}`);
+  sessionsLog.info("Received session termination request");
 
   try {
-    const transport = transports[sessionId];
     await transport.handleRequest(req, res);
 
-    // Clean up session data when session is terminated
-    if (sessionData[sessionId]) {
-      delete sessionData[sessionId];
-      console.log(`Removed session data for terminated session: ${sessionId}`);
+    // Clean up session data when session is terminated, on every server
+    if (await sessionManager.remove(sessionId)) {
+      sessionsLog.debug("Removed session data of terminated session");
     }
   } catch (error) {
-    console.error("Error handling session termination:", error);
+    sessionsLog.error("Error handling session termination", { error });
+
     if (!res.headersSent) {
       res.status(500).send("Error processing session termination");
     }
@@ -814,29 +1622,32 @@ const mcpDeleteHandler = async (
 
 // Web UI routes (only enabled if enable_ui is true)
 if (enableUI) {
+  // Every page needs a logged in user, the recorded calls need the logs role
+  const requireUser = uiAuth.requireRole("user");
+  const requireLogsRole = uiAuth.requireRole(uiAuth.logsRole);
+
+  app.get("/login", uiAuth.loginPage);
+  app.post("/login", express.urlencoded({ extended: false }), uiAuth.login);
+  app.post("/logout", uiAuth.logout);
+
   // Tool list HTML endpoint
-  app.get("/tools", async (req, res) => {
+  app.get("/tools", requireUser, async (req, res) => {
     try {
-      // Calculate success rates for all tools
-      const toolsWithSuccessRates: ToolWithSuccessRate[] = await Promise.all(
-        allTools.map(async (tool) => {
-          const logEntries = await getToolLogEntries(tool.name);
-          let successRate = "N/A";
-
-          if (logEntries.length > 0) {
-            const successCount = logEntries.filter(
-              (entry) => entry.return_code >= 200 && entry.return_code < 300,
-            ).length;
-            const successPercentage = (successCount / logEntries.length) * 100;
-            successRate = `${successPercentage.toFixed(1)}%`;
-          }
+      // Calculate success rates for all tools, counted by the audit store
+      const toolStats = auditStore ? await auditStore.getToolStats() : {};
+      const toolsWithSuccessRates: ToolWithSuccessRate[] = allTools.map(
+        (tool) => {
+          const stats = toolStats[tool.name];
+          const successRate = stats
+            ? `${((stats.successes / stats.calls) * 100).toFixed(1)}%`
+            : "N/A";
 
           return {
             ...tool,
             successRate,
-            logCount: logEntries.length,
+            logCount: stats?.calls ?? 0,
           };
-        }),
+        },
       );
 
       // Use the view function to render the HTML
@@ -845,7 +1656,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating HTML tool list:", error);
+      uiLog.error("Error generating HTML tool list", { error });
       res.status(500).json({
         error: "Failed to generate tool list HTML",
         message: error instanceof Error ? error.message : String(error),
@@ -854,7 +1665,7 @@ if (enableUI) {
   });
 
   // Individual tool details endpoint
-  app.get("/tools/:name", async (req, res) => {
+  app.get("/tools/:name", requireUser, async (req, res) => {
     try {
       const toolName = req.params.name;
 
@@ -867,33 +1678,25 @@ if (enableUI) {
         });
       }
 
-      // Get log entries for this tool
-      const logEntries = await getToolLogEntries(toolName);
-      const last10Calls = logEntries.slice(-10).reverse(); // Get last 10, most recent first
-
-      // Calculate error code summary
-      const errorCodeSummary = logEntries.reduce(
-        (acc, entry) => {
-          const code = entry.return_code;
-          acc[code] = (acc[code] || 0) + 1;
-          return acc;
-        },
-        {} as Record<number, number>,
-      );
+      // Get the last 10 calls, most recent first, and the status codes
+      const last10Calls =
+        auditStore && uiAuth.canViewLogs(res)
+          ? await auditStore.query({ toolName, limit: 10 })
+          : [];
+      const summary = auditStore
+        ? await auditStore.summarize({ toolName })
+        : undefined;
+      const errorCodeSummary = summary?.byReturnCode ?? {};
 
       // Calculate success vs error statistics for pie chart
-      const chartData = logEntries.reduce(
-        (acc, entry) => {
-          const code = entry.return_code;
-          if (code >= 200 && code < 300) {
-            acc.success += 1;
-          } else {
-            acc.error += 1;
-          }
-          return acc;
-        },
-        { success: 0, error: 0 },
-      );
+      const chartData = { success: 0, error: 0 };
+      for (const [code, count] of Object.entries(errorCodeSummary)) {
+        if (Number(code) >= 200 && Number(code) < 300) {
+          chartData.success += count;
+        } else {
+          chartData.error += count;
+        }
+      }
 
       // Check which categories have access to this tool
       const categoriesWithAccess: CategoryWithAccess[] = [];
@@ -913,11 +1716,13 @@ if (enableUI) {
       // Prepare data for the view
       const toolDetailsData: ToolDetailsData = {
         tool,
-        logEntries,
+        totalCalls: summary?.total ?? 0,
         last10Calls,
+
         errorCodeSummary,
         chartData,
         categoriesWithAccess,
+        riskLevel: getRiskLevel(tool),
       };
 
       // Use the view function to render the HTML
@@ -926,7 +1731,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating tool details:", error);
+      uiLog.error("Error generating tool details", { error });
       res.status(500).json({
         error: "Failed to generate tool details",
         message: error instanceof Error ? error.message : String(error),
@@ -935,7 +1740,7 @@ if (enableUI) {
   });
 
   // Tool list CSV endpoint
-  app.get("/export/tools/csv", (req, res) => {
+  app.get("/export/tools/csv", requireUser, (req, res) => {
     try {
       // Generate CSV content
       const csvHeader =
@@ -955,7 +1760,7 @@ if (enableUI) {
       );
       res.send(csvContent);
     } catch (error) {
-      console.error("Error generating CSV tool list:", error);
+      uiLog.error("Error generating CSV tool list", { error });
       res.status(500).json({
         error: "Failed to generate tool list CSV",
         message: error instanceof Error ? error.message : String(error),
@@ -964,7 +1769,7 @@ if (enableUI) {
   });
 
   // Category overview endpoint
-  app.get("/category", (req, res) => {
+  app.get("/category", requireUser, (req, res) => {
     try {
       // Calculate stats for each category
       const categories = Object.entries(allCategories).map(
@@ -972,9 +1777,11 @@ if (enableUI) {
           name: categoryName,
           displayName:
             categoryName.charAt(0).toUpperCase() + categoryName.slice(1),
-          description: `${categoryName.charAt(0).toUpperCase() + categoryName.slice(1)} category with specific tool access`,
+          description: `${categoryName.charAt(0).toUpperCase() + categoryName.slice(1)} category with specific tool access${getCategoryRequiredRole(categoryName) !== "user" ? ` (requires ${getCategoryRequiredRole(categoryName)} role)` : ""}`,
           tools: filterToolsByCategory(allTools, categoryTools),
           color: getCategoryColor(categoryName),
+          parents: categoryParents[categoryName] || [],
+          inheritedFrom: categoryExpansions[categoryName]?.inheritedFrom || {},
           toolCount: 0, // Will be calculated below
           totalSize: 0, // Will be calculated below
         }),
@@ -1002,7 +1809,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating category overview:", error);
+      uiLog.error("Error generating category overview", { error });
       res.status(500).json({
         error: "Failed to generate category overview",
         message: error instanceof Error ? error.message : String(error),
@@ -1011,7 +1818,7 @@ if (enableUI) {
   });
 
   // Category tools endpoint
-  app.get("/category/:name", (req, res) => {
+  app.get("/category/:name", requireUser, (req, res) => {
     try {
       const categoryName = req.params.name.toLowerCase();
 
@@ -1044,6 +1851,7 @@ if (enableUI) {
         filteredTools,
         totalSize,
         allCategories,
+        rules: categoryExpansions[categoryName]?.rules || [],
       };
 
       // Use the view function to render the HTML
@@ -1052,7 +1860,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating category tool list:", error);
+      uiLog.error("Error generating category tool list", { error });
       res.status(500).json({
         error: "Failed to generate category tool list",
         message: error instanceof Error ? error.message : String(error),
@@ -1061,9 +1869,9 @@ if (enableUI) {
   });
 
   // Logs overview endpoint
-  app.get("/logs", async (req, res) => {
+  app.get("/logs", requireLogsRole, async (req, res) => {
     try {
-      if (!recordApiQueries) {
+      if (!auditStore) {
         return res.status(404).json({
           error: "Logging disabled",
           message:
@@ -1071,66 +1879,46 @@ if (enableUI) {
         });
       }
 
-      // Get all log entries
-      const allEntries = await getAllLogEntries();
-      let lastEntries = allEntries.slice(0, logEntriesSizeLimit);
-
-      // Apply status code filter if provided
+      // Build the audit query from the filters of the URL
+      const filters: AuditQuery = {};
       const statusCodeFilter = req.query.status_code as string;
       if (statusCodeFilter) {
         const filterCode = parseInt(statusCodeFilter, 10);
         if (!isNaN(filterCode)) {
-          lastEntries = lastEntries.filter(
-            (entry) => entry.return_code === filterCode,
-          );
+          filters.returnCode = filterCode;
         }
       }
-
-      // Apply tool filter if provided
       const toolFilter = req.query.tool as string;
       if (toolFilter) {
-        lastEntries = lastEntries.filter(
-          (entry) => entry.toolName === toolFilter,
-        );
+        filters.toolName = toolFilter;
       }
-
-      // Apply user-agent filter if provided
       const userAgentFilter = req.query.user_agent as string;
       if (userAgentFilter) {
-        lastEntries = lastEntries.filter((entry) => {
-          const entryUserAgent = entry.payload?.userAgent || "unknown";
-          return entryUserAgent
-            .toLowerCase()
-            .includes(userAgentFilter.toLowerCase());
-        });
+        filters.userAgent = userAgentFilter;
       }
+      const userFilter = req.query.user as string;
+      if (userFilter) {
+        filters.username = userFilter;
+      }
+      const sessionFilter = req.query.session as string;
+      if (sessionFilter) {
+        filters.sessionId = sessionFilter;
+      }
+      // since and until accept any date understood by Date, e.g. 2025-01-31
+      const parseDateFilter = (value: unknown): string | undefined => {
+        if (typeof value !== "string" || !value) return undefined;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date.toISOString();
+      };
+      filters.since = parseDateFilter(req.query.since);
+      filters.until = parseDateFilter(req.query.until);
 
-      const totalRequests = allEntries.length;
-      const statusCodeSummary = lastEntries.reduce(
-        (acc, entry) => {
-          const code = entry.return_code;
-          acc[code] = (acc[code] || 0) + 1;
-          return acc;
-        },
-        {} as Record<number, number>,
-      );
-
-      const toolSummary = lastEntries.reduce(
-        (acc, entry) => {
-          acc[entry.toolName] = (acc[entry.toolName] || 0) + 1;
-          return acc;
-        },
-        {} as Record<string, number>,
-      );
-
-      const userAgentSummary = lastEntries.reduce(
-        (acc, entry) => {
-          const userAgent = entry.payload?.userAgent || "unknown";
-          acc[userAgent] = (acc[userAgent] || 0) + 1;
-          return acc;
-        },
-        {} as Record<string, number>,
-      );
+      const lastEntries = await auditStore.query({
+        ...filters,
+        limit: logEntriesSizeLimit,
+      });
+      const summary = await auditStore.summarize(filters);
+      const totalRequests = (await auditStore.summarize()).total;
 
       // Transform log entries to match the view interface
       const transformedEntries = lastEntries.map((entry) => ({
@@ -1139,19 +1927,34 @@ if (enableUI) {
         return_code: entry.return_code,
         endpoint: entry.endpoint,
         payload: entry.payload,
-        userAgent: entry.payload?.userAgent || "unknown",
+        userAgent: getLogEntryUserAgent(entry),
+        username: entry.username,
+        sessionId: entry.session_id,
+        category: entry.category,
+        client: entry.client_name
+          ? `${entry.client_name} ${entry.client_version ?? ""}`.trim()
+          : undefined,
       }));
 
       // Prepare data for the view
       const logsData: LogsData = {
         lastEntries: transformedEntries,
         totalRequests,
+        filteredRequests: summary.total,
         statusCodeFilter,
         toolFilter,
         userAgentFilter,
-        statusCodeSummary,
-        toolSummary,
-        userAgentSummary,
+        userFilter,
+        sessionFilter,
+        sinceFilter: filters.since,
+        untilFilter: filters.until,
+        statusCodeSummary: summary.byReturnCode,
+        toolSummary: summary.byTool,
+        userAgentSummary: summary.byUserAgent,
+        userSummary: summary.byUser,
+
+        compaction: auditCompactor?.getReport(),
+
         logEntriesSizeLimit,
       };
 
@@ -1161,7 +1964,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating logs overview:", error);
+      uiLog.error("Error generating logs overview", { error });
       res.status(500).json({
         error: "Failed to generate logs overview",
         message: error instanceof Error ? error.message : String(error),
@@ -1170,7 +1973,7 @@ if (enableUI) {
   });
 
   // Services overview endpoint
-  app.get("/services", (req, res) => {
+  app.get("/services", requireUser, (req, res) => {
     try {
       // Group tools by service
       const serviceGroups = allTools.reduce(
@@ -1213,7 +2016,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating services overview:", error);
+      uiLog.error("Error generating services overview", { error });
       res.status(500).json({
         error: "Failed to generate services overview",
         message: error instanceof Error ? error.message : String(error),
@@ -1221,7 +2024,7 @@ if (enableUI) {
     }
   });
 
-  app.get("/services/:name", (req, res) => {
+  app.get("/services/:name", requireUser, (req, res) => {
     try {
       const serviceName = req.params.name.toLowerCase();
 
@@ -1260,7 +2063,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating service tools list:", error);
+      uiLog.error("Error generating service tools list", { error });
       res.status(500).json({
         error: "Failed to generate service tools list",
         message: error instanceof Error ? error.message : String(error),
@@ -1269,7 +2072,7 @@ if (enableUI) {
   });
 
   // API endpoints overview
-  app.get("/endpoints", (req, res) => {
+  app.get("/endpoints", requireUser, (req, res) => {
     try {
       // Get category filter from query parameter
       const categoryFilter = req.query.category as string | undefined;
@@ -1342,7 +2145,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating endpoints overview:", error);
+      uiLog.error("Error generating endpoints overview", { error });
       res.status(500).json({
         error: "Failed to generate endpoints overview",
         message: error instanceof Error ? error.message : String(error),
@@ -1351,7 +2154,7 @@ if (enableUI) {
   });
 
   // Root endpoint - dashboard
-  app.get("/", async (req, res) => {
+  app.get("/", requireUser, async (req, res) => {
     try {
       // Prepare data for the dashboard view
       const dashboardData: DashboardData = {
@@ -1367,7 +2170,7 @@ if (enableUI) {
       res.setHeader("Content-Type", "text/html");
       res.send(htmlContent);
     } catch (error) {
-      console.error("Error generating dashboard:", error);
+      uiLog.error("Error generating dashboard", { error });
       res.status(500).json({
         error: "Failed to generate dashboard",
         message: error instanceof Error ? error.message : String(error),
@@ -1383,45 +2186,276 @@ app.delete("/mcp", (req, res) => mcpDeleteHandler(req, res));
 
 app.post("/:category/mcp", (req, res) => {
   const category = req.params.category;
-  console.log(`Category-specific POST request for category: ${category}`);
+  sessionsLog.debug("Category-specific POST request", { category });
   return mcpPostHandler(req, res, category);
 });
 
 app.get("/:category/mcp", (req, res) => {
   const category = req.params.category;
-  console.log(`Category-specific GET request for category: ${category}`);
+  sessionsLog.debug("Category-specific GET request", { category });
   return mcpGetHandler(req, res, category);
 });
 
 app.delete("/:category/mcp", (req, res) => {
   const category = req.params.category;
-  console.log(`Category-specific DELETE request for category: ${category}`);
+  sessionsLog.debug("Category-specific DELETE request", { category });
   return mcpDeleteHandler(req, res, category);
 });
 
 app.post("/mcp/:category", (req, res) => {
   const category = req.params.category;
-  console.log(`Category-specific POST request for category: ${category}`);
+  sessionsLog.debug("Category-specific POST request", { category });
   return mcpPostHandler(req, res, category);
 });
 
 app.get("/mcp/:category", (req, res) => {
   const category = req.params.category;
-  console.log(`Category-specific GET request for category: ${category}`);
+  sessionsLog.debug("Category-specific GET request", { category });
   return mcpGetHandler(req, res, category);
 });
 
 app.delete("/mcp/:category", (req, res) => {
   const category = req.params.category;
-  console.log(`Category-specific DELETE request for category: ${category}`);
+  sessionsLog.debug("Category-specific DELETE request", { category });
   return mcpDeleteHandler(req, res, category);
 });
 
+// Report the configuration issues found after tool generation
+const logConfigIssues = (issues: ConfigIssue[]): void => {
+  if (issues.length > 0) {
+    serverLog.warn(
+      `Configuration issues in ${configPath}:\n${formatConfigIssues(issues)}`,
+    );
+  }
+};
+
+interface ReloadResult {
+  tools: number;
+  categories: number;
+  notifiedSessions: string[];
+}
+
+// Get the sorted names of the tools visible by each connected session
+const getVisibleToolNamesBySession = async (): Promise<
+  Record<string, string>
+> => {
+  const visibleTools: Record<string, string> = {};
+  for (const sessionId of Object.keys(servers)) {
+    try {
+      const tools = await getToolsForSession(
+        sessionId,
+        getCategoryOverrideForSession(sessionId),
+      );
+      visibleTools[sessionId] = tools
+        .map((tool) => tool.name)
+        .sort()
+        .join(",");
+    } catch (_error) {
+      visibleTools[sessionId] = "";
+    }
+  }
+  return visibleTools;
+};
+
+// Send tools/list_changed to the sessions whose visible tools differ from
+// toolsBefore, returns the notified sessions
+const notifyToolListChanged = async (
+  toolsBefore: Record<string, string>,
+): Promise<string[]> => {
+  const toolsAfter = await getVisibleToolNamesBySession();
+  const notifiedSessions: string[] = [];
+  for (const [sessionId, toolNames] of Object.entries(toolsAfter)) {
+    if (toolsBefore[sessionId] === toolNames || !servers[sessionId]) {
+      continue;
+    }
+    try {
+      await servers[sessionId].sendToolListChanged();
+      notifiedSessions.push(sessionId);
+    } catch (error) {
+      sessionsLog.error("Failed to send tools/list_changed", {
+        sessionId,
+        error,
+      });
+    }
+  }
+  return notifiedSessions;
+};
+
+// Load the spec of an optional service that failed to load and add its
+// tools, resolves to false while the spec still fails
+const retryServiceLoading = async (service: string): Promise<boolean> => {
+  const serviceConfig = servicesConfig.find((s) => s.name === service);
+  // Removed by a reload
+  if (!serviceConfig) {
+    return true;
+  }
+  // Tried again after the reload, which keeps the retries if it fails
+  if (configReloader.isReloading()) {
+    return false;
+  }
+  const newSpecStatuses: Record<string, SpecStatus> = {};
+  const serviceTools = await generateTools(
+    [serviceConfig],
+    undefined,
+    newSpecStatuses,
+  );
+  // The configuration was reloaded in the meantime
+  if (!servicesConfig.includes(serviceConfig)) {
+    return true;
+  }
+  specStatuses[service] = newSpecStatuses[service] ?? specStatuses[service];
+  if (!newSpecStatuses[service]?.loaded) {
+    return false;
+  }
+
+  const toolsBefore = await getVisibleToolNamesBySession();
+  allTools = [
+    ...allTools.filter((tool) => tool.service !== service),
+    ...serviceTools,
+  ].sort((a, b) => b.size - a.size);
+  const expansion = expandCategoryEntries(
+    categoryEntries,
+    categoryParents,
+    allTools,
+  );
+  categoryExpansions = expansion.expansions;
+  allCategories = expansion.categories;
+  metricsService.setActiveToolCounts(allTools);
+
+  const notifiedSessions = await notifyToolListChanged(toolsBefore);
+  loaderLog.info(
+    `Service ${service} loaded: ${serviceTools.length} tools added, ${notifiedSessions.length} session(s) notified`,
+  );
+  return true;
+};
+
+// Background loading of the optional services whose spec failed to load
+const specRetries = new SpecRetryScheduler({ load: retryServiceLoading });
+
+// Retry the optional services that failed, after the startup or a reload
+const scheduleSpecRetries = (): void => {
+  specRetries.stop();
+  for (const [service, status] of Object.entries(specStatuses)) {
+    if (!status.loaded) {
+      loaderLog.warn(`Optional service ${service} is not available`, {
+        service,
+        error: status.error,
+      });
+      specRetries.schedule(service);
+    }
+  }
+};
+
+// Swap the registry for the one of the reloaded aap-mcp.yaml
+const applyConfigurationReload = async (
+  state: ReloadedState<AapMcpConfig>,
+): Promise<ReloadResult> => {
+  logConfigIssues(
+    validateConfigSemantics(state.config, state.tools, state.disabledToolNames),
+  );
+
+  const toolsBefore = await getVisibleToolNamesBySession();
+
+  // Swap everything at once, requests never see a partially reloaded state
+  localConfig = state.config;
+  categoryEntries = state.categories.tools;
+  categoryExpansions = state.expansions;
+  allCategories = getCategoryToolNames(state.expansions);
+  categoryRequiredRoles = state.categories.requiredRoles;
+  categoryParents = state.categories.parents;
+  servicesConfig = localConfig.services || [];
+  allTools = state.tools;
+  specStatuses = state.specStatuses;
+  redactionRules = state.redactionRules;
+  toolLogger?.configure(localConfig.audit?.responses, redactionRules);
+  rateLimiter.configure(localConfig.rate_limits);
+  upstreamClient.configure(
+    localConfig.upstream,
+    getServiceTimeouts(servicesConfig),
+  );
+  metricsService.setActiveToolCounts(allTools);
+  configureLogging({
+    level: process.env.LOG_LEVEL || localConfig.logging?.level,
+    format: process.env.LOG_FORMAT || localConfig.logging?.format,
+  });
+
+  scheduleSpecRetries();
+
+  // Tell the sessions whose tool list changed
+  const notifiedSessions = await notifyToolListChanged(toolsBefore);
+
+  serverLog.info(
+    `Configuration reloaded: ${allTools.length} tools, ${Object.keys(allCategories).length} categories, ${notifiedSessions.length} session(s) notified`,
+  );
+  return {
+    tools: allTools.length,
+    categories: Object.keys(allCategories).length,
+    notifiedSessions,
+  };
+};
+
+// Re-reads aap-mcp.yaml and regenerates the tools, one reload at a time
+const configReloader = new ConfigReloader<AapMcpConfig, ReloadResult>({
+  loadConfig: () => {
+    serverLog.info(`Reloading configuration from ${configPath}`);
+    return loadConfig();
+  },
+  generateTools,
+  apply: applyConfigurationReload,
+});
+
+const reloadConfiguration = (): Promise<ReloadResult> =>
+  configReloader.reload();
+
+// Configuration reload endpoint (always enabled)
+app.post(
+  "/api/v1/reload",
+  uiAuth.requireRole("superuser"),
+  async (req, res) => {
+    try {
+      const result = await reloadConfiguration();
+      res.json({ status: "ok", ...result });
+    } catch (error) {
+      serverLog.error("Error reloading configuration", { error });
+      res.status(500).json({
+        error: "Failed to reload configuration",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+);
+
 // Health check endpoint (always enabled)
 app.get("/api/v1/health", (req, res) => {
+  res.json({ status: "ok", circuits: upstreamClient.getCircuitStatus() });
+});
+
+// Liveness probe: the process answers
+app.get("/api/v1/health/live", (req, res) => {
   res.json({ status: "ok" });
 });
 
+// Readiness probe: the specs are loaded, there are tools and every service
+// answers its ping endpoint
+app.get("/api/v1/health/ready", async (req, res) => {
+  const report = await checkReadiness({
+    services: Object.keys(specStatuses),
+    specStatuses,
+    tools: allTools,
+    lastSuccessfulCalls: upstreamClient.getLastSuccessfulCalls(),
+    circuits: upstreamClient.getCircuitStatus(),
+    pendingRetries: specRetries.getPending(),
+    probe: (service) =>
+      probeService(
+        CONFIG.BASE_URL,
+        service,
+        READINESS_PROBE_TIMEOUT_MS,
+        (url, init) => tracedFetch(url, init, { service }),
+      ),
+  });
+  res.status(report.status === "ready" ? 200 : 503).json(report);
+});
+
 // Prometheus metrics endpoint (conditional based on config)
 const enableMetrics = getBooleanConfig(
   "ENABLE_METRICS",
@@ -1434,38 +2468,143 @@ if (enableMetrics) {
       const metrics = await metricsService.getMetrics();
       res.send(metrics);
     } catch (error) {
-      console.error("Error generating metrics:", error);
+      uiLog.error("Error generating metrics", { error });
       res.status(500).send("Error generating metrics");
     }
   });
-  console.log(`Prometheus metrics: ENABLED`);
+  serverLog.info(`Prometheus metrics: ENABLED`);
 } else {
-  console.log(`Prometheus metrics: DISABLED`);
+  serverLog.info(`Prometheus metrics: DISABLED`);
 }
 
+// Reload the configuration when aap-mcp.yaml changes (conditional based on config)
+const watchConfig = getBooleanConfig("WATCH_CONFIG", localConfig.watch_config);
+serverLog.info(
+  `Configuration file watcher: ${watchConfig ? "ENABLED" : "DISABLED"}`,
+);
+
 async function main(): Promise<void> {
+  // --migrate-audit-logs: import the JSONL files into the SQLite store and exit
+  if (cliOptions.migrateAuditLogs) {
+    const target = createAuditStore(localConfig.audit);
+    if (!(target instanceof SqliteAuditStore)) {
+      throw new Error(
+        "--migrate-audit-logs needs the sqlite audit backend (audit.backend in aap-mcp.yaml)",
+      );
+    }
+    const result = await migrateJsonlLogs(cliOptions.migrateAuditLogs, target);
+    await target.close();
+    console.log(
+      `Imported ${result.imported} audit entries from ${result.files} file(s) of ${cliOptions.migrateAuditLogs} (${result.skipped} already present)`,
+    );
+    process.exit(0);
+  }
+
+  // --warm-tool-cache: generate the tools of every service, store them in
+  // the tool cache and exit
+  if (cliOptions.warmToolCache) {
+    if (!toolCache) {
+      throw new Error(
+        "--warm-tool-cache needs the tool cache (tool_cache.enabled in aap-mcp.yaml)",
+      );
+    }
+    const warmStatuses: Record<string, SpecStatus> = {};
+    const tools = await generateTools(servicesConfig, [], warmStatuses, true);
+    const failed = Object.entries(warmStatuses).filter(
+      ([, status]) => !status.loaded,
+    );
+    console.log(
+      `Tool cache warmed with ${tools.length} tools of ${Object.keys(warmStatuses).length - failed.length} service(s)`,
+    );
+    for (const [service, status] of failed) {
+      console.log(`${service}: ${status.error}`);
+    }
+    process.exit(failed.length > 0 ? 1 : 0);
+  }
+
   // Initialize tools before starting server
-  console.log("Loading OpenAPI specifications and generating tools...");
-  allTools = await generateTools();
-  allTools.forEach((tool) => {
-    if (tool.deprecated)
-      tool.logs.push({ severity: "INFO", msg: "endpoint is deprecated" });
-    if (tool.name.length > 64) {
-      tool.logs.push({ severity: "ERR", msg: "tool name is too long (64)" });
-    } else if (tool.name.length > 40) {
-      tool.logs.push({ severity: "WARN", msg: "tool name is too long (40)" });
+  loaderLog.info("Loading OpenAPI specifications and generating tools...");
+  const disabledToolNames: string[] = [];
+  allTools = await generateTools(
+    servicesConfig,
+    disabledToolNames,
+    specStatuses,
+  );
+  metricsService.setActiveToolCounts(allTools);
+
+  loaderLog.info(`Successfully loaded ${allTools.length} tools`);
+
+  const expansion = expandCategoryEntries(
+    categoryEntries,
+    categoryParents,
+    allTools,
+  );
+  categoryExpansions = expansion.expansions;
+  allCategories = expansion.categories;
+
+  const configIssues = validateConfigSemantics(
+    localConfig,
+    allTools,
+    disabledToolNames,
+  );
+
+  // --check-config: print the report and exit
+  if (cliOptions.checkConfig) {
+    const errorCount = configIssues.filter(
+      (issue) => issue.severity === "error",
+    ).length;
+    console.log(
+      `Configuration check of ${configPath}: ${errorCount} error(s), ${configIssues.length - errorCount} warning(s)`,
+    );
+    if (configIssues.length > 0) {
+      console.log(formatConfigIssues(configIssues));
     }
-  });
+    process.exit(errorCount > 0 ? 1 : 0);
+  }
+  logConfigIssues(configIssues);
+
+  auditCompactor?.start();
+  scheduleSpecRetries();
+
+  if (watchConfig) {
+    watchConfigFile(configPath, () => {
+      reloadConfiguration().catch((error) => {
+        serverLog.error("Error reloading configuration", { error });
+      });
+    });
+  }
+
+  if (transportMode === "stdio") {
+    const category = cliOptions.category;
+    if (!category || !allCategories[category.toLowerCase()]) {
+      throw new Error(
+        `The stdio transport needs a valid --category (available categories: ${Object.keys(allCategories).join(", ")})`,
+      );
+    }
+    const server = createMcpServer();
+    servers[STDIO_SESSION_ID] = server;
+    metricsService.incrementActiveSessions();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    traceTransport(transport, () => ({
+      "mcp.session.id": STDIO_SESSION_ID,
+      "mcp.category": category,
+    }));
+    serverLog.info(`AAP MCP Server running on stdio (category: ${category})`);
+    return;
+  }
 
-  console.log(`Successfully loaded ${allTools.length} tools`);
   const PORT = process.env.MCP_PORT || 3000;
 
+  // Close the abandoned sessions in the background
+  sessionManager.start();
+
   app.listen(PORT, () => {
-    console.log(`AAP MCP Server running on port ${PORT}`);
-    console.log(`Web UI available at: http://localhost:${PORT}`);
-    console.log(`MCP endpoint available at: http://localhost:${PORT}/mcp`);
+    serverLog.info(`AAP MCP Server running on port ${PORT}`);
+    serverLog.info(`Web UI available at: http://localhost:${PORT}`);
+    serverLog.info(`MCP endpoint available at: http://localhost:${PORT}/mcp`);
     if (enableMetrics) {
-      console.log(
+      serverLog.info(
         `Metrics endpoint available at: http://localhost:${PORT}/metrics`,
       );
     }
@@ -1474,28 +2613,36 @@ async function main(): Promise<void> {
 
 // Graceful shutdown
 process.on("SIGINT", async () => {
-  console.log("Shutting down server...");
+  serverLog.info("Shutting down server...");
 
   // Close all active transports
   for (const sessionId in transports) {
     try {
-      console.log(`Closing transport for session ${sessionId}`);
+      sessionsLog.info("Closing transport", { sessionId });
       await transports[sessionId].close();
       delete transports[sessionId];
-      // Clean up session data
-      if (sessionData[sessionId]) {
-        delete sessionData[sessionId];
-      }
+      delete servers[sessionId];
+      // Clean up session data, the session stays in the store
+      sessionManager.forget(sessionId);
     } catch (error) {
-      console.error(`Error closing transport for session ${sessionId}:`, error);
+      sessionsLog.error("Error closing transport", { sessionId, error });
     }
   }
 
-  console.log("Server shutdown complete");
+  // Flush the pending spans
+  await shutdownTracing();
+
+  await sessionManager.close();
+  auditCompactor?.stop();
+  specRetries.stop();
+  await auditStore?.close();
+
+  serverLog.info("Server shutdown complete");
   process.exit(0);
 });
 
 main().catch((error) => {
-  console.error("Server error:", error);
+  serverLog.error("Server error", { error });
+
   process.exit(1);
 });
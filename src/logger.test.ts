@@ -1,185 +1,172 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { promises as fs } from "fs";
-import { join } from "path";
-
-// Mock the fs module
-vi.mock("fs", () => ({
-  promises: {
-    mkdir: vi.fn(),
-    appendFile: vi.fn(),
-  },
-}));
-
-// Import after mocking
-import { ToolLogger, type Tool } from "./logger";
+import type { AuditEntry, AuditStore } from "./audit-store";
+import { ToolLogger, getLogEntryUserAgent, type Tool } from "./logger";
+import { compileRedactionRules } from "./redaction";
 
 describe("ToolLogger", () => {
+  let appended: AuditEntry[];
+  let store: AuditStore;
   let logger: ToolLogger;
-  const mockLogDir = "test-logs";
+
+  const mockTool: Tool = {
+    name: "test-tool",
+    service: "eda",
+  };
 
   beforeEach(() => {
-    vi.clearAllMocks();
-    logger = new ToolLogger(mockLogDir);
+    appended = [];
+    store = {
+      append: vi.fn(async (entry: AuditEntry) => {
+        appended.push(entry);
+      }),
+      query: vi.fn(),
+      summarize: vi.fn(),
+      getToolStats: vi.fn(),
+      compact: vi.fn(),
+      close: vi.fn(),
+    };
+    logger = new ToolLogger(store);
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
   });
 
-  describe("constructor", () => {
-    it("should create logger with log directory", () => {
-      expect(logger).toBeInstanceOf(ToolLogger);
-    });
-
-    it("should use default logs directory when not specified", () => {
-      const defaultLogger = new ToolLogger();
-      expect(defaultLogger).toBeInstanceOf(ToolLogger);
-    });
-  });
-
   describe("logToolAccess", () => {
-    const mockTool: Tool = {
-      name: "test-tool",
-      service: "eda",
-    };
-
-    const mockPayload = { test: "data" };
-    const mockResponse = { success: true };
-    const mockEndpoint = "/test/endpoint";
-    const mockReturnCode = 200;
-
-    it("should log tool access successfully", async () => {
-      const mockAppendFile = vi.mocked(fs.appendFile);
-      mockAppendFile.mockResolvedValue(undefined);
-
+    it("should append the call and its context to the audit store", async () => {
       await logger.logToolAccess(
         mockTool,
-        mockEndpoint,
-        mockPayload,
-        mockResponse,
-        mockReturnCode,
+        "/test/endpoint",
+        { test: "data" },
+        { success: true },
+        200,
+        {
+          sessionId: "session-1",
+          userAgent: "claude-code/1.0",
+          category: "job_management",
+          username: "ada",
+          userId: 7,
+          clientName: "claude-code",
+          clientVersion: "1.0",
+          arguments: { id: 42 },
+        },
       );
 
-      expect(mockAppendFile).toHaveBeenCalledWith(
-        join(mockLogDir, `${mockTool.name}.jsonl`),
-        expect.stringContaining('"endpoint":"/test/endpoint"'),
-      );
-      expect(mockAppendFile).toHaveBeenCalledWith(
-        join(mockLogDir, `${mockTool.name}.jsonl`),
-        expect.stringContaining('"return_code":200'),
+      expect(appended).toHaveLength(1);
+      expect(appended[0]).toMatchObject({
+        toolName: "test-tool",
+        endpoint: "/test/endpoint",
+        payload: { test: "data" },
+        response: { success: true },
+        return_code: 200,
+        session_id: "session-1",
+        user_agent: "claude-code/1.0",
+        category: "job_management",
+        username: "ada",
+        user_id: 7,
+        client_name: "claude-code",
+        client_version: "1.0",
+        arguments: { id: 42 },
+      });
+      expect(new Date(appended[0].timestamp).toISOString()).toBe(
+        appended[0].timestamp,
       );
     });
 
-    it("should include timestamp in log entry", async () => {
-      const mockAppendFile = vi.mocked(fs.appendFile);
-      mockAppendFile.mockResolvedValue(undefined);
+    it("should store the responses as configured", async () => {
+      logger = new ToolLogger(store, { mode: "truncate", max_characters: 10 });
 
       await logger.logToolAccess(
         mockTool,
-        mockEndpoint,
-        mockPayload,
-        mockResponse,
-        mockReturnCode,
+        "/test/endpoint",
+        {},
+        { results: [1, 2, 3] },
+        200,
       );
 
-      const logContent = mockAppendFile.mock.calls[0][1] as string;
-      const logEntry = JSON.parse(logContent.trim());
-
-      expect(logEntry).toHaveProperty("timestamp");
-      expect(new Date(logEntry.timestamp)).toBeInstanceOf(Date);
+      expect(appended[0].response).toEqual({
+        truncated: true,
+        length: 19,
+        preview: '{"results"',
+      });
     });
 
-    it("should handle logging errors gracefully", async () => {
-      const mockAppendFile = vi.mocked(fs.appendFile);
-      const consoleSpy = vi
-        .spyOn(console, "error")
-        .mockImplementation(() => {});
-
-      mockAppendFile.mockRejectedValue(new Error("Write failed"));
-
+    it("should mask the secrets of the arguments and the response", async () => {
       await logger.logToolAccess(
-        mockTool,
-        mockEndpoint,
-        mockPayload,
-        mockResponse,
-        mockReturnCode,
+        { ...mockTool, secretFields: ["webhook_key"] },
+        "/test/endpoint",
+        {},
+        { id: 1, webhook_key: "abc", ssh_key_data: "$encrypted$" },
+        201,
+        { arguments: { requestBody: { name: "cred", password: "hunter2" } } },
       );
 
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Failed to write to log file"),
-        expect.any(Error),
-      );
+      expect(appended[0].response).toEqual({
+        id: 1,
+        webhook_key: "[REDACTED]",
+        ssh_key_data: "[REDACTED]",
+      });
+      expect(appended[0].arguments).toEqual({
+        requestBody: { name: "cred", password: "[REDACTED]" },
+      });
     });
 
-    it("should create correct log file path", async () => {
-      const mockAppendFile = vi.mocked(fs.appendFile);
-      mockAppendFile.mockResolvedValue(undefined);
-
-      await logger.logToolAccess(
-        mockTool,
-        mockEndpoint,
-        mockPayload,
-        mockResponse,
-        mockReturnCode,
+    it("should apply the reloaded redaction rules", async () => {
+      logger.configure(
+        { mode: "full" },
+        compileRedactionRules({ fields: ["api_secret"] }),
       );
 
-      expect(mockAppendFile).toHaveBeenCalledWith(
-        join(mockLogDir, `${mockTool.name}.jsonl`),
-        expect.any(String),
-      );
-    });
-
-    it("should log all provided data", async () => {
-      const mockAppendFile = vi.mocked(fs.appendFile);
-      mockAppendFile.mockResolvedValue(undefined);
-
       await logger.logToolAccess(
         mockTool,
-        mockEndpoint,
-        mockPayload,
-        mockResponse,
-        mockReturnCode,
+        "/test/endpoint",
+        {},
+        { id: 1, api_secret: "abc" },
+        200,
       );
 
-      const logContent = mockAppendFile.mock.calls[0][1] as string;
-      const logEntry = JSON.parse(logContent.trim());
-
-      expect(logEntry).toMatchObject({
-        endpoint: mockEndpoint,
-        payload: mockPayload,
-        response: mockResponse,
-        return_code: mockReturnCode,
-      });
+      expect(appended[0].response).toEqual({ id: 1, api_secret: "[REDACTED]" });
     });
-  });
-
-  describe("ensureLogDir", () => {
-    it("should create log directory on initialization", async () => {
-      const mockMkdir = vi.mocked(fs.mkdir);
-      mockMkdir.mockResolvedValue(undefined);
 
-      new ToolLogger(mockLogDir);
-
-      expect(mockMkdir).toHaveBeenCalledWith(mockLogDir, { recursive: true });
-    });
-
-    it("should handle directory creation errors gracefully", async () => {
-      const mockMkdir = vi.mocked(fs.mkdir);
+    it("should log the store errors without throwing", async () => {
       const consoleSpy = vi
         .spyOn(console, "error")
         .mockImplementation(() => {});
+      vi.mocked(store.append).mockRejectedValue(new Error("disk full"));
 
-      mockMkdir.mockRejectedValue(new Error("Permission denied"));
-
-      const _logger = new ToolLogger(mockLogDir);
-
-      // Wait for the async ensureLogDir to complete
-      await new Promise((resolve) => setTimeout(resolve, 10));
+      await expect(
+        logger.logToolAccess(mockTool, "/test/endpoint", {}, {}, 500),
+      ).resolves.toBeUndefined();
 
       expect(consoleSpy).toHaveBeenCalledWith(
-        "Failed to create log directory:",
-        expect.any(Error),
+        expect.stringContaining("Failed to record the call of test-tool"),
       );
     });
   });
+
+  describe("getLogEntryUserAgent", () => {
+    const entry = {
+      timestamp: "2025-01-01T00:00:00.000Z",
+      endpoint: "/api",
+      response: null,
+      return_code: 200,
+    };
+
+    it("should prefer the user_agent field", () => {
+      expect(
+        getLogEntryUserAgent({
+          ...entry,
+          user_agent: "new",
+          payload: { userAgent: "old" },
+        }),
+      ).toBe("new");
+    });
+
+    it("should fall back to the payload of older entries", () => {
+      expect(
+        getLogEntryUserAgent({ ...entry, payload: { userAgent: "old" } }),
+      ).toBe("old");
+      expect(getLogEntryUserAgent({ ...entry, payload: {} })).toBe("unknown");
+    });
+  });
 });
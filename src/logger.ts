@@ -1,6 +1,16 @@
-import { promises as fs } from "fs";
-import { join } from "path";
-import { metricsService } from "./metrics.js";
+import {
+  storedResponse,
+  type AuditResponsesConfig,
+} from "./audit-retention.js";
+import type { AuditStore } from "./audit-store.js";
+import { createLogger } from "./logging.js";
+import {
+  compileRedactionRules,
+  redactSecrets,
+  type RedactionRules,
+} from "./redaction.js";
+
+const log = createLogger("audit");
 
 export interface LogEntry {
   timestamp: string;
@@ -8,29 +18,75 @@ export interface LogEntry {
   payload: any;
   response: any;
   return_code: number;
+  session_id?: string;
+  user_agent?: string;
+  // Category of the MCP endpoint used by the session
+  category?: string;
+  // AAP account of the token, from /api/gateway/v1/me/
+  username?: string;
+  user_id?: number;
+  // MCP client, from the initialize request
+  client_name?: string;
+  client_version?: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Who made a tool call, recorded with it
+ */
+export interface AuditContext {
+  sessionId?: string;
+  userAgent?: string;
+  category?: string;
+  username?: string;
+  userId?: number;
+  clientName?: string;
+  clientVersion?: string;
+  arguments?: Record<string, unknown>;
 }
 
 export interface Tool {
   name: string;
   service?: string;
   category?: string;
+  secretFields?: string[];
   [key: string]: any;
 }
 
+/**
+ * User agent of an entry. Older entries only have it in the payload.
+ */
+export const getLogEntryUserAgent = (entry: LogEntry): string => {
+  return entry.user_agent || entry.payload?.userAgent || "unknown";
+};
+
+/**
+ * Records the tool calls in the audit store, with the secrets of the
+ * arguments and responses masked and the responses reduced as configured
+ */
 export class ToolLogger {
-  private logDir: string;
+  private readonly store: AuditStore;
+  private responses: AuditResponsesConfig = {};
+  private redaction: RedactionRules = compileRedactionRules();
 
-  constructor(logDir: string = "logs") {
-    this.logDir = logDir;
-    this.ensureLogDir();
+  constructor(
+    store: AuditStore,
+    responses?: AuditResponsesConfig,
+    redaction?: RedactionRules,
+  ) {
+    this.store = store;
+    this.configure(responses, redaction);
   }
 
-  private async ensureLogDir(): Promise<void> {
-    try {
-      await fs.mkdir(this.logDir, { recursive: true });
-    } catch (error) {
-      console.error("Failed to create log directory:", error);
-    }
+  /**
+   * Applies a reloaded configuration to the next recorded calls
+   */
+  configure(
+    responses: AuditResponsesConfig = {},
+    redaction: RedactionRules = compileRedactionRules(),
+  ): void {
+    this.responses = responses;
+    this.redaction = redaction;
   }
 
   async logToolAccess(
@@ -39,45 +95,38 @@ export class ToolLogger {
     payload: any,
     response: any,
     returnCode: number,
-    startTime?: number,
-    _sessionId?: string,
-    _userAgent?: string,
+    context: AuditContext = {},
   ): Promise<void> {
-    const logEntry: LogEntry = {
-      timestamp: new Date().toISOString(),
-      endpoint,
-      payload,
-      response,
-      return_code: returnCode,
-    };
-
-    const logFile = join(this.logDir, `${tool.name}.jsonl`);
-
     try {
-      await fs.appendFile(logFile, JSON.stringify(logEntry) + "\n");
-    } catch (error) {
-      console.error(`Failed to write to log file ${logFile}:`, error);
-    }
-    // Record metrics
-    const duration = startTime ? (Date.now() - startTime) / 1000 : 0;
-    const status = returnCode >= 200 && returnCode < 400 ? "success" : "error";
-    const service = tool.service || "unknown";
-    const category = tool.category || "uncategorized";
-
-    // Prometheus metrics
-    metricsService.recordToolExecution(
-      tool.name,
-      service,
-      category,
-      status,
-      duration,
-    );
-    metricsService.recordApiCall(service, endpoint, "POST", returnCode);
+      await this.store.append({
+        toolName: tool.name,
+        timestamp: new Date().toISOString(),
+        endpoint,
+        payload,
+        response: storedResponse(
+          redactSecrets(response, this.redaction, tool.secretFields),
+          this.responses,
+        ),
+        return_code: returnCode,
 
-    if (status === "error") {
-      const errorType =
-        returnCode >= 400 && returnCode < 500 ? "client_error" : "server_error";
-      metricsService.recordToolError(tool.name, service, category, errorType);
+        session_id: context.sessionId,
+        user_agent: context.userAgent,
+        category: context.category,
+        username: context.username,
+        user_id: context.userId,
+        client_name: context.clientName,
+        client_version: context.clientVersion,
+        arguments: context.arguments
+          ? (redactSecrets(
+              context.arguments,
+              this.redaction,
+              tool.secretFields,
+            ) as Record<string, unknown>)
+          : undefined,
+      });
+    } catch (error) {
+      // A failing audit store must not fail the tool call
+      log.error(`Failed to record the call of ${tool.name}`, { error });
     }
   }
 }
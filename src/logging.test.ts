@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import {
+  configureLogging,
+  createLogger,
+  redactLogValue,
+  requestContextMiddleware,
+  runWithLogContext,
+} from "./logging";
+
+describe("Logging", () => {
+  let logSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  // Records written by the loggers, parsed from the JSON lines
+  const writtenRecords = () =>
+    [...logSpy.mock.calls, ...errorSpy.mock.calls].map(([line]) =>
+      JSON.parse(line as string),
+    );
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    configureLogging({ level: "info", format: "json" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    configureLogging({});
+  });
+
+  describe("configureLogging", () => {
+    it("should filter the records below the level", () => {
+      const log = createLogger("loader");
+
+      log.debug("hidden");
+      log.info("shown");
+      configureLogging({ level: "ERROR", format: "json" });
+      log.info("hidden too");
+      log.error("failed");
+
+      expect(writtenRecords().map((record) => record.message)).toEqual([
+        "shown",
+        "failed",
+      ]);
+    });
+
+    it("should reject unknown levels and formats", () => {
+      expect(() => configureLogging({ level: "verbose" })).toThrow(
+        "Invalid log level 'verbose' (expected one of: debug, info, warn, error)",
+      );
+      expect(() => configureLogging({ format: "xml" })).toThrow(
+        "Invalid log format 'xml'",
+      );
+    });
+  });
+
+  describe("createLogger", () => {
+    it("should write JSON records with the module and the fields", () => {
+      createLogger("sessions").info("Session initialized", {
+        sessionId: "abc",
+        category: "job_management",
+      });
+
+      const [record] = writtenRecords();
+      expect(record).toMatchObject({
+        level: "info",
+        module: "sessions",
+        message: "Session initialized",
+        sessionId: "abc",
+        category: "job_management",
+      });
+      expect(new Date(record.time).toISOString()).toBe(record.time);
+    });
+
+    it("should write pretty lines with the error stack", () => {
+      configureLogging({ format: "pretty" });
+      const error = new Error("connection refused");
+
+      createLogger("executor").error("Tool failed", { tool: "t", error });
+
+      const [line] = errorSpy.mock.calls[0] as string[];
+      const [first, ...stack] = line.split("\n");
+      expect(first).toMatch(
+        /^\d{4}-\d\d-\d\dT\S+ ERROR \[executor\] Tool failed tool=t$/,
+      );
+      expect(stack[0]).toBe("Error: connection refused");
+    });
+
+    it("should add the correlation ids of the context", async () => {
+      const log = createLogger("executor");
+
+      await runWithLogContext({ requestId: "r1" }, async () => {
+        await runWithLogContext({ sessionId: "s1" }, async () => {
+          await Promise.resolve();
+          log.info("in context");
+        });
+      });
+      log.info("out of context");
+
+      const [inside, outside] = writtenRecords();
+      expect(inside).toMatchObject({ requestId: "r1", sessionId: "s1" });
+      expect(outside).not.toHaveProperty("requestId");
+    });
+  });
+
+  describe("redactLogValue", () => {
+    it("should mask sensitive fields and bearer tokens", () => {
+      expect(
+        redactLogValue({
+          headers: { Authorization: "Bearer abc", Accept: "application/json" },
+          body: { username: "ada", password: "secret", ssh_key_data: "key" },
+          message: "sent Bearer abc.def-ghi to AAP, not the Bearer token",
+          items: [{ api_key: "k" }],
+        }),
+      ).toEqual({
+        headers: { Authorization: "[REDACTED]", Accept: "application/json" },
+        body: {
+          username: "ada",
+          password: "[REDACTED]",
+          ssh_key_data: "[REDACTED]",
+        },
+        message: "sent Bearer [REDACTED] to AAP, not the Bearer token",
+        items: [{ api_key: "[REDACTED]" }],
+      });
+    });
+
+    it("should serialize errors", () => {
+      const redacted = redactLogValue(
+        new TypeError("bad token Bearer xyz123456"),
+      );
+
+      expect(redacted).toMatchObject({
+        name: "TypeError",
+        message: "bad token Bearer [REDACTED]",
+      });
+    });
+  });
+
+  describe("requestContextMiddleware", () => {
+    const runMiddleware = (headers: Record<string, string>) => {
+      const res = Object.assign(new EventEmitter(), {
+        headers: {} as Record<string, string>,
+        setHeader(name: string, value: string) {
+          this.headers[name] = value;
+        },
+      });
+      requestContextMiddleware()({ headers } as any, res as any, () => {
+        createLogger("ui").info("handled");
+      });
+      return res.headers["X-Request-Id"];
+    };
+
+    it("should reuse a well formed X-Request-Id and the session id", () => {
+      const requestId = runMiddleware({
+        "x-request-id": "req-42",
+        "mcp-session-id": "session-1",
+      });
+
+      expect(requestId).toBe("req-42");
+      expect(writtenRecords()[0]).toMatchObject({
+        requestId: "req-42",
+        sessionId: "session-1",
+      });
+    });
+
+    it("should generate a request id otherwise", () => {
+      const requestId = runMiddleware({ "x-request-id": "bad id\nforged" });
+
+      expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(writtenRecords()[0].requestId).toBe(requestId);
+    });
+  });
+});
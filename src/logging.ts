@@ -0,0 +1,213 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type { RequestHandler } from "express";
+
+/**
+ * Application logging: level-filtered, JSON or pretty output, one logger
+ * per module, correlation ids taken from the request being handled and
+ * redaction of the credentials found in the logged fields.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export type LogFormat = "json" | "pretty";
+
+export const LOG_FORMATS: LogFormat[] = ["json", "pretty"];
+
+/**
+ * logging section of aap-mcp.yaml
+ */
+export interface LoggingConfig {
+  level?: LogLevel;
+  format?: LogFormat;
+}
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+}
+
+/**
+ * Correlation ids added to every record logged while handling a request
+ */
+export interface LogContext {
+  requestId?: string;
+  sessionId?: string;
+}
+
+export const REDACTED = "[REDACTED]";
+
+// Field names whose values are never logged, matched case-insensitively
+const SENSITIVE_KEY =
+  /authorization|cookie|password|passwd|secret|token|api[-_]?key|ssh_key_data/i;
+
+// Shorter words are prose ("Bearer token"), not credentials
+const BEARER_TOKEN = /Bearer\s+[\w\-.~+/]{8,}=*/g;
+
+const settings: Required<LoggingConfig> = { level: "info", format: "pretty" };
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+export const isLogLevel = (value: unknown): value is LogLevel =>
+  LOG_LEVELS.includes(value as LogLevel);
+
+export const isLogFormat = (value: unknown): value is LogFormat =>
+  LOG_FORMATS.includes(value as LogFormat);
+
+/**
+ * Sets the minimum level and the output format of every logger. Throws on
+ * unknown values, which may come from the environment.
+ */
+export const configureLogging = (config: {
+  level?: string;
+  format?: string;
+}): void => {
+  const level = config.level?.toLowerCase() ?? "info";
+  const format = config.format?.toLowerCase() ?? "pretty";
+  if (!isLogLevel(level)) {
+    throw new Error(
+      `Invalid log level '${config.level}' (expected one of: ${LOG_LEVELS.join(", ")})`,
+    );
+  }
+  if (!isLogFormat(format)) {
+    throw new Error(
+      `Invalid log format '${config.format}' (expected one of: ${LOG_FORMATS.join(", ")})`,
+    );
+  }
+  settings.level = level;
+  settings.format = format;
+};
+
+/**
+ * Runs fn with correlation ids attached to the records it logs, including
+ * from the asynchronous work it starts
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T => {
+  return logContext.run({ ...logContext.getStore(), ...context }, fn);
+};
+
+/**
+ * Express middleware giving each HTTP request a request id (the
+ * X-Request-Id header when it is well formed) and the MCP session id
+ */
+export const requestContextMiddleware = (): RequestHandler => {
+  return (req, res, next) => {
+    const header = req.headers["x-request-id"];
+    const requestId =
+      typeof header === "string" && /^[\w.-]{1,128}$/.test(header)
+        ? header
+        : randomUUID();
+    const sessionId = req.headers["mcp-session-id"];
+    res.setHeader("X-Request-Id", requestId);
+    runWithLogContext(
+      {
+        requestId,
+        sessionId: typeof sessionId === "string" ? sessionId : undefined,
+      },
+      next,
+    );
+  };
+};
+
+/**
+ * Masks the values of sensitive fields and the bearer tokens found in
+ * strings. Errors are turned into plain objects.
+ */
+export const redactLogValue = (value: unknown, depth: number = 0): unknown => {
+  if (typeof value === "string") {
+    return value.replace(BEARER_TOKEN, `Bearer ${REDACTED}`);
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactLogValue(value.message),
+      stack: value.stack ? redactLogValue(value.stack) : undefined,
+    };
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  // Deeply nested values are not worth logging
+  if (depth >= 8) {
+    return "[Object]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactLogValue(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redactLogValue(item, depth + 1),
+    ]),
+  );
+};
+
+const formatPretty = (record: LogFields): string => {
+  const { time, level, module, message, ...fields } = record;
+  // The stack of an error goes on the next lines
+  const stack = (fields.error as { stack?: unknown } | undefined)?.stack;
+  if (typeof stack === "string") {
+    delete fields.error;
+  }
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`,
+    );
+  const line = [
+    time,
+    String(level).toUpperCase().padEnd(5),
+    `[${module}]`,
+    message,
+    ...details,
+  ].join(" ");
+  return typeof stack === "string" ? `${line}\n${stack}` : line;
+};
+
+const write = (
+  module: string,
+  level: LogLevel,
+  message: string,
+  fields?: LogFields,
+): void => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+    return;
+  }
+
+  const record = redactLogValue({
+    time: new Date().toISOString(),
+    level,
+    module,
+    message,
+    ...logContext.getStore(),
+    ...fields,
+  }) as LogFields;
+  const line =
+    settings.format === "json" ? JSON.stringify(record) : formatPretty(record);
+
+  // Through console, so that the stdio transport can send it to stderr
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+};
+
+/**
+ * Creates the logger of a module (loader, sessions, executor, ui...)
+ */
+export const createLogger = (module: string): Logger => ({
+  debug: (message, fields) => write(module, "debug", message, fields),
+  info: (message, fields) => write(module, "info", message, fields),
+  warn: (message, fields) => write(module, "warn", message, fields),
+  error: (message, fields) => write(module, "error", message, fields),
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "events";
+import { metricsService } from "./metrics";
+
+// Find the value of a sample in the Prometheus text format
+const getSample = async (
+  name: string,
+  labels: string,
+): Promise<number | undefined> => {
+  const metrics = await metricsService.getMetrics();
+  const line = metrics
+    .split("\n")
+    .find((candidate) => candidate.startsWith(`${name}{${labels}}`));
+  return line ? Number(line.split(" ").pop()) : undefined;
+};
+
+describe("MetricsService", () => {
+  describe("httpMiddleware", () => {
+    it("should record the route pattern of finished requests", async () => {
+      const middleware = metricsService.httpMiddleware();
+      const req = {
+        method: "GET",
+        baseUrl: "",
+        route: { path: "/tools/:name" },
+      };
+      const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+      let nextCalled = false;
+
+      middleware(req as any, res as any, () => {
+        nextCalled = true;
+      });
+      res.emit("finish");
+
+      expect(nextCalled).toBe(true);
+      expect(
+        await getSample(
+          "http_requests_total",
+          'method="GET",route="/tools/:name",status_code="200"',
+        ),
+      ).toBe(1);
+    });
+
+    it("should not use the path of unmatched requests", async () => {
+      const middleware = metricsService.httpMiddleware();
+      const res = Object.assign(new EventEmitter(), { statusCode: 404 });
+
+      middleware({ method: "GET", baseUrl: "" } as any, res as any, () => {});
+      res.emit("finish");
+
+      expect(
+        await getSample(
+          "http_requests_total",
+          'method="GET",route="unmatched",status_code="404"',
+        ),
+      ).toBe(1);
+    });
+  });
+
+  describe("setActiveToolCounts", () => {
+    it("should replace the counts of every service", async () => {
+      metricsService.setActiveToolCounts([
+        { service: "controller" },
+        { service: "controller" },
+        { service: "eda" },
+      ]);
+      metricsService.setActiveToolCounts([{ service: "controller" }]);
+
+      expect(await getSample("mcp_active_tools", 'service="controller"')).toBe(
+        1,
+      );
+      expect(
+        await getSample("mcp_active_tools", 'service="eda"'),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("recordApiCall", () => {
+    it("should record the method and the latency", async () => {
+      metricsService.recordApiCall(
+        "gateway",
+        "/api/gateway/v1/users/{id}/",
+        "DELETE",
+        204,
+        0.2,
+      );
+
+      expect(
+        await getSample(
+          "mcp_api_calls_total",
+          'service="gateway",endpoint="/api/gateway/v1/users/{id}/",method="DELETE",status_code="204"',
+        ),
+      ).toBe(1);
+      expect(
+        await getSample(
+          "mcp_api_call_duration_seconds_count",
+          'service="gateway",method="DELETE",status_code="204"',
+        ),
+      ).toBe(1);
+    });
+  });
+});
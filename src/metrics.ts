@@ -5,6 +5,7 @@ import {
   Histogram,
   Gauge,
 } from "prom-client";
+import type { RequestHandler } from "express";
 
 export class MetricsService {
   public readonly httpRequestsTotal: Counter<string>;
@@ -14,7 +15,12 @@ export class MetricsService {
   public readonly mcpToolErrors: Counter<string>;
   public readonly mcpActiveTools: Gauge<string>;
   public readonly mcpActiveSessions: Gauge<string>;
+  public readonly mcpSessionsEndedTotal: Counter<string>;
+  public readonly mcpSessionsRejectedTotal: Counter<string>;
+  public readonly mcpToolCallsLimitedTotal: Counter<string>;
+  public readonly mcpToolCallsInFlight: Gauge<string>;
   public readonly mcpApiCallsTotal: Counter<string>;
+  public readonly mcpApiCallDuration: Histogram<string>;
 
   constructor() {
     // Enable default metrics collection (CPU, memory, GC, etc.)
@@ -72,12 +78,69 @@ export class MetricsService {
       registers: [register],
     });
 
+    this.mcpSessionsEndedTotal = new Counter({
+      name: "mcp_sessions_ended_total",
+      help: "Total number of MCP sessions closed by the server",
+      labelNames: ["reason"],
+      registers: [register],
+    });
+
+    this.mcpSessionsRejectedTotal = new Counter({
+      name: "mcp_sessions_rejected_total",
+      help: "Total number of MCP sessions refused because of a session limit",
+      labelNames: ["limit"],
+      registers: [register],
+    });
+
+    this.mcpToolCallsLimitedTotal = new Counter({
+      name: "mcp_tool_calls_limited_total",
+      help: "Total number of MCP tool calls refused by a rate limit or the concurrency cap",
+      labelNames: ["tool_name", "scope", "limit_class"],
+      registers: [register],
+    });
+
+    this.mcpToolCallsInFlight = new Gauge({
+      name: "mcp_tool_calls_in_flight",
+      help: "Number of MCP tool calls in progress",
+      registers: [register],
+    });
+
     this.mcpApiCallsTotal = new Counter({
       name: "mcp_api_calls_total",
       help: "Total number of AAP API calls made by tools",
       labelNames: ["service", "endpoint", "method", "status_code"],
       registers: [register],
     });
+
+    // Latency of AAP alone, the tool execution duration also covers the
+    // MCP handling and the response shaping
+    this.mcpApiCallDuration = new Histogram({
+      name: "mcp_api_call_duration_seconds",
+      help: "Duration of the AAP API calls made by tools in seconds",
+      labelNames: ["service", "method", "status_code"],
+      buckets: [0.01, 0.05, 0.1, 0.5, 1, 2, 5, 10, 30],
+      registers: [register],
+    });
+  }
+
+  /**
+   * Express middleware recording the count and duration of the HTTP
+   * requests. The route pattern is used as label (e.g. /tools/:name) to
+   * keep the cardinality low.
+   */
+  httpMiddleware(): RequestHandler {
+    return (req, res, next) => {
+      const startTime = process.hrtime.bigint();
+      res.on("finish", () => {
+        const duration =
+          Number(process.hrtime.bigint() - startTime) / 1_000_000_000;
+        const route = req.route
+          ? `${req.baseUrl}${req.route.path}`
+          : "unmatched";
+        this.recordHttpRequest(req.method, route, res.statusCode, duration);
+      });
+      next();
+    };
   }
 
   recordHttpRequest(
@@ -120,6 +183,22 @@ export class MetricsService {
     this.mcpActiveTools.labels(service).set(count);
   }
 
+  /**
+   * Replaces the tool counts of every service, services missing from
+   * tools are dropped
+   */
+  setActiveToolCounts(tools: { service?: string }[]): void {
+    const counts: Record<string, number> = {};
+    for (const tool of tools) {
+      const service = tool.service || "unknown";
+      counts[service] = (counts[service] || 0) + 1;
+    }
+    this.mcpActiveTools.reset();
+    for (const [service, count] of Object.entries(counts)) {
+      this.setActiveTools(service, count);
+    }
+  }
+
   incrementActiveSessions(): void {
     this.mcpActiveSessions.inc();
   }
@@ -128,15 +207,45 @@ export class MetricsService {
     this.mcpActiveSessions.dec();
   }
 
+  recordSessionEnded(reason: string): void {
+    this.mcpSessionsEndedTotal.labels(reason).inc();
+  }
+
+  recordSessionRejected(limit: string): void {
+    this.mcpSessionsRejectedTotal.labels(limit).inc();
+  }
+
+  recordToolCallLimited(
+    toolName: string,
+    scope: string,
+    limitClass: string,
+  ): void {
+    this.mcpToolCallsLimitedTotal.labels(toolName, scope, limitClass).inc();
+  }
+
+  incrementToolCallsInFlight(): void {
+    this.mcpToolCallsInFlight.inc();
+  }
+
+  decrementToolCallsInFlight(): void {
+    this.mcpToolCallsInFlight.dec();
+  }
+
   recordApiCall(
     service: string,
     endpoint: string,
     method: string,
     statusCode: number,
+    duration?: number,
   ): void {
     this.mcpApiCallsTotal
       .labels(service, endpoint, method, statusCode.toString())
       .inc();
+    if (duration !== undefined) {
+      this.mcpApiCallDuration
+        .labels(service, method, statusCode.toString())
+        .observe(duration);
+    }
   }
 
   getMetrics(): Promise<string> {
@@ -386,9 +386,9 @@ describe("OpenAPI Loader", () => {
 
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining("Error loading OpenAPI spec"),
-        expect.any(Error),
       );
       expect(result.spec).toBeUndefined();
+      expect(result.error).toBe("HTTP 404: Not Found");
     });
 
     it("should handle file read errors gracefully", async () => {
@@ -412,7 +412,6 @@ describe("OpenAPI Loader", () => {
 
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining("Error loading OpenAPI spec"),
-        expect.any(Error),
       );
       expect(result.spec).toBeUndefined();
     });
@@ -1,5 +1,10 @@
 import { readFileSync } from "fs";
 import type { McpToolDefinition } from "openapi-mcp-generator";
+import { tracedFetch } from "./tracing.js";
+import { createLogger } from "./logging.js";
+import type { UpstreamFetch } from "./upstream.js";
+
+const log = createLogger("loader");
 
 // TypeScript interfaces for OpenAPI specification
 export interface OpenApiInfo {
@@ -97,10 +102,12 @@ export interface McpToolLogEntry {
 
 export interface AAPMcpToolDefinition extends McpToolDefinition {
   deprecated: boolean;
+  tags?: string[];
   service?: string;
   originalDescription?: string;
   logs: McpToolLogEntry[];
   size: number;
+  secretFields?: string[];
 }
 
 export interface OpenApiSpecEntry {
@@ -109,6 +116,8 @@ export interface OpenApiSpecEntry {
   reformatFunc: (tool: AAPMcpToolDefinition) => AAPMcpToolDefinition | false;
   spec?: OpenApiSpec;
   service?: string;
+  // Why the spec could not be loaded
+  error?: string;
 }
 
 export interface ServiceConfig {
@@ -116,6 +125,10 @@ export interface ServiceConfig {
   url?: string;
   local_path?: string;
   enabled?: boolean;
+  // Whether the server needs the service to start, defaults to false
+  required?: boolean;
+  // Timeout of the requests to the service, overrides upstream.timeout_seconds
+  timeout_seconds?: number;
 }
 
 export interface DefaultServiceConfig {
@@ -293,42 +306,47 @@ export const buildSpecEntries = (
 };
 
 /**
- * Loads a single OpenAPI spec from URL or local file
+ * Loads a single OpenAPI spec from URL or local file. fetchSpec sends the
+ * request, e.g. through the upstream client with its timeout and retries.
  */
 export const loadSingleSpec = async (
   specEntry: OpenApiSpecEntry,
+  fetchSpec: UpstreamFetch = tracedFetch,
 ): Promise<OpenApiSpecEntry> => {
   try {
     // If local_path is set, use it directly instead of fetching from URL
     if (specEntry.localPath) {
-      console.log(
-        `Loading OpenAPI spec from local file: ${specEntry.localPath}`,
-      );
+      log.info(`Loading OpenAPI spec from local file: ${specEntry.localPath}`);
       const localContent = readFileSync(specEntry.localPath, "utf8");
       specEntry.spec = JSON.parse(localContent);
-      console.log(
+      log.info(
         `Successfully loaded OpenAPI spec from local file: ${specEntry.localPath}`,
       );
     } else {
-      console.log(`Fetching OpenAPI spec from: ${specEntry.url}`);
-      const response = await fetch(specEntry.url, {
-        headers: {
-          Accept: "application/json",
+      log.info(`Fetching OpenAPI spec from: ${specEntry.url}`);
+      const response = await fetchSpec(
+        specEntry.url,
+        {
+          headers: {
+            Accept: "application/json",
+          },
         },
-      });
+        { service: specEntry.service },
+      );
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       specEntry.spec = (await response.json()) as OpenApiSpec;
-      console.log(`Successfully loaded OpenAPI spec from: ${specEntry.url}`);
+      log.info(`Successfully loaded OpenAPI spec from: ${specEntry.url}`);
     }
   } catch (error) {
-    console.error(
-      `Error loading OpenAPI spec from ${specEntry.localPath ? specEntry.localPath : specEntry.url}:`,
-      error,
+    log.error(
+      `Error loading OpenAPI spec from ${specEntry.localPath ? specEntry.localPath : specEntry.url}`,
+      { service: specEntry.service, error },
     );
+    specEntry.error = error instanceof Error ? error.message : String(error);
     // Continue with other specs even if this one fails
   }
 
@@ -341,6 +359,7 @@ export const loadSingleSpec = async (
 export const loadOpenApiSpecs = async (
   servicesConfig: ServiceConfig[],
   baseUrl: string,
+  fetchSpec?: UpstreamFetch,
 ): Promise<OpenApiSpecEntry[]> => {
   const defaultConfigs = getDefaultServiceConfigs(baseUrl);
   const reformatFunctions = getReformatFunctions();
@@ -355,17 +374,18 @@ export const loadOpenApiSpecs = async (
     reformatFunctions,
   );
 
-  console.log(
+  log.info(
     `Loading OpenAPI specs for services: ${enabledServiceNames.length > 0 ? enabledServiceNames.join(", ") : "all"} (${specUrls.length} specs)`,
   );
 
   // Load all specs
   const loadedSpecs: OpenApiSpecEntry[] = [];
   for (const specEntry of specUrls) {
-    const loadedSpec = await loadSingleSpec(specEntry);
+    const loadedSpec = await loadSingleSpec(specEntry, fetchSpec);
     loadedSpecs.push(loadedSpec);
   }
 
-  console.log(`Number of OpenAPIv3 files loaded=${loadedSpecs.length}`);
+  log.info(`Number of OpenAPIv3 files loaded=${loadedSpecs.length}`);
+
   return loadedSpecs;
 };
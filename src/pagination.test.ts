@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  addPaginationParameters,
+  fetchAllPages,
+  getPaginationOptions,
+  isPaginatedListTool,
+  isPaginatedResponse,
+  MAX_PAGES_LIMIT,
+} from "./pagination";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const createMockTool = (
+  overrides: Partial<AAPMcpToolDefinition> = {},
+): AAPMcpToolDefinition => ({
+  name: "controller.jobs_list",
+  description: "List jobs",
+  inputSchema: { type: "object", properties: {} },
+  pathTemplate: "/api/controller/v2/jobs/",
+  method: "get",
+  parameters: [{ name: "page", in: "query" }] as any,
+  executionParameters: {} as any,
+  securityRequirements: [] as any,
+  operationId: "api_jobs_list",
+  deprecated: false,
+  service: "controller",
+  logs: [],
+  size: 100,
+  ...overrides,
+});
+
+const page = (results: number[], next: string | null) => ({
+  count: 5,
+  next,
+  previous: null,
+  results,
+});
+
+describe("Pagination", () => {
+  describe("isPaginatedListTool", () => {
+    it("should detect DRF list tools", () => {
+      expect(isPaginatedListTool(createMockTool())).toBe(true);
+    });
+
+    it("should ignore tools without a page parameter", () => {
+      expect(isPaginatedListTool(createMockTool({ parameters: [] }))).toBe(
+        false,
+      );
+    });
+
+    it("should ignore services without DRF pagination", () => {
+      expect(isPaginatedListTool(createMockTool({ service: "galaxy" }))).toBe(
+        false,
+      );
+    });
+
+    it("should ignore non list tools", () => {
+      expect(
+        isPaginatedListTool(createMockTool({ name: "controller.jobs_read" })),
+      ).toBe(false);
+      expect(isPaginatedListTool(createMockTool({ method: "post" }))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("addPaginationParameters", () => {
+    it("should add max_pages and max_items to the input schema", () => {
+      const tool = addPaginationParameters(createMockTool());
+      const properties = (tool.inputSchema as any).properties;
+
+      expect(properties.max_pages).toMatchObject({ type: "integer" });
+      expect(properties.max_items).toMatchObject({ type: "integer" });
+    });
+  });
+
+  describe("getPaginationOptions", () => {
+    it("should return undefined when no pagination argument is set", () => {
+      expect(getPaginationOptions({ page: 2 })).toBeUndefined();
+    });
+
+    it("should cap max_pages", () => {
+      expect(getPaginationOptions({ max_pages: 1000 })).toEqual({
+        maxPages: MAX_PAGES_LIMIT,
+        maxItems: undefined,
+      });
+    });
+
+    it("should use the page limit when only max_items is set", () => {
+      expect(getPaginationOptions({ max_items: 20 })).toEqual({
+        maxPages: MAX_PAGES_LIMIT,
+        maxItems: 20,
+      });
+    });
+  });
+
+  describe("isPaginatedResponse", () => {
+    it("should detect DRF pages", () => {
+      expect(isPaginatedResponse(page([1], null))).toBe(true);
+      expect(isPaginatedResponse({ id: 1 })).toBe(false);
+      expect(isPaginatedResponse("text")).toBe(false);
+    });
+  });
+
+  describe("fetchAllPages", () => {
+    const firstUrl = "https://aap.example.com/api/controller/v2/jobs/";
+
+    it("should follow next links and merge results", async () => {
+      const fetchPage = vi
+        .fn()
+        .mockResolvedValueOnce(page([3, 4], "/api/controller/v2/jobs/?page=3"))
+        .mockResolvedValueOnce(page([5], null));
+
+      const merged = await fetchAllPages(
+        page([1, 2], "/api/controller/v2/jobs/?page=2"),
+        firstUrl,
+        fetchPage,
+        { maxPages: 10 },
+      );
+
+      expect(fetchPage).toHaveBeenCalledWith(
+        "https://aap.example.com/api/controller/v2/jobs/?page=2",
+      );
+      expect(merged.results).toEqual([1, 2, 3, 4, 5]);
+      expect(merged.next).toBeNull();
+      expect(merged.pagination).toEqual({
+        pages_fetched: 3,
+        items_fetched: 5,
+        count: 5,
+        complete: true,
+        truncated: false,
+      });
+    });
+
+    it("should stop at max_pages", async () => {
+      const fetchPage = vi
+        .fn()
+        .mockResolvedValue(page([3, 4], "/api/controller/v2/jobs/?page=3"));
+
+      const merged = await fetchAllPages(
+        page([1, 2], "/api/controller/v2/jobs/?page=2"),
+        firstUrl,
+        fetchPage,
+        { maxPages: 2 },
+      );
+
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+      expect(merged.results).toEqual([1, 2, 3, 4]);
+      expect(merged.next).toBe("/api/controller/v2/jobs/?page=3");
+      expect(merged.pagination.complete).toBe(false);
+    });
+
+    it("should stop and trim at max_items", async () => {
+      const fetchPage = vi
+        .fn()
+        .mockResolvedValue(page([3, 4], "/api/controller/v2/jobs/?page=3"));
+
+      const merged = await fetchAllPages(
+        page([1, 2], "/api/controller/v2/jobs/?page=2"),
+        firstUrl,
+        fetchPage,
+        { maxPages: 10, maxItems: 3 },
+      );
+
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+      expect(merged.results).toEqual([1, 2, 3]);
+      // Item 4 cannot be reached from the link to page 3
+      expect(merged.next).toBeNull();
+      expect(merged.pagination).toMatchObject({
+        items_fetched: 3,
+        complete: false,
+        truncated: true,
+      });
+    });
+
+    it("should keep the next link when max_items ends on a page boundary", async () => {
+      const fetchPage = vi
+        .fn()
+        .mockResolvedValue(page([3, 4], "/api/controller/v2/jobs/?page=3"));
+
+      const merged = await fetchAllPages(
+        page([1, 2], "/api/controller/v2/jobs/?page=2"),
+        firstUrl,
+        fetchPage,
+        { maxPages: 10, maxItems: 4 },
+      );
+
+      expect(merged.results).toEqual([1, 2, 3, 4]);
+      expect(merged.next).toBe("/api/controller/v2/jobs/?page=3");
+      expect(merged.pagination.truncated).toBe(false);
+    });
+
+    it("should stop at links to another origin", async () => {
+      const fetchPage = vi
+        .fn()
+        .mockResolvedValueOnce(page([2], "https://evil.example.com/?page=3"));
+
+      const merged = await fetchAllPages(
+        page([1], "/api/controller/v2/jobs/?page=2"),
+        firstUrl,
+        fetchPage,
+        { maxPages: 10 },
+      );
+
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+      expect(merged.results).toEqual([1, 2]);
+      expect(merged.next).toBeNull();
+      expect(merged.pagination).toMatchObject({
+        pages_fetched: 2,
+        items_fetched: 2,
+        complete: false,
+        truncated: true,
+      });
+    });
+  });
+});
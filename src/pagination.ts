@@ -0,0 +1,173 @@
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+
+/**
+ * Services whose list endpoints return DRF-style pages
+ */
+export const PAGINATED_SERVICES = ["controller", "gateway", "eda"];
+
+/**
+ * Upper bound for the number of pages fetched by a single tool call
+ */
+export const MAX_PAGES_LIMIT = 50;
+
+export interface PaginationOptions {
+  maxPages: number;
+  maxItems?: number;
+}
+
+export interface PaginatedResponse {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: unknown[];
+  [key: string]: unknown;
+}
+
+export interface PaginationSummary {
+  pages_fetched: number;
+  items_fetched: number;
+  count: number;
+  complete: boolean;
+  // Items left out, of the last page dropped by max_items or behind a
+  // next link to another origin. They cannot be reached from a page link,
+  // next is then null.
+  truncated: boolean;
+}
+
+/**
+ * Checks whether a tool is a list endpoint that supports DRF pagination
+ */
+export const isPaginatedListTool = (tool: AAPMcpToolDefinition): boolean => {
+  return (
+    tool.method.toUpperCase() === "GET" &&
+    tool.name.endsWith("_list") &&
+    PAGINATED_SERVICES.includes(tool.service || "") &&
+    (tool.parameters || []).some(
+      (param) => param.in === "query" && param.name === "page",
+    )
+  );
+};
+
+/**
+ * Adds the max_pages and max_items arguments to the input schema of a list tool
+ */
+export const addPaginationParameters = (
+  tool: AAPMcpToolDefinition,
+): AAPMcpToolDefinition => {
+  const inputSchema = tool.inputSchema as {
+    properties?: Record<string, unknown>;
+  };
+  inputSchema.properties = {
+    ...inputSchema.properties,
+    max_pages: {
+      type: "integer",
+      minimum: 1,
+      maximum: MAX_PAGES_LIMIT,
+      description: `Follow the 'next' links and merge up to this many pages of results into a single response (at most ${MAX_PAGES_LIMIT}).`,
+    },
+    max_items: {
+      type: "integer",
+      minimum: 1,
+      description:
+        "Follow the 'next' links until this many items have been fetched.",
+    },
+  };
+  return tool;
+};
+
+/**
+ * Reads the pagination arguments of a tool call. Returns undefined when
+ * the caller only wants the requested page.
+ */
+export const getPaginationOptions = (
+  args: Record<string, unknown>,
+): PaginationOptions | undefined => {
+  const maxPages = Number(args.max_pages);
+  const maxItems = Number(args.max_items);
+  const hasMaxPages = args.max_pages !== undefined && maxPages >= 1;
+  const hasMaxItems = args.max_items !== undefined && maxItems >= 1;
+
+  if (!hasMaxPages && !hasMaxItems) {
+    return undefined;
+  }
+
+  return {
+    maxPages: hasMaxPages
+      ? Math.min(Math.floor(maxPages), MAX_PAGES_LIMIT)
+      : MAX_PAGES_LIMIT,
+    maxItems: hasMaxItems ? Math.floor(maxItems) : undefined,
+  };
+};
+
+/**
+ * Checks whether a response body is a DRF page
+ */
+export const isPaginatedResponse = (
+  body: unknown,
+): body is PaginatedResponse => {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    typeof (body as PaginatedResponse).count === "number" &&
+    Array.isArray((body as PaginatedResponse).results) &&
+    "next" in body
+  );
+};
+
+/**
+ * Follows the 'next' links of a DRF page and merges the results. A link
+ * pointing to another origin than the first page is not followed, the
+ * pages fetched so far are returned. In that case, or when max_items cuts
+ * the last page, next is null and pagination.truncated is set.
+ */
+export const fetchAllPages = async (
+  firstPage: PaginatedResponse,
+  firstPageUrl: string,
+  fetchPage: (url: string) => Promise<unknown>,
+  options: PaginationOptions,
+): Promise<PaginatedResponse & { pagination: PaginationSummary }> => {
+  const origin = new URL(firstPageUrl).origin;
+  const results = [...firstPage.results];
+  let next = firstPage.next;
+  let pagesFetched = 1;
+  let leftOrigin = false;
+
+  const isFull = () =>
+    options.maxItems !== undefined && results.length >= options.maxItems;
+
+  while (next && pagesFetched < options.maxPages && !isFull()) {
+    const nextUrl = new URL(next, firstPageUrl);
+    if (nextUrl.origin !== origin) {
+      leftOrigin = true;
+      break;
+    }
+
+    const page = await fetchPage(nextUrl.toString());
+    if (!isPaginatedResponse(page)) {
+      throw new Error(`Unexpected page format returned by ${nextUrl}`);
+    }
+    results.push(...page.results);
+    next = page.next;
+    pagesFetched += 1;
+  }
+
+  const merged =
+    options.maxItems !== undefined
+      ? results.slice(0, options.maxItems)
+      : results;
+  const truncated = leftOrigin || merged.length < results.length;
+
+  return {
+    ...firstPage,
+    next: truncated ? null : next,
+    previous: firstPage.previous,
+    results: merged,
+    pagination: {
+      pages_fetched: pagesFetched,
+      items_fetched: merged.length,
+      count: firstPage.count,
+      complete: merged.length >= firstPage.count,
+      truncated,
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  getUserRole,
+  hasRequiredRole,
+  isUserRole,
+  isToolAllowedForRole,
+  filterToolsByRole,
+} from "./permissions";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const createMockTool = (
+  overrides: Partial<AAPMcpToolDefinition> = {},
+): AAPMcpToolDefinition => ({
+  name: "test-tool",
+  description: "Test tool",
+  inputSchema: {},
+  pathTemplate: "/test/path",
+  method: "GET",
+  parameters: [] as any,
+  executionParameters: {} as any,
+  securityRequirements: [] as any,
+  operationId: "test-op",
+  deprecated: false,
+  logs: [],
+  size: 100,
+  ...overrides,
+});
+
+describe("Permissions", () => {
+  describe("getUserRole", () => {
+    it("should return superuser when is_superuser is set", () => {
+      expect(
+        getUserRole({ is_superuser: true, is_platform_auditor: true }),
+      ).toBe("superuser");
+    });
+
+    it("should return auditor when only is_platform_auditor is set", () => {
+      expect(
+        getUserRole({ is_superuser: false, is_platform_auditor: true }),
+      ).toBe("auditor");
+    });
+
+    it("should return user when no flag is set", () => {
+      expect(
+        getUserRole({ is_superuser: false, is_platform_auditor: false }),
+      ).toBe("user");
+    });
+  });
+
+  describe("isUserRole", () => {
+    it("should accept known roles", () => {
+      expect(isUserRole("user")).toBe(true);
+      expect(isUserRole("auditor")).toBe(true);
+      expect(isUserRole("superuser")).toBe(true);
+    });
+
+    it("should reject unknown values", () => {
+      expect(isUserRole("admin")).toBe(false);
+      expect(isUserRole(undefined)).toBe(false);
+    });
+  });
+
+  describe("hasRequiredRole", () => {
+    it("should compare roles by privilege level", () => {
+      expect(hasRequiredRole("superuser", "auditor")).toBe(true);
+      expect(hasRequiredRole("auditor", "auditor")).toBe(true);
+      expect(hasRequiredRole("user", "auditor")).toBe(false);
+      expect(hasRequiredRole("auditor", "superuser")).toBe(false);
+      expect(hasRequiredRole("user", "user")).toBe(true);
+    });
+  });
+
+  describe("isToolAllowedForRole", () => {
+    const readTool = createMockTool({ method: "get" });
+    const writeTool = createMockTool({ method: "delete" });
+
+    it("should hide write tools from auditors", () => {
+      expect(isToolAllowedForRole(readTool, "auditor")).toBe(true);
+      expect(isToolAllowedForRole(writeTool, "auditor")).toBe(false);
+    });
+
+    it("should allow write tools for users and superusers", () => {
+      expect(isToolAllowedForRole(writeTool, "user")).toBe(true);
+      expect(isToolAllowedForRole(writeTool, "superuser")).toBe(true);
+    });
+  });
+
+  describe("filterToolsByRole", () => {
+    const tools = [
+      createMockTool({ name: "read", method: "GET" }),
+      createMockTool({ name: "write", method: "POST" }),
+    ];
+
+    it("should return no tools when the role is below the required one", () => {
+      expect(filterToolsByRole(tools, "user", "superuser")).toEqual([]);
+      expect(filterToolsByRole(tools, "auditor", "superuser")).toEqual([]);
+    });
+
+    it("should return read tools only for auditors", () => {
+      const filtered = filterToolsByRole(tools, "auditor", "auditor");
+      expect(filtered.map((t) => t.name)).toEqual(["read"]);
+    });
+
+    it("should return every tool for superusers", () => {
+      const filtered = filterToolsByRole(tools, "superuser", "superuser");
+      expect(filtered.map((t) => t.name)).toEqual(["read", "write"]);
+    });
+  });
+});
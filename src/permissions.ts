@@ -0,0 +1,83 @@
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+
+/**
+ * AAP roles, ordered from the least to the most privileged
+ */
+export type UserRole = "user" | "auditor" | "superuser";
+
+export const USER_ROLES: UserRole[] = ["user", "auditor", "superuser"];
+
+export interface UserPermissions {
+  is_superuser: boolean;
+  is_platform_auditor: boolean;
+}
+
+/**
+ * HTTP methods that do not modify anything on the AAP side
+ */
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Checks whether a string is a known role name
+ */
+export const isUserRole = (value: unknown): value is UserRole => {
+  return typeof value === "string" && USER_ROLES.includes(value as UserRole);
+};
+
+/**
+ * Maps the flags returned by /api/gateway/v1/me/ to a single role
+ */
+export const getUserRole = (permissions: UserPermissions): UserRole => {
+  if (permissions.is_superuser) {
+    return "superuser";
+  }
+  if (permissions.is_platform_auditor) {
+    return "auditor";
+  }
+  return "user";
+};
+
+/**
+ * Checks whether a role is at least as privileged as the required one
+ */
+export const hasRequiredRole = (
+  role: UserRole,
+  requiredRole: UserRole,
+): boolean => {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(requiredRole);
+};
+
+/**
+ * Checks whether a tool only reads data from AAP
+ */
+export const isReadOnlyTool = (tool: AAPMcpToolDefinition): boolean => {
+  return READ_ONLY_METHODS.includes(tool.method.toUpperCase());
+};
+
+/**
+ * Checks whether a role may use a given tool. Auditors have a read-only
+ * view of the platform, so they never get the write tools.
+ */
+export const isToolAllowedForRole = (
+  tool: AAPMcpToolDefinition,
+  role: UserRole,
+): boolean => {
+  if (role === "auditor") {
+    return isReadOnlyTool(tool);
+  }
+  return true;
+};
+
+/**
+ * Filters the tools of a category down to what a role may see
+ */
+export const filterToolsByRole = (
+  tools: AAPMcpToolDefinition[],
+  role: UserRole,
+  requiredRole: UserRole,
+): AAPMcpToolDefinition[] => {
+  if (!hasRequiredRole(role, requiredRole)) {
+    return [];
+  }
+  return tools.filter((tool) => isToolAllowedForRole(tool, role));
+};
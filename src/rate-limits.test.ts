@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  RateLimiter,
+  createRateLimitResult,
+  type RateLimitedCall,
+} from "./rate-limits";
+
+const SECOND = 1000;
+
+const call = (overrides: Partial<RateLimitedCall> = {}): RateLimitedCall => ({
+  sessionId: "s1",
+  token: "token-a",
+  toolName: "controller.jobs_list",
+  limitClass: "read",
+  ...overrides,
+});
+
+describe("RateLimiter", () => {
+  it("should allow a burst then refill the bucket over time", () => {
+    const limiter = new RateLimiter({
+      config: {
+        enabled: true,
+        read: { per_session: { per_minute: 60, burst: 2 } },
+      },
+    });
+
+    expect(limiter.check(call(), 0)).toBeUndefined();
+    expect(limiter.check(call(), 0)).toBeUndefined();
+    expect(limiter.check(call(), 0)).toEqual({
+      scope: "session",
+      limitClass: "read",
+      retryAfterMs: SECOND,
+    });
+    expect(limiter.check(call(), SECOND)).toBeUndefined();
+  });
+
+  it("should keep separate budgets for read and write tools", () => {
+    const limiter = new RateLimiter({
+      config: {
+        enabled: true,
+        read: { per_session: { per_minute: 60, burst: 1 } },
+        write: { per_session: { per_minute: 6, burst: 1 } },
+      },
+    });
+    const write = call({
+      toolName: "controller.job_templates_launch_create",
+      limitClass: "write",
+    });
+
+    expect(limiter.check(call(), 0)).toBeUndefined();
+    expect(limiter.check(write, 0)).toBeUndefined();
+    expect(limiter.check(write, 0)?.retryAfterMs).toBe(10 * SECOND);
+    expect(limiter.check(call(), SECOND)).toBeUndefined();
+  });
+
+  it("should share the token and tool budgets between sessions", () => {
+    const limiter = new RateLimiter({
+      config: {
+        enabled: true,
+        read: { per_token: { per_minute: 60, burst: 3 } },
+        tools: { "controller.jobs_list": { per_minute: 1, burst: 1 } },
+      },
+    });
+
+    expect(limiter.check(call(), 0)).toBeUndefined();
+    expect(limiter.check(call({ sessionId: "s2" }), 0)?.scope).toBe("tool");
+    expect(
+      limiter.check(call({ toolName: "controller.hosts_list" }), 0),
+    ).toBeUndefined();
+    expect(
+      limiter.check(call({ toolName: "controller.hosts_list" }), 0),
+    ).toBeUndefined();
+    expect(
+      limiter.check(call({ toolName: "controller.inventories_list" }), 0),
+    ).toMatchObject({ scope: "token" });
+    expect(
+      limiter.check(call({ token: "token-b", sessionId: "s2" }), 0),
+    ).toBeUndefined();
+  });
+
+  it("should not consume the budgets of a refused call", () => {
+    const limiter = new RateLimiter({
+      config: {
+        enabled: true,
+        read: {
+          per_session: { per_minute: 60, burst: 2 },
+          per_tool: { per_minute: 60, burst: 1 },
+        },
+      },
+    });
+
+    expect(limiter.check(call(), 0)).toBeUndefined();
+    expect(limiter.check(call(), 0)?.scope).toBe("tool");
+    expect(
+      limiter.check(call({ toolName: "controller.hosts_list" }), 0),
+    ).toBeUndefined();
+  });
+
+  it("should cap the calls in progress of a session", () => {
+    const limiter = new RateLimiter({
+      config: { enabled: true, max_concurrent_calls: 2 },
+    });
+
+    const first = limiter.acquire("s1");
+    const second = limiter.acquire("s1");
+    expect(limiter.acquire("s1")).toBeUndefined();
+    expect(limiter.acquire("s2")).toBeDefined();
+
+    first!();
+    first!();
+    expect(limiter.acquire("s1")).toBeDefined();
+    expect(second).toBeDefined();
+  });
+
+  it("should refuse the calls beyond the limits", () => {
+    const onLimited = vi.fn();
+    const limiter = new RateLimiter({
+      config: {
+        enabled: true,
+        write: { per_session: { per_minute: 2, burst: 1 } },
+        max_concurrent_calls: 1,
+      },
+      onLimited,
+    });
+    const write = call({ limitClass: "write" });
+
+    expect(limiter.admit(write, 0)).toBeUndefined();
+    const rejection = {
+      scope: "session",
+      limitClass: "write",
+      retryAfterMs: 30 * SECOND,
+    };
+    expect(limiter.admit(write, 0)).toEqual(rejection);
+    expect(onLimited).toHaveBeenCalledWith(write, rejection);
+    expect(limiter.admit(write, 30 * SECOND)).toBeUndefined();
+
+    const first = limiter.begin(write);
+    expect(first.allowed).toBe(true);
+    expect(limiter.begin(write)).toEqual({
+      allowed: false,
+      rejection: {
+        scope: "concurrency",
+        limitClass: "write",
+        retryAfterMs: SECOND,
+      },
+    });
+    expect(onLimited).toHaveBeenCalledTimes(2);
+    if (first.allowed) {
+      first.release();
+    }
+    expect(limiter.begin(write).allowed).toBe(true);
+  });
+
+  it("should let everything through unless enabled", () => {
+    for (const enabled of [undefined, false]) {
+      const limiter = new RateLimiter({
+        config: {
+          enabled,
+          read: { per_session: { per_minute: 1, burst: 1 } },
+          max_concurrent_calls: 1,
+        },
+      });
+
+      for (let i = 0; i < 10; i++) {
+        expect(limiter.check(call(), 0)).toBeUndefined();
+        expect(limiter.acquire("s1")).toBeDefined();
+      }
+    }
+  });
+
+  it("should tell the client when to retry", () => {
+    const result = createRateLimitResult({
+      scope: "token",
+      limitClass: "read",
+      retryAfterMs: 200,
+    });
+
+    expect(result).toEqual({
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: "Rate limit of the read tools exceeded for this token, retry in 1 second",
+        },
+      ],
+      structuredContent: {
+        error: "rate_limited",
+        scope: "token",
+        limitClass: "read",
+        retryAfterSeconds: 1,
+      },
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import { createHash } from "crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Budget of a token bucket: per_minute calls on average, at most burst at
+ * once. A per_minute of 0 disables the limit.
+ */
+export interface RateLimitBudget {
+  per_minute: number;
+  // Defaults to per_minute
+  burst?: number;
+}
+
+export interface RateLimitClassConfig {
+  per_session?: RateLimitBudget;
+  per_token?: RateLimitBudget;
+  // Calls of each tool with the same token
+  per_tool?: RateLimitBudget;
+}
+
+/**
+ * rate_limits section of aap-mcp.yaml. The write budgets also cover the
+ * destructive tools.
+ */
+export interface RateLimitsConfig {
+  // Off unless set to true
+  enabled?: boolean;
+  read?: RateLimitClassConfig;
+  write?: RateLimitClassConfig;
+  // per_tool budgets of specific tools, e.g. the job launches
+  tools?: Record<string, RateLimitBudget>;
+  // Tool calls of a session waiting for AAP at once, 0 disables the cap
+  max_concurrent_calls?: number;
+}
+
+export type RateLimitClass = "read" | "write";
+
+export type RateLimitScope = "session" | "token" | "tool" | "concurrency";
+
+export const DEFAULT_RATE_LIMITS: Required<
+  Pick<RateLimitsConfig, "read" | "write" | "max_concurrent_calls">
+> = {
+  read: {
+    per_session: { per_minute: 120, burst: 30 },
+    per_token: { per_minute: 300, burst: 60 },
+    per_tool: { per_minute: 60, burst: 20 },
+  },
+  write: {
+    per_session: { per_minute: 30, burst: 10 },
+    per_token: { per_minute: 60, burst: 20 },
+    per_tool: { per_minute: 10, burst: 5 },
+  },
+  max_concurrent_calls: 4,
+};
+
+// Buckets kept before the full ones are dropped
+const MAX_BUCKETS = 10000;
+
+// Retry delay of the calls refused by the concurrency cap
+const CONCURRENCY_RETRY_MS = 1000;
+
+export interface RateLimitedCall {
+  // Session, or stdio for the stdio transport
+  sessionId: string;
+  // Token the call is made with
+  token: string;
+  toolName: string;
+  limitClass: RateLimitClass;
+}
+
+export interface RateLimitRejection {
+  scope: RateLimitScope;
+  limitClass: RateLimitClass;
+  retryAfterMs: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; release: () => void }
+  | { allowed: false; rejection: RateLimitRejection };
+
+export interface RateLimiterOptions {
+  config?: RateLimitsConfig;
+  // Called for every refused call
+  onLimited?: (call: RateLimitedCall, rejection: RateLimitRejection) => void;
+}
+
+interface Bucket {
+  tokens: number;
+  capacity: number;
+  // Tokens added per millisecond
+  rate: number;
+  updatedAt: number;
+}
+
+/**
+ * Tool error result of a limited call, its structured content tells the
+ * client when to try again
+ */
+export const createRateLimitResult = (
+  rejection: RateLimitRejection,
+): CallToolResult => {
+  const retryAfterSeconds = Math.max(
+    1,
+    Math.ceil(rejection.retryAfterMs / 1000),
+  );
+  const message =
+    rejection.scope === "concurrency"
+      ? "Too many tool calls in progress for this session"
+      : `Rate limit of the ${rejection.limitClass} tools exceeded for this ${rejection.scope}`;
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text: `${message}, retry in ${retryAfterSeconds} second${retryAfterSeconds > 1 ? "s" : ""}`,
+      },
+    ],
+    structuredContent: {
+      error: "rate_limited",
+      scope: rejection.scope,
+      limitClass: rejection.limitClass,
+      retryAfterSeconds,
+    },
+  };
+};
+
+/**
+ * Token buckets of the tool calls, by session, token and tool, and the
+ * count of the calls in progress by session
+ */
+export class RateLimiter {
+  private config: RateLimitsConfig = {};
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly inFlight = new Map<string, number>();
+  private readonly onLimited: RateLimiterOptions["onLimited"];
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.configure(options.config);
+    this.onLimited = options.onLimited;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  /**
+   * Applies a new configuration, the buckets keep their tokens
+   */
+  configure(config: RateLimitsConfig = {}): void {
+    this.config = config;
+  }
+
+  private getBudgets(
+    call: RateLimitedCall,
+  ): [RateLimitScope, string, RateLimitBudget | undefined][] {
+    const classConfig = {
+      ...DEFAULT_RATE_LIMITS[call.limitClass],
+      ...this.config[call.limitClass],
+    };
+    // Tokens are not kept in memory as is
+    const token = createHash("sha256").update(call.token).digest("hex");
+    return [
+      [
+        "tool",
+        `tool:${token}:${call.toolName}`,
+        this.config.tools?.[call.toolName] ?? classConfig.per_tool,
+      ],
+      [
+        "session",
+        `session:${call.limitClass}:${call.sessionId}`,
+        classConfig.per_session,
+      ],
+      ["token", `token:${call.limitClass}:${token}`, classConfig.per_token],
+    ];
+  }
+
+  private refill(key: string, budget: RateLimitBudget, now: number): Bucket {
+    const capacity = Math.max(1, budget.burst ?? budget.per_minute);
+    const rate = budget.per_minute / 60000;
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      const created = { tokens: capacity, capacity, rate, updatedAt: now };
+      this.buckets.set(key, created);
+      return created;
+    }
+    bucket.capacity = capacity;
+    bucket.rate = rate;
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + Math.max(0, now - bucket.updatedAt) * rate,
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * Takes a token from every bucket of a call, or none when one of them
+   * is empty. Returns the limit the call exceeds, with the longest wait.
+   */
+  check(
+    call: RateLimitedCall,
+    now: number = Date.now(),
+  ): RateLimitRejection | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+    const buckets: Bucket[] = [];
+    let rejection: RateLimitRejection | undefined;
+    for (const [scope, key, budget] of this.getBudgets(call)) {
+      if (!budget || budget.per_minute <= 0) {
+        continue;
+      }
+      const bucket = this.refill(key, budget, now);
+      if (bucket.tokens >= 1) {
+        buckets.push(bucket);
+        continue;
+      }
+      const retryAfterMs = (1 - bucket.tokens) / bucket.rate;
+      if (!rejection || retryAfterMs > rejection.retryAfterMs) {
+        rejection = { scope, limitClass: call.limitClass, retryAfterMs };
+      }
+    }
+    if (rejection) {
+      return rejection;
+    }
+    for (const bucket of buckets) {
+      bucket.tokens -= 1;
+    }
+    this.prune(now);
+    return undefined;
+  }
+
+  /**
+   * Counts a call of a session in progress. Returns the function ending
+   * it, or undefined when the session is at max_concurrent_calls.
+   */
+  acquire(sessionId: string): (() => void) | undefined {
+    const max =
+      this.config.max_concurrent_calls ??
+      DEFAULT_RATE_LIMITS.max_concurrent_calls;
+    const count = this.inFlight.get(sessionId) ?? 0;
+    if (this.enabled && max > 0 && count >= max) {
+      return undefined;
+    }
+    this.inFlight.set(sessionId, count + 1);
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const remaining = (this.inFlight.get(sessionId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.inFlight.set(sessionId, remaining);
+      } else {
+        this.inFlight.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Checks the rate limits of a call, before anything is asked to the user
+   */
+  admit(
+    call: RateLimitedCall,
+    now: number = Date.now(),
+  ): RateLimitRejection | undefined {
+    const rejection = this.check(call, now);
+    if (rejection) {
+      this.onLimited?.(call, rejection);
+    }
+    return rejection;
+  }
+
+  /**
+   * Checks the concurrency cap of a call about to be sent to AAP. An
+   * allowed call is counted in progress until its release function is
+   * called.
+   */
+  begin(call: RateLimitedCall): RateLimitDecision {
+    const release = this.acquire(call.sessionId);
+    if (!release) {
+      const rejection: RateLimitRejection = {
+        scope: "concurrency",
+        limitClass: call.limitClass,
+        retryAfterMs: CONCURRENCY_RETRY_MS,
+      };
+      this.onLimited?.(call, rejection);
+      return { allowed: false, rejection };
+    }
+    return { allowed: true, release };
+  }
+
+  // Full buckets are the same as missing ones
+  private prune(now: number): void {
+    if (this.buckets.size <= MAX_BUCKETS) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (
+        bucket.tokens + (now - bucket.updatedAt) * bucket.rate >=
+        bucket.capacity
+      ) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
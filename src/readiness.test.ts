@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  checkReadiness,
+  probeService,
+  type ProbeResult,
+  type ReadinessInput,
+} from "./readiness";
+
+const loaded = {
+  loaded: true,
+  required: true,
+  source: "data/controller-schema.json",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const reachable: ProbeResult = { reachable: true, status: 200, latencyMs: 5 };
+
+const input = (overrides: Partial<ReadinessInput> = {}): ReadinessInput => ({
+  services: ["controller", "eda"],
+  specStatuses: { controller: loaded, eda: { ...loaded, source: "eda.json" } },
+  tools: [{ service: "controller" }, { service: "controller" }],
+  lastSuccessfulCalls: { controller: "2025-01-01T00:01:00.000Z" },
+  circuits: { controller: { state: "closed", consecutiveFailures: 0 } },
+  probe: async () => reachable,
+  ...overrides,
+});
+
+describe("checkReadiness", () => {
+  it("should be ready when every service is loaded and reachable", async () => {
+    const report = await checkReadiness(input());
+
+    expect(report).toEqual({
+      status: "ready",
+      tools: 2,
+      reasons: [],
+      warnings: [],
+      services: {
+        controller: {
+          spec: loaded,
+          tools: 2,
+          lastSuccessfulCall: "2025-01-01T00:01:00.000Z",
+          circuit: "closed",
+          nextRetryAt: undefined,
+          probe: reachable,
+        },
+        eda: {
+          spec: { ...loaded, source: "eda.json" },
+          tools: 0,
+          lastSuccessfulCall: undefined,
+          circuit: undefined,
+          nextRetryAt: undefined,
+          probe: reachable,
+        },
+      },
+    });
+  });
+
+  it("should report the failed specs and the unreachable services", async () => {
+    const report = await checkReadiness(
+      input({
+        specStatuses: {
+          controller: loaded,
+          eda: { ...loaded, loaded: false, error: "HTTP 502: Bad Gateway" },
+        },
+        probe: async (service) =>
+          service === "eda"
+            ? { reachable: false, latencyMs: 3000, error: "timed out" }
+            : { reachable: false, status: 503, latencyMs: 4 },
+      }),
+    );
+
+    expect(report.status).toBe("not_ready");
+    expect(report.reasons).toEqual([
+      "controller: not reachable (HTTP 503)",
+      "eda: OpenAPI spec not loaded (HTTP 502: Bad Gateway)",
+      "eda: not reachable (timed out)",
+    ]);
+  });
+
+  it("should only warn about the optional services", async () => {
+    const report = await checkReadiness(
+      input({
+        specStatuses: {
+          controller: loaded,
+          eda: { ...loaded, loaded: false, required: false, error: "HTTP 502" },
+        },
+        probe: async (service) =>
+          service === "eda"
+            ? { reachable: false, status: 502, latencyMs: 4 }
+            : reachable,
+      }),
+    );
+
+    expect(report).toMatchObject({
+      status: "ready",
+      reasons: [],
+      warnings: [
+        "eda: OpenAPI spec not loaded (HTTP 502)",
+        "eda: not reachable (HTTP 502)",
+      ],
+    });
+  });
+
+  it("should not be ready without any tool", async () => {
+    const report = await checkReadiness(input({ services: [], tools: [] }));
+
+    expect(report).toMatchObject({
+      status: "not_ready",
+      reasons: ["no tool was generated"],
+    });
+  });
+});
+
+describe("probeService", () => {
+  it("should consider the services answering below 500 reachable", async () => {
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 401 }))
+      .mockResolvedValueOnce(new Response("", { status: 502 }));
+
+    expect(
+      await probeService("https://aap", "controller", 1000, send),
+    ).toMatchObject({ reachable: true, status: 401 });
+    expect(send).toHaveBeenCalledWith(
+      "https://aap/api/controller/v2/ping/",
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+    expect(await probeService("https://aap", "eda", 1000, send)).toMatchObject({
+      reachable: false,
+      status: 502,
+    });
+  });
+
+  it("should report the connection errors", async () => {
+    const send = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+
+    expect(
+      await probeService("https://aap", "gateway", 1000, send),
+    ).toMatchObject({ reachable: false, error: "fetch failed" });
+  });
+});
@@ -0,0 +1,151 @@
+import type { CircuitStatus } from "./upstream.js";
+
+// Unauthenticated endpoint of each service answering when it is up
+export const SERVICE_PING_PATHS: Record<string, string> = {
+  controller: "/api/controller/v2/ping/",
+  gateway: "/api/gateway/v1/ping/",
+  eda: "/api/eda/v1/status/",
+  galaxy: "/api/galaxy/pulp/api/v3/status/",
+};
+
+// Outcome of the OpenAPI spec loading and tool generation of a service
+export interface SpecStatus {
+  loaded: boolean;
+  // A required service is needed to be ready, an optional one is retried
+  // in the background
+  required: boolean;
+  // URL or local file of the spec
+  source: string;
+  error?: string;
+  // When the spec was last loaded or failed to
+  updatedAt: string;
+}
+
+export interface ProbeResult {
+  reachable: boolean;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ServiceReadiness {
+  spec: SpecStatus | { loaded: false; required: true; error: string };
+  tools: number;
+  lastSuccessfulCall?: string;
+  circuit?: CircuitStatus["state"];
+  // Next attempt to load the spec of an optional service
+  nextRetryAt?: string;
+  probe: ProbeResult;
+}
+
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  tools: number;
+  // Why the server is not ready
+  reasons: string[];
+  // Optional services missing, the server is ready without them
+  warnings: string[];
+  services: Record<string, ServiceReadiness>;
+}
+
+export interface ReadinessInput {
+  // Enabled services
+  services: string[];
+  specStatuses: Record<string, SpecStatus>;
+  tools: { service?: string }[];
+  lastSuccessfulCalls: Record<string, string>;
+  circuits: Record<string, CircuitStatus>;
+  pendingRetries?: Record<string, string>;
+  probe: (service: string) => Promise<ProbeResult>;
+}
+
+/**
+ * Sends a GET request to the ping endpoint of a service. Any answer below
+ * 500 means the service is reachable.
+ */
+export const probeService = async (
+  baseUrl: string,
+  service: string,
+  timeoutMs: number,
+  send: (url: string, init: RequestInit) => Promise<Response> = fetch,
+): Promise<ProbeResult> => {
+  const pingPath = SERVICE_PING_PATHS[service];
+  const startTime = Date.now();
+  if (!pingPath) {
+    return { reachable: false, latencyMs: 0, error: "no ping endpoint" };
+  }
+  try {
+    const response = await send(`${baseUrl}${pingPath}`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+    return {
+      reachable: response.status < 500,
+      status: response.status,
+      latencyMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      reachable: false,
+      latencyMs: Date.now() - startTime,
+      error:
+        (error as Error)?.name === "TimeoutError"
+          ? `no answer after ${timeoutMs / 1000} seconds`
+          : error instanceof Error
+            ? error.message
+            : String(error),
+    };
+  }
+};
+
+/**
+ * Probes the services in parallel and tells whether the server can serve
+ * tool calls: every required service has its tools and answers, and there
+ * is at least one tool
+ */
+export const checkReadiness = async (
+  input: ReadinessInput,
+): Promise<ReadinessReport> => {
+  const probes = await Promise.all(input.services.map(input.probe));
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+  const services: Record<string, ServiceReadiness> = {};
+
+  input.services.forEach((service, index) => {
+    const spec = input.specStatuses[service] ?? {
+      loaded: false,
+      required: true,
+      error: "spec not loaded yet",
+    };
+    const issues = spec.required ? reasons : warnings;
+    const probe = probes[index];
+    services[service] = {
+      spec,
+      tools: input.tools.filter((tool) => tool.service === service).length,
+      lastSuccessfulCall: input.lastSuccessfulCalls[service],
+      circuit: input.circuits[service]?.state,
+      nextRetryAt: input.pendingRetries?.[service],
+      probe,
+    };
+    if (!spec.loaded) {
+      issues.push(`${service}: OpenAPI spec not loaded (${spec.error})`);
+    }
+    if (!probe.reachable) {
+      issues.push(
+        `${service}: not reachable (${probe.error ?? `HTTP ${probe.status}`})`,
+      );
+    }
+  });
+  if (input.tools.length === 0) {
+    reasons.push("no tool was generated");
+  }
+
+  return {
+    status: reasons.length === 0 ? "ready" : "not_ready",
+    tools: input.tools.length,
+    reasons,
+    warnings,
+    services,
+  };
+};
@@ -0,0 +1,243 @@
+import { REDACTED } from "./logging.js";
+
+/**
+ * Masking of the secrets found in the tool arguments and the AAP
+ * responses: fields the OpenAPI schemas mark as passwords or write-only,
+ * well-known AAP secret fields, values AAP already encrypted and JSONPath
+ * rules from the configuration.
+ */
+
+/**
+ * redaction section of aap-mcp.yaml
+ */
+export interface RedactionConfig {
+  // Additional secret field names, matched case-insensitively
+  fields?: string[];
+  // JSONPath expressions of the values to mask
+  paths?: string[];
+  // Also mask the responses returned to the model, not only the audit log
+  mask_responses?: boolean;
+}
+
+type PathSegment =
+  | { type: "name"; name: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" }
+  | { type: "descendant" };
+
+export interface RedactionRules {
+  fields: Set<string>;
+  paths: PathSegment[][];
+  maskResponses: boolean;
+}
+
+/**
+ * Fields holding credentials in the AAP APIs
+ */
+export const DEFAULT_SECRET_FIELDS = [
+  "password",
+  "ssh_key_data",
+  "ssh_key_unlock",
+  "become_password",
+  "vault_password",
+  "authorize_password",
+  "token",
+  "access_token",
+  "refresh_token",
+  "secret",
+  "secret_key",
+  "client_secret",
+  "api_key",
+  "private_key",
+];
+
+// Names ending like this are secrets too, e.g. "sudo_password"
+const SECRET_SUFFIXES = ["_password", "_secret", "_token", "_key_data"];
+
+// Prefix of the values AAP encrypts before returning them
+const ENCRYPTED_PREFIX = "$encrypted$";
+
+const NAME_SEGMENT = /^[A-Za-z_$][\w$-]*/;
+
+/**
+ * Parses the supported JSONPath subset: $, .name, ['name'], [n], [*], .*
+ * and ..name
+ */
+export const parseRedactionPath = (path: string): PathSegment[] => {
+  if (!path.startsWith("$")) {
+    throw new Error(`Invalid redaction path '${path}': must start with $`);
+  }
+  const segments: PathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest) {
+    let match: RegExpMatchArray | null;
+    if (rest.startsWith("..")) {
+      segments.push({ type: "descendant" });
+      rest = rest.slice(1);
+      continue;
+    }
+    if ((match = rest.match(/^\.\*|^\[\*\]/))) {
+      segments.push({ type: "wildcard" });
+    } else if (
+      rest.startsWith(".") &&
+      (match = rest.slice(1).match(NAME_SEGMENT))
+    ) {
+      segments.push({ type: "name", name: match[0] });
+      match = [`.${match[0]}`];
+    } else if ((match = rest.match(/^\[(\d+)\]/))) {
+      segments.push({ type: "index", index: Number(match[1]) });
+    } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+      segments.push({ type: "name", name: match[2] });
+    } else {
+      throw new Error(`Invalid redaction path '${path}': unexpected '${rest}'`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  if (
+    segments.length === 0 ||
+    segments[segments.length - 1].type === "descendant"
+  ) {
+    throw new Error(`Invalid redaction path '${path}': selects nothing`);
+  }
+  return segments;
+};
+
+export const compileRedactionRules = (
+  config: RedactionConfig = {},
+): RedactionRules => ({
+  fields: new Set(
+    [...DEFAULT_SECRET_FIELDS, ...(config.fields || [])].map((field) =>
+      field.toLowerCase(),
+    ),
+  ),
+  paths: (config.paths || []).map(parseRedactionPath),
+  maskResponses: config.mask_responses ?? false,
+});
+
+const isSecretField = (
+  name: string,
+  rules: RedactionRules,
+  secretFields: Set<string>,
+): boolean => {
+  const lowerName = name.toLowerCase();
+  return (
+    secretFields.has(name) ||
+    rules.fields.has(lowerName) ||
+    SECRET_SUFFIXES.some((suffix) => lowerName.endsWith(suffix))
+  );
+};
+
+const matchesPath = (
+  segments: PathSegment[],
+  path: (string | number)[],
+  segmentIndex: number = 0,
+  pathIndex: number = 0,
+): boolean => {
+  if (segmentIndex === segments.length) {
+    return pathIndex === path.length;
+  }
+  const segment = segments[segmentIndex];
+  if (segment.type === "descendant") {
+    // Zero or more levels
+    for (let index = pathIndex; index <= path.length; index++) {
+      if (matchesPath(segments, path, segmentIndex + 1, index)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  if (pathIndex === path.length) {
+    return false;
+  }
+  const key = path[pathIndex];
+  const matches =
+    segment.type === "wildcard" ||
+    (segment.type === "name" && segment.name === String(key)) ||
+    (segment.type === "index" && segment.index === key);
+  return (
+    matches && matchesPath(segments, path, segmentIndex + 1, pathIndex + 1)
+  );
+};
+
+/**
+ * Returns a copy of value with the secrets replaced by [REDACTED].
+ * secretFields are the fields the OpenAPI schemas of the tool mark as
+ * secrets. Empty values are kept, they tell that no secret is set.
+ */
+export const redactSecrets = (
+  value: unknown,
+  rules: RedactionRules,
+  secretFields: string[] = [],
+): unknown => {
+  const toolSecretFields = new Set(secretFields);
+
+  const redact = (item: unknown, path: (string | number)[]): unknown => {
+    if (
+      path.length > 0 &&
+      rules.paths.some((segments) => matchesPath(segments, path))
+    ) {
+      return REDACTED;
+    }
+    if (typeof item === "string") {
+      return item.startsWith(ENCRYPTED_PREFIX) ? REDACTED : item;
+    }
+    if (item === null || typeof item !== "object") {
+      return item;
+    }
+    if (Array.isArray(item)) {
+      return item.map((element, index) => redact(element, [...path, index]));
+    }
+    return Object.fromEntries(
+      Object.entries(item).map(([key, field]) => [
+        key,
+        field !== null &&
+        field !== "" &&
+        isSecretField(key, rules, toolSecretFields)
+          ? REDACTED
+          : redact(field, [...path, key]),
+      ]),
+    );
+  };
+
+  return redact(value, []);
+};
+
+/**
+ * Names of the properties marked as `format: password` or `writeOnly` in
+ * OpenAPI schemas. The schemas must be dereferenced, they may be circular.
+ */
+export const findSecretFields = (schemas: unknown[]): string[] => {
+  const found = new Set<string>();
+  const seen = new Set<object>();
+
+  const visit = (schema: unknown): void => {
+    if (schema === null || typeof schema !== "object" || seen.has(schema)) {
+      return;
+    }
+    seen.add(schema);
+    const { properties, items, additionalProperties, allOf, anyOf, oneOf } =
+      schema as Record<string, unknown>;
+    if (properties && typeof properties === "object") {
+      for (const [name, property] of Object.entries(properties)) {
+        const { format, writeOnly } = (property || {}) as {
+          format?: unknown;
+          writeOnly?: unknown;
+        };
+        if (format === "password" || writeOnly === true) {
+          found.add(name);
+        }
+        visit(property);
+      }
+    }
+    visit(items);
+    visit(additionalProperties);
+    for (const subSchemas of [allOf, anyOf, oneOf]) {
+      if (Array.isArray(subSchemas)) {
+        subSchemas.forEach(visit);
+      }
+    }
+  };
+
+  schemas.forEach(visit);
+  return [...found].sort();
+};
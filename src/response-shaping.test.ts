@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import {
+  addFieldsParameter,
+  DEFAULT_MAX_CHARACTERS,
+  getFieldsArgument,
+  projectFields,
+  resolveShapingRules,
+  shapeResponse,
+} from "./response-shaping";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const createMockTool = (
+  overrides: Partial<AAPMcpToolDefinition> = {},
+): AAPMcpToolDefinition => ({
+  name: "controller.hosts_list",
+  description: "List hosts",
+  inputSchema: { type: "object", properties: {} },
+  pathTemplate: "/api/controller/v2/hosts/",
+  method: "get",
+  parameters: [] as any,
+  executionParameters: {} as any,
+  securityRequirements: [] as any,
+  operationId: "api_hosts_list",
+  deprecated: false,
+  service: "controller",
+  logs: [],
+  size: 100,
+  ...overrides,
+});
+
+const hostsPage = (count: number) => ({
+  count,
+  next: null,
+  previous: null,
+  results: Array.from({ length: count }, (_, i) => ({
+    id: i,
+    name: `host-${i}`,
+    related: { groups: `/api/controller/v2/hosts/${i}/groups/` },
+    summary_fields: { inventory: { id: 1, name: "Demo Inventory" } },
+  })),
+});
+
+describe("Response shaping", () => {
+  describe("resolveShapingRules", () => {
+    it("should use the defaults without configuration", () => {
+      const rules = resolveShapingRules(undefined, createMockTool());
+      expect(rules.maxCharacters).toBe(DEFAULT_MAX_CHARACTERS);
+      expect(rules.dropFields).toEqual(["related", "summary_fields"]);
+    });
+
+    it("should let tool rules override service and global rules", () => {
+      const config = {
+        max_characters: 1000,
+        drop_fields: ["related"],
+        services: { controller: { max_characters: 2000 } },
+        tools: { "controller.hosts_list": { max_characters: 3000 } },
+      };
+
+      expect(resolveShapingRules(config, createMockTool())).toEqual({
+        maxCharacters: 3000,
+        dropFields: ["related"],
+      });
+      expect(
+        resolveShapingRules(config, createMockTool({ name: "other" })),
+      ).toEqual({ maxCharacters: 2000, dropFields: ["related"] });
+      expect(
+        resolveShapingRules(
+          config,
+          createMockTool({ name: "other", service: "eda" }),
+        ),
+      ).toEqual({ maxCharacters: 1000, dropFields: ["related"] });
+    });
+  });
+
+  describe("addFieldsParameter", () => {
+    it("should add the fields argument", () => {
+      const tool = addFieldsParameter(createMockTool());
+      expect((tool.inputSchema as any).properties.fields).toMatchObject({
+        type: "array",
+      });
+    });
+
+    it("should keep the upstream fields parameter", () => {
+      const tool = addFieldsParameter(
+        createMockTool({
+          parameters: [{ name: "fields", in: "query" }] as any,
+        }),
+      );
+      expect((tool.inputSchema as any).properties.fields).toBeUndefined();
+    });
+  });
+
+  describe("getFieldsArgument", () => {
+    it("should accept lists and comma-separated strings", () => {
+      expect(getFieldsArgument({ fields: ["id", "name"] })).toEqual([
+        "id",
+        "name",
+      ]);
+      expect(getFieldsArgument({ fields: "id, name" })).toEqual(["id", "name"]);
+      expect(getFieldsArgument({})).toBeUndefined();
+    });
+  });
+
+  describe("projectFields", () => {
+    it("should keep the requested paths and traverse arrays", () => {
+      const projected = projectFields(hostsPage(2), [
+        "count",
+        "results[].name",
+        "results.summary_fields.inventory.name",
+      ]);
+
+      expect(projected).toEqual({
+        count: 2,
+        results: [
+          {
+            name: "host-0",
+            summary_fields: { inventory: { name: "Demo Inventory" } },
+          },
+          {
+            name: "host-1",
+            summary_fields: { inventory: { name: "Demo Inventory" } },
+          },
+        ],
+      });
+    });
+
+    it("should ignore missing paths", () => {
+      expect(projectFields({ id: 1 }, ["name"])).toEqual({});
+    });
+  });
+
+  describe("shapeResponse", () => {
+    it("should not touch responses within the budget", () => {
+      const result = hostsPage(2);
+      const shaped = shapeResponse(result, {
+        maxCharacters: 100000,
+        dropFields: ["related"],
+      });
+
+      expect(shaped.notes).toEqual([]);
+      expect(JSON.parse(shaped.text)).toEqual(result);
+    });
+
+    it("should drop fields before trimming arrays", () => {
+      const result = hostsPage(20);
+      const withoutRelated = JSON.stringify(
+        {
+          ...result,
+          results: result.results.map(
+            ({ related: _r, summary_fields: _s, ...host }) => host,
+          ),
+        },
+        null,
+        2,
+      );
+
+      const shaped = shapeResponse(result, {
+        maxCharacters: withoutRelated.length,
+        dropFields: ["related", "summary_fields"],
+      });
+
+      expect(shaped.text).toBe(withoutRelated);
+      expect(shaped.notes.join(" ")).toContain("Removed 40");
+      expect(shaped.notes.join(" ")).not.toContain("Trimmed arrays");
+      // The original result is left untouched
+      expect(result.results[0].related).toBeDefined();
+    });
+
+    it("should trim arrays when dropping fields is not enough", () => {
+      const shaped = shapeResponse(hostsPage(200), {
+        maxCharacters: 2000,
+        dropFields: ["related", "summary_fields"],
+      });
+
+      const parsed = JSON.parse(shaped.text);
+      expect(shaped.text.length).toBeLessThanOrEqual(2000);
+      expect(parsed.count).toBe(200);
+      expect(parsed.results.length).toBeLessThan(200);
+      expect(shaped.notes.join(" ")).toContain("results (kept");
+    });
+
+    it("should cut the output as a last resort", () => {
+      const shaped = shapeResponse("x".repeat(500), {
+        maxCharacters: 100,
+        dropFields: [],
+      });
+
+      expect(shaped.text).toHaveLength(100);
+      expect(shaped.notes.join(" ")).toContain("Output cut at 100");
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+
+/**
+ * Response shaping rules, as found in the response_shaping section of
+ * aap-mcp.yaml
+ */
+export interface ResponseShapingRules {
+  max_characters?: number;
+  drop_fields?: string[];
+}
+
+export interface ResponseShapingConfig extends ResponseShapingRules {
+  services?: Record<string, ResponseShapingRules>;
+  tools?: Record<string, ResponseShapingRules>;
+}
+
+export interface ResolvedShapingRules {
+  maxCharacters: number;
+  dropFields: string[];
+}
+
+export interface ShapedResponse {
+  text: string;
+  notes: string[];
+}
+
+export const DEFAULT_MAX_CHARACTERS = 100000;
+
+/**
+ * Fields AAP adds to most objects and that are the first to go when a
+ * response is over budget
+ */
+export const DEFAULT_DROP_FIELDS = ["related", "summary_fields"];
+
+/**
+ * Array sizes tried, in order, when trimming an oversized response
+ */
+const ARRAY_TRIM_STEPS = [100, 50, 20, 10, 5, 1];
+
+const serialize = (value: unknown): string => {
+  return JSON.stringify(value, null, 2);
+};
+
+/**
+ * Resolves the shaping rules of a tool. Priority: tool > service > global
+ * > default.
+ */
+export const resolveShapingRules = (
+  config: ResponseShapingConfig | undefined,
+  tool: Pick<AAPMcpToolDefinition, "name" | "service">,
+): ResolvedShapingRules => {
+  const layers: ResponseShapingRules[] = [
+    config || {},
+    (tool.service && config?.services?.[tool.service]) || {},
+    config?.tools?.[tool.name] || {},
+  ];
+
+  const resolved: ResolvedShapingRules = {
+    maxCharacters: DEFAULT_MAX_CHARACTERS,
+    dropFields: DEFAULT_DROP_FIELDS,
+  };
+  for (const layer of layers) {
+    if (layer.max_characters !== undefined) {
+      resolved.maxCharacters = layer.max_characters;
+    }
+    if (layer.drop_fields !== undefined) {
+      resolved.dropFields = layer.drop_fields;
+    }
+  }
+  return resolved;
+};
+
+/**
+ * Checks whether the AAP operation already has its own 'fields' parameter,
+ * in which case the projection is left to AAP
+ */
+export const hasUpstreamFieldsParameter = (
+  tool: AAPMcpToolDefinition,
+): boolean => {
+  return (tool.parameters || []).some((param) => param.name === "fields");
+};
+
+/**
+ * Adds the optional 'fields' projection argument to the input schema of a tool
+ */
+export const addFieldsParameter = (
+  tool: AAPMcpToolDefinition,
+): AAPMcpToolDefinition => {
+  if (hasUpstreamFieldsParameter(tool)) {
+    return tool;
+  }
+  const inputSchema = tool.inputSchema as {
+    properties?: Record<string, unknown>;
+  };
+  inputSchema.properties = {
+    ...inputSchema.properties,
+    fields: {
+      type: "array",
+      items: { type: "string" },
+      description:
+        "Only return these fields of the response. Use dotted paths, arrays are traversed implicitly (e.g. 'results.id', 'results.summary_fields.inventory.name').",
+    },
+  };
+  return tool;
+};
+
+/**
+ * Reads the 'fields' argument of a tool call, either a list or a
+ * comma-separated string
+ */
+export const getFieldsArgument = (
+  args: Record<string, unknown>,
+): string[] | undefined => {
+  if (Array.isArray(args.fields)) {
+    return args.fields.map(String);
+  }
+  if (typeof args.fields === "string") {
+    return args.fields.split(",").map((field) => field.trim());
+  }
+  return undefined;
+};
+
+/**
+ * Keeps only the given paths of a value. Arrays are traversed implicitly
+ * and a trailing '[]' on a segment is accepted (e.g. 'results[].name').
+ */
+export const projectFields = (value: unknown, fields: string[]): unknown => {
+  const paths = fields
+    .map((field) =>
+      field
+        .split(".")
+        .map((segment) => segment.replace(/\[\]$/, ""))
+        .filter((segment) => segment),
+    )
+    .filter((path) => path.length > 0);
+
+  if (paths.length === 0) {
+    return value;
+  }
+
+  const project = (current: unknown, currentPaths: string[][]): unknown => {
+    if (Array.isArray(current)) {
+      return current.map((item) => project(item, currentPaths));
+    }
+    if (typeof current !== "object" || current === null) {
+      return current;
+    }
+
+    const projected: Record<string, unknown> = {};
+    const source = current as Record<string, unknown>;
+    for (const head of new Set(currentPaths.map((path) => path[0]))) {
+      if (!(head in source)) {
+        continue;
+      }
+      const subPaths = currentPaths
+        .filter((path) => path[0] === head)
+        .map((path) => path.slice(1));
+      // A path ending here keeps the whole subtree
+      projected[head] = subPaths.some((path) => path.length === 0)
+        ? source[head]
+        : project(source[head], subPaths);
+    }
+    return projected;
+  };
+
+  return project(value, paths);
+};
+
+/**
+ * Recursively removes the given keys. Returns the number of removed keys.
+ */
+const dropFields = (value: unknown, fields: string[]): number => {
+  if (Array.isArray(value)) {
+    return value.reduce((sum, item) => sum + dropFields(item, fields), 0);
+  }
+  if (typeof value !== "object" || value === null) {
+    return 0;
+  }
+  let dropped = 0;
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (fields.includes(key)) {
+      delete record[key];
+      dropped += 1;
+    } else {
+      dropped += dropFields(record[key], fields);
+    }
+  }
+  return dropped;
+};
+
+/**
+ * Recursively trims the arrays longer than maxItems. The trimmed arrays
+ * are reported in 'trimmed', keyed by path.
+ */
+const trimArrays = (
+  value: unknown,
+  maxItems: number,
+  path: string,
+  trimmed: Record<string, { kept: number; total: number }>,
+): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.length > maxItems ? value.slice(0, maxItems) : value;
+    if (items.length < value.length) {
+      const previous = trimmed[path || "(root)"];
+      trimmed[path || "(root)"] = {
+        kept: maxItems,
+        total: Math.max(previous?.total || 0, value.length),
+      };
+    }
+    return items.map((item) => trimArrays(item, maxItems, path, trimmed));
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = trimArrays(
+      child,
+      maxItems,
+      path ? `${path}.${key}` : key,
+      trimmed,
+    );
+  }
+  return result;
+};
+
+/**
+ * Serializes a tool result within the character budget. Oversized
+ * responses lose the drop fields first, then array items, and are cut as
+ * a last resort. Each step adds a note saying what was removed.
+ */
+export const shapeResponse = (
+  result: unknown,
+  rules: ResolvedShapingRules,
+  fields?: string[],
+): ShapedResponse => {
+  const notes: string[] = [];
+  let value = result;
+
+  if (fields && fields.length > 0) {
+    value = projectFields(value, fields);
+  }
+
+  let text = serialize(value);
+  if (text.length <= rules.maxCharacters) {
+    return { text, notes };
+  }
+
+  if (typeof value === "object" && value !== null) {
+    value = structuredClone(value);
+
+    const dropped = dropFields(value, rules.dropFields);
+    if (dropped > 0) {
+      notes.push(
+        `Removed ${dropped} '${rules.dropFields.join("', '")}' field(s).`,
+      );
+      text = serialize(value);
+    }
+
+    let trimmed: Record<string, { kept: number; total: number }> = {};
+    for (const maxItems of ARRAY_TRIM_STEPS) {
+      if (text.length <= rules.maxCharacters) {
+        break;
+      }
+      const stepTrimmed: Record<string, { kept: number; total: number }> = {};
+      const trimmedValue = trimArrays(value, maxItems, "", stepTrimmed);
+      if (Object.keys(stepTrimmed).length > 0) {
+        trimmed = stepTrimmed;
+        text = serialize(trimmedValue);
+      }
+    }
+    if (Object.keys(trimmed).length > 0) {
+      notes.push(
+        `Trimmed arrays: ${Object.entries(trimmed)
+          .map(
+            ([path, { kept, total }]) => `${path} (kept ${kept} of ${total})`,
+          )
+          .join(", ")}.`,
+      );
+    }
+  }
+
+  if (text.length > rules.maxCharacters) {
+    notes.push(
+      `Output cut at ${rules.maxCharacters} of ${text.length} characters.`,
+    );
+    text = text.substring(0, rules.maxCharacters);
+  }
+
+  notes.unshift(
+    `Response exceeded the ${rules.maxCharacters} characters budget.`,
+  );
+  notes.push(
+    "Use the 'fields' argument or narrower filters to get the missing data.",
+  );
+  return { text, notes };
+};
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  confirmDestructiveCall,
+  describeTarget,
+  getDefaultRiskLevel,
+  getTargetPath,
+  resolveRiskLevel,
+} from "./risk";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const createMockTool = (
+  overrides: Partial<AAPMcpToolDefinition> = {},
+): AAPMcpToolDefinition => ({
+  name: "gateway.users_destroy",
+  description: "Delete a user",
+  inputSchema: { type: "object", properties: {} },
+  pathTemplate: "/api/gateway/v1/users/{id}/",
+  method: "delete",
+  parameters: [] as any,
+  executionParameters: {} as any,
+  securityRequirements: [] as any,
+  operationId: "users_destroy",
+  deprecated: false,
+  service: "gateway",
+  logs: [],
+  size: 100,
+  ...overrides,
+});
+
+const request = {
+  url: "https://aap.example.com/api/gateway/v1/users/42/",
+  method: "DELETE",
+  headers: {},
+};
+
+const createMockServer = (
+  capabilities: Record<string, unknown> | undefined,
+  result?: unknown,
+) => ({
+  getClientCapabilities: vi.fn(() => capabilities),
+  elicitInput: vi.fn(async () => result as any),
+});
+
+describe("Risk levels", () => {
+  describe("getDefaultRiskLevel", () => {
+    it("should derive the level from the method and the name", () => {
+      expect(getDefaultRiskLevel(createMockTool({ method: "get" }))).toBe(
+        "read",
+      );
+      expect(
+        getDefaultRiskLevel(
+          createMockTool({ name: "gateway.users_create", method: "post" }),
+        ),
+      ).toBe("write");
+      expect(getDefaultRiskLevel(createMockTool())).toBe("destructive");
+      expect(
+        getDefaultRiskLevel(
+          createMockTool({
+            name: "controller.jobs_cancel_create",
+            method: "post",
+          }),
+        ),
+      ).toBe("destructive");
+      expect(
+        getDefaultRiskLevel(
+          createMockTool({
+            name: "controller.credential_types_delete",
+            method: "post",
+          }),
+        ),
+      ).toBe("destructive");
+    });
+  });
+
+  describe("resolveRiskLevel", () => {
+    it("should let the configuration override the derived level", () => {
+      const tool = createMockTool({
+        name: "controller.jobs_relaunch_create",
+        method: "post",
+      });
+      expect(resolveRiskLevel(tool, undefined)).toBe("write");
+      expect(
+        resolveRiskLevel(tool, {
+          "controller.jobs_relaunch_create": "destructive",
+        }),
+      ).toBe("destructive");
+    });
+  });
+
+  describe("getTargetPath", () => {
+    it("should stop at the last path parameter", () => {
+      expect(getTargetPath(createMockTool())).toBe(
+        "/api/gateway/v1/users/{id}/",
+      );
+      expect(
+        getTargetPath(
+          createMockTool({
+            pathTemplate: "/api/controller/v2/jobs/{id}/cancel/",
+          }),
+        ),
+      ).toBe("/api/controller/v2/jobs/{id}/");
+      expect(
+        getTargetPath(createMockTool({ pathTemplate: "/api/gateway/v1/me/" })),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("describeTarget", () => {
+    it("should use the most meaningful field", () => {
+      expect(describeTarget({ id: 42, type: "user", username: "ada" })).toBe(
+        "user 'ada' (id 42)",
+      );
+      expect(describeTarget({ id: 7, name: "Demo Job" })).toBe(
+        "'Demo Job' (id 7)",
+      );
+      expect(describeTarget({ id: 7 })).toBe("id 7");
+      expect(describeTarget("not an object")).toBeUndefined();
+    });
+  });
+
+  describe("confirmDestructiveCall", () => {
+    it("should fail closed without elicitation support", async () => {
+      const server = createMockServer({});
+      const getTarget = vi.fn(async () => "x");
+
+      await expect(
+        confirmDestructiveCall(
+          server as any,
+          createMockTool(),
+          request,
+          getTarget,
+        ),
+      ).rejects.toThrow("does not support elicitation");
+      expect(getTarget).not.toHaveBeenCalled();
+      expect(server.elicitInput).not.toHaveBeenCalled();
+    });
+
+    it("should show the request and the target", async () => {
+      const server = createMockServer(
+        { elicitation: {} },
+        { action: "accept", content: { confirm: true } },
+      );
+
+      await confirmDestructiveCall(
+        server as any,
+        createMockTool(),
+        request,
+        async () => "user 'ada' (id 42)",
+      );
+
+      const [params] = server.elicitInput.mock.calls[0] as any[];
+      expect(params.message).toBe(
+        "Confirm the destructive operation gateway.users_destroy:\nDELETE https://aap.example.com/api/gateway/v1/users/42/\nTarget: user 'ada' (id 42)",
+      );
+      expect(params.requestedSchema.required).toEqual(["confirm"]);
+    });
+
+    it.each([
+      [{ action: "accept", content: { confirm: false } }, "declined"],
+      [{ action: "decline" }, "decline"],
+      [{ action: "cancel" }, "cancel"],
+    ])("should refuse unconfirmed calls (%o)", async (result, reason) => {
+      const server = createMockServer({ elicitation: {} }, result);
+
+      await expect(
+        confirmDestructiveCall(
+          server as any,
+          createMockTool(),
+          request,
+          async () => "x",
+        ),
+      ).rejects.toThrow(`was not confirmed (${reason})`);
+    });
+  });
+});
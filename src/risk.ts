@@ -0,0 +1,122 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+import { isReadOnlyTool } from "./permissions.js";
+import type { ToolRequest } from "./tool-request.js";
+
+export type RiskLevel = "read" | "write" | "destructive";
+
+export const RISK_LEVELS: RiskLevel[] = ["read", "write", "destructive"];
+
+// Tool name suffixes of the operations that delete or interrupt something
+export const DESTRUCTIVE_SUFFIXES = ["_destroy", "_delete", "_cancel_create"];
+
+// How long a user has to answer a confirmation request
+export const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Derives the risk level of a tool from its HTTP method and name
+ */
+export const getDefaultRiskLevel = (tool: AAPMcpToolDefinition): RiskLevel => {
+  if (isReadOnlyTool(tool)) {
+    return "read";
+  }
+  if (
+    tool.method.toUpperCase() === "DELETE" ||
+    DESTRUCTIVE_SUFFIXES.some((suffix) => tool.name.endsWith(suffix))
+  ) {
+    return "destructive";
+  }
+  return "write";
+};
+
+/**
+ * Gets the risk level of a tool, the risk_levels section of the
+ * configuration overrides the derived level
+ */
+export const resolveRiskLevel = (
+  tool: AAPMcpToolDefinition,
+  overrides: Record<string, RiskLevel> | undefined,
+): RiskLevel => {
+  return overrides?.[tool.name] ?? getDefaultRiskLevel(tool);
+};
+
+/**
+ * Gets the path of the object targeted by a tool: the path template up to
+ * its last parameter, e.g. /api/controller/v2/jobs/{id}/ for
+ * /api/controller/v2/jobs/{id}/cancel/
+ */
+export const getTargetPath = (
+  tool: AAPMcpToolDefinition,
+): string | undefined => {
+  const match = tool.pathTemplate.match(/^(.*\{[^}]+\})/);
+  return match ? `${match[1]}/` : undefined;
+};
+
+/**
+ * Gets a human readable label for an AAP object
+ */
+export const describeTarget = (resource: unknown): string | undefined => {
+  if (!resource || typeof resource !== "object") {
+    return undefined;
+  }
+  const object = resource as Record<string, unknown>;
+  const label = ["name", "username", "display_name", "title"]
+    .map((key) => object[key])
+    .find((value) => typeof value === "string" && value !== "");
+  const type = typeof object.type === "string" ? `${object.type} ` : "";
+  if (label !== undefined) {
+    return object.id !== undefined
+      ? `${type}'${label}' (id ${object.id})`
+      : `${type}'${label}'`;
+  }
+  return object.id !== undefined ? `${type}id ${object.id}` : undefined;
+};
+
+/**
+ * Asks the user to confirm a destructive tool call through MCP elicitation.
+ * Throws when the call is not confirmed, including when the client cannot
+ * ask (fail closed). getTarget is only called when the client can ask.
+ */
+export const confirmDestructiveCall = async (
+  server: Pick<Server, "getClientCapabilities" | "elicitInput">,
+  tool: AAPMcpToolDefinition,
+  request: ToolRequest,
+  getTarget: () => Promise<string | undefined>,
+): Promise<void> => {
+  if (!server.getClientCapabilities()?.elicitation) {
+    throw new Error(
+      `Tool ${tool.name} is destructive and needs a confirmation, but the MCP client does not support elicitation`,
+    );
+  }
+
+  const target = await getTarget();
+  const message = [
+    `Confirm the destructive operation ${tool.name}:`,
+    `${request.method} ${request.url}`,
+    ...(target ? [`Target: ${target}`] : []),
+  ].join("\n");
+
+  const result = await server.elicitInput(
+    {
+      message,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: "Confirm",
+            description: `Run ${tool.name}`,
+          },
+        },
+        required: ["confirm"],
+      },
+    },
+    { timeout: CONFIRMATION_TIMEOUT_MS },
+  );
+
+  if (result.action !== "accept" || result.content?.confirm !== true) {
+    throw new Error(
+      `Destructive operation ${tool.name} was not confirmed (${result.action === "accept" ? "declined" : result.action})`,
+    );
+  }
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { markSessionInitialized } from "./session-restore";
+
+// These tests fail when an SDK upgrade changes the private state used to
+// restore the sessions
+describe("markSessionInitialized", () => {
+  let httpServer: HttpServer | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => httpServer?.close(resolve) ?? resolve(0));
+    httpServer = undefined;
+  });
+
+  const restore = async () => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => "s1",
+      enableJsonResponse: true,
+    });
+    const server = new Server(
+      { name: "test", version: "1.0.0" },
+      { capabilities: { tools: {} } },
+    );
+    await server.connect(transport);
+    markSessionInitialized(transport, server, "s1", {
+      clientInfo: { name: "claude-code", version: "1.0.0" },
+      clientCapabilities: { elicitation: {} },
+    });
+    return { transport, server };
+  };
+
+  it("should restore the client details of the session", async () => {
+    const { transport, server } = await restore();
+
+    expect(transport.sessionId).toBe("s1");
+    expect(server.getClientVersion()).toEqual({
+      name: "claude-code",
+      version: "1.0.0",
+    });
+    expect(server.getClientCapabilities()).toEqual({ elicitation: {} });
+  });
+
+  it("should let the transport serve the requests of the session", async () => {
+    const { transport } = await restore();
+    httpServer = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        void transport.handleRequest(req, res, JSON.parse(body));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      httpServer!.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = httpServer.address() as AddressInfo;
+
+    const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "mcp-session-id": "s1",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      jsonrpc: "2.0",
+      id: 1,
+      result: {},
+    });
+  });
+});
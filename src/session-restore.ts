@@ -0,0 +1,48 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type {
+  ClientCapabilities,
+  Implementation,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { SessionDetails } from "./sessions.js";
+
+/**
+ * Private state the initialize request sets in the SDK classes. The SDK has
+ * no public API to resume a session initialized by another server, this
+ * matches the pinned @modelcontextprotocol/sdk version and is checked by
+ * session-restore.test.ts on upgrades.
+ */
+interface TransportInternals {
+  sessionId?: string;
+  _initialized?: boolean;
+}
+
+interface ServerInternals {
+  _clientCapabilities?: ClientCapabilities;
+  _clientVersion?: Implementation;
+}
+
+/**
+ * Marks a new transport and its connected server as initialized with the
+ * details of a session, as if the client had sent its initialize request
+ * to them
+ */
+export const markSessionInitialized = (
+  transport: StreamableHTTPServerTransport,
+  server: Server,
+  sessionId: string,
+  details: SessionDetails,
+): void => {
+  const transportInternals = transport as unknown as TransportInternals;
+  if (typeof transportInternals._initialized !== "boolean") {
+    throw new Error(
+      "Cannot restore the session: unsupported @modelcontextprotocol/sdk version",
+    );
+  }
+  transportInternals.sessionId = sessionId;
+  transportInternals._initialized = true;
+
+  const serverInternals = server as unknown as ServerInternals;
+  serverInternals._clientCapabilities = details.clientCapabilities;
+  serverInternals._clientVersion = details.clientInfo;
+};
@@ -0,0 +1,113 @@
+import { Redis } from "ioredis";
+import {
+  decryptToken,
+  encryptToken,
+  type SessionStore,
+} from "./session-store.js";
+import type { SessionRecord } from "./sessions.js";
+import { createLogger } from "./logging.js";
+
+const log = createLogger("sessions");
+
+/**
+ * Commands used by the store, any Redis-compatible server works
+ */
+export interface RedisSessionClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(
+    key: string,
+    value: string,
+    millisecondsToken: "PX",
+    milliseconds: number,
+  ): Promise<unknown>;
+  del(key: string): Promise<number>;
+  quit(): Promise<unknown>;
+}
+
+export interface RedisSessionStoreOptions {
+  keyPrefix: string;
+  encryptionKey: string;
+}
+
+/**
+ * Sessions stored as JSON in Redis, one key per session expiring with the
+ * session. The tokens are encrypted.
+ */
+export class RedisSessionStore implements SessionStore {
+  private readonly client: RedisSessionClient;
+  private readonly keyPrefix: string;
+  private readonly encryptionKey: string;
+
+  constructor(client: RedisSessionClient, options: RedisSessionStoreOptions) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix;
+    this.encryptionKey = options.encryptionKey;
+  }
+
+  static connect(
+    url: string,
+    options: RedisSessionStoreOptions,
+  ): RedisSessionStore {
+    const client = new Redis(url, { maxRetriesPerRequest: 2 });
+    client.on("error", (error) => {
+      log.error("Session store connection error", { error });
+    });
+    return new RedisSessionStore(client, options);
+  }
+
+  private key(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}`;
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | undefined> {
+    const value = await this.client.get(this.key(sessionId));
+    if (value === null) {
+      return undefined;
+    }
+    const record = JSON.parse(value) as SessionRecord;
+    if (record.token !== undefined) {
+      try {
+        record.token = decryptToken(record.token, this.encryptionKey);
+      } catch {
+        // Stored with another key, the client starts a new session
+        log.warn("Cannot decrypt the token of the session", { sessionId });
+        return undefined;
+      }
+    }
+    return record;
+  }
+
+  async set(
+    sessionId: string,
+    record: SessionRecord,
+    ttlMs?: number,
+  ): Promise<void> {
+    const value = JSON.stringify({
+      ...record,
+      token:
+        record.token !== undefined
+          ? encryptToken(record.token, this.encryptionKey)
+          : undefined,
+    });
+    if (ttlMs !== undefined) {
+      // Redis rejects a zero expiry
+      await this.client.set(
+        this.key(sessionId),
+        value,
+        "PX",
+        Math.max(1, Math.ceil(ttlMs)),
+      );
+    } else {
+      await this.client.set(this.key(sessionId), value);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.del(this.key(sessionId));
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
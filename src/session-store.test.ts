@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  MemorySessionStore,
+  createSessionStore,
+  decryptToken,
+  encryptToken,
+} from "./session-store";
+import {
+  RedisSessionStore,
+  type RedisSessionClient,
+} from "./session-store-redis";
+import type { SessionRecord } from "./sessions";
+
+const record: SessionRecord = {
+  token: "secret-token",
+  category: "job_management",
+  userAgent: "test-client/1.0",
+  clientInfo: { name: "test-client", version: "1.0" },
+  clientCapabilities: { roots: {} },
+  user: { username: "ada", is_superuser: false, is_platform_auditor: false },
+  createdAt: 1000,
+  lastActivityAt: 2000,
+  validatedAt: 1000,
+};
+
+// Stand-in for a Redis server, the expiries are recorded but not enforced
+class FakeRedis implements RedisSessionClient {
+  readonly values = new Map<string, string>();
+  readonly expiries = new Map<string, number>();
+  quit = vi.fn(async () => "OK");
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(
+    key: string,
+    value: string,
+    _px?: "PX",
+    milliseconds?: number,
+  ): Promise<unknown> {
+    this.values.set(key, value);
+    if (milliseconds !== undefined) {
+      this.expiries.set(key, milliseconds);
+    } else {
+      this.expiries.delete(key);
+    }
+    return "OK";
+  }
+
+  async del(key: string): Promise<number> {
+    return this.values.delete(key) ? 1 : 0;
+  }
+}
+
+describe("session stores", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("token encryption", () => {
+    it("should decrypt the tokens with the same key only", () => {
+      const encrypted = encryptToken("secret-token", "key");
+
+      expect(encrypted).toMatch(/^v1:/);
+      expect(encrypted).not.toContain("secret-token");
+      expect(encryptToken("secret-token", "key")).not.toBe(encrypted);
+      expect(decryptToken(encrypted, "key")).toBe("secret-token");
+      expect(() => decryptToken(encrypted, "other")).toThrow();
+      expect(() => decryptToken("secret-token", "key")).toThrow(
+        "Invalid encrypted token",
+      );
+    });
+  });
+
+  describe("MemorySessionStore", () => {
+    it("should store copies of the records until they expire", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      const store = new MemorySessionStore();
+
+      await store.set("s1", record, 1000);
+      const stored = await store.get("s1");
+      expect(stored).toEqual(record);
+      stored!.user!.is_superuser = true;
+      expect((await store.get("s1"))?.user?.is_superuser).toBe(false);
+
+      vi.setSystemTime(1000);
+      expect(await store.get("s1")).toBeUndefined();
+    });
+
+    it("should delete the records", async () => {
+      const store = new MemorySessionStore();
+      await store.set("s1", record);
+
+      await store.delete("s1");
+
+      expect(await store.get("s1")).toBeUndefined();
+    });
+  });
+
+  describe("RedisSessionStore", () => {
+    let client: FakeRedis;
+    let store: RedisSessionStore;
+
+    beforeEach(() => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      client = new FakeRedis();
+      store = new RedisSessionStore(client, {
+        keyPrefix: "test:",
+        encryptionKey: "key",
+      });
+    });
+
+    it("should store the sessions with their token encrypted", async () => {
+      await store.set("s1", record, 1500.5);
+
+      const value = client.values.get("test:session:s1")!;
+      expect(value).not.toContain("secret-token");
+      expect(decryptToken(JSON.parse(value).token, "key")).toBe("secret-token");
+      expect(client.expiries.get("test:session:s1")).toBe(1501);
+      expect(await store.get("s1")).toEqual(record);
+    });
+
+    it("should store the sessions without a token or an expiry", async () => {
+      const { token: _token, ...withoutToken } = record;
+
+      await store.set("s1", withoutToken);
+
+      expect(client.expiries.has("test:session:s1")).toBe(false);
+      expect(await store.get("s1")).toEqual(withoutToken);
+    });
+
+    it("should ignore the sessions encrypted with another key", async () => {
+      await new RedisSessionStore(client, {
+        keyPrefix: "test:",
+        encryptionKey: "other",
+      }).set("s1", record);
+
+      expect(await store.get("s1")).toBeUndefined();
+    });
+
+    it("should delete the sessions and close the connection", async () => {
+      await store.set("s1", record);
+
+      await store.delete("s1");
+      await store.close();
+
+      expect(await store.get("s1")).toBeUndefined();
+      expect(client.quit).toHaveBeenCalled();
+    });
+  });
+
+  describe("createSessionStore", () => {
+    it("should default to the memory store", () => {
+      expect(createSessionStore()).toBeInstanceOf(MemorySessionStore);
+    });
+
+    it("should require a URL and an encryption key for redis", () => {
+      expect(() => createSessionStore({ backend: "redis" }, {})).toThrow(
+        "needs a URL",
+      );
+      expect(() =>
+        createSessionStore(
+          { backend: "redis" },
+          { SESSION_STORE_URL: "redis://localhost:6379" },
+        ),
+      ).toThrow("needs an encryption key");
+    });
+  });
+});
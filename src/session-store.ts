@@ -0,0 +1,152 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import type { SessionRecord } from "./sessions.js";
+import { RedisSessionStore } from "./session-store-redis.js";
+
+/**
+ * Storage of the MCP sessions, shared by the replicas of the server so
+ * that any of them can serve a session created by another one
+ */
+
+export type SessionStoreBackend = "memory" | "redis";
+
+export const SESSION_STORE_BACKENDS: SessionStoreBackend[] = [
+  "memory",
+  "redis",
+];
+
+/**
+ * store section of the sessions configuration
+ */
+export interface SessionStoreConfig {
+  backend?: SessionStoreBackend;
+  // redis:// or rediss:// URL, lower priority than SESSION_STORE_URL
+  url?: string;
+  key_prefix?: string;
+  // Encrypts the tokens, lower priority than SESSION_ENCRYPTION_KEY
+  encryption_key?: string;
+}
+
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionRecord | undefined>;
+  // ttlMs is how long the session may live without being written again
+  set(sessionId: string, record: SessionRecord, ttlMs?: number): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Sessions of a single server, lost on restart
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<
+    string,
+    { record: SessionRecord; expiresAt?: number }
+  >();
+
+  async get(sessionId: string): Promise<SessionRecord | undefined> {
+    const stored = this.sessions.get(sessionId);
+    if (stored?.expiresAt !== undefined && stored.expiresAt <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+    // A copy, as the other backends return
+    return stored ? structuredClone(stored.record) : undefined;
+  }
+
+  async set(
+    sessionId: string,
+    record: SessionRecord,
+    ttlMs?: number,
+  ): Promise<void> {
+    this.sessions.set(sessionId, {
+      record: structuredClone(record),
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+  }
+}
+
+// Prefix of the tokens encrypted with the current scheme
+const ENCRYPTED_TOKEN_PREFIX = "v1";
+
+const deriveKey = (secret: string): Buffer =>
+  createHash("sha256").update(secret).digest();
+
+/**
+ * Encrypts a token with AES-256-GCM, the key is derived from the secret
+ */
+export const encryptToken = (token: string, secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(token), cipher.final()]);
+  return [
+    ENCRYPTED_TOKEN_PREFIX,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+};
+
+/**
+ * Decrypts a token of encryptToken, throws when the secret is wrong or
+ * the value was modified
+ */
+export const decryptToken = (value: string, secret: string): string => {
+  const [prefix, iv, tag, encrypted] = value.split(":");
+  if (prefix !== ENCRYPTED_TOKEN_PREFIX || !iv || !tag || !encrypted) {
+    throw new Error("Invalid encrypted token");
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(secret),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString();
+};
+
+export const DEFAULT_SESSION_KEY_PREFIX = "aap-mcp:";
+
+/**
+ * Opens the configured store. The environment variables have priority
+ * over the configuration.
+ */
+export const createSessionStore = (
+  config: SessionStoreConfig = {},
+  env: NodeJS.ProcessEnv = process.env,
+): SessionStore => {
+  if ((config.backend ?? "memory") === "memory") {
+    return new MemorySessionStore();
+  }
+  const url = env.SESSION_STORE_URL || config.url;
+  const encryptionKey = env.SESSION_ENCRYPTION_KEY || config.encryption_key;
+  if (!url) {
+    throw new Error(
+      "The redis session store needs a URL (sessions.store.url or SESSION_STORE_URL)",
+    );
+  }
+  if (!encryptionKey) {
+    throw new Error(
+      "The redis session store needs an encryption key for the tokens (sessions.store.encryption_key or SESSION_ENCRYPTION_KEY)",
+    );
+  }
+  return RedisSessionStore.connect(url, {
+    keyPrefix: config.key_prefix ?? DEFAULT_SESSION_KEY_PREFIX,
+    encryptionKey,
+  });
+};
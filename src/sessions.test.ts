@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  SessionManager,
+  TokenRejectedError,
+  describeSessionEnd,
+} from "./sessions";
+import { MemorySessionStore } from "./session-store";
+
+const MINUTE = 60 * 1000;
+
+describe("SessionManager", () => {
+  const validateToken = vi.fn();
+  const closeSession = vi.fn();
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    validateToken.mockReset();
+    closeSession.mockReset();
+    manager = new SessionManager({
+      config: {
+        idle_timeout_minutes: 10,
+        max_lifetime_minutes: 60,
+        max_sessions: 3,
+        max_sessions_per_token: 2,
+        revalidate_interval_minutes: 5,
+      },
+      validateToken,
+      closeSession,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should enforce the global and per token limits", async () => {
+    await manager.open("s1", { token: "token-a" }, 0);
+    await manager.open("s2", { token: "token-a" }, 0);
+
+    expect(manager.checkLimits("token-a")).toBe("per_token");
+    expect(manager.checkLimits("token-b")).toBeUndefined();
+    expect(manager.checkLimits(undefined)).toBeUndefined();
+
+    await manager.open("s3", {}, 0);
+    expect(manager.checkLimits("token-b")).toBe("global");
+  });
+
+  it("should open the sessions once their token is validated", async () => {
+    validateToken.mockResolvedValue({
+      username: "ada",
+      is_superuser: false,
+      is_platform_auditor: false,
+    });
+
+    const user = await manager.initialize("s1", { token: "token-a" }, 0);
+
+    expect(validateToken).toHaveBeenCalledWith("token-a");
+    expect(user).toMatchObject({ username: "ada" });
+    expect(manager.get("s1")).toMatchObject({
+      token: "token-a",
+      user: { username: "ada" },
+    });
+  });
+
+  it("should not count the sessions of the rejected tokens", async () => {
+    validateToken.mockRejectedValue(
+      new TokenRejectedError("Authentication failed: 401 Unauthorized"),
+    );
+
+    for (const sessionId of ["s1", "s2", "s3"]) {
+      await expect(
+        manager.initialize(sessionId, { token: "invalid" }, 0),
+      ).rejects.toThrow(TokenRejectedError);
+    }
+
+    expect(manager.size).toBe(0);
+    expect(manager.get("s1")).toBeUndefined();
+    expect(manager.checkLimits("token-b")).toBeUndefined();
+  });
+
+  it("should open the sessions without a token", async () => {
+    expect(await manager.initialize("s1", {}, 0)).toBeUndefined();
+
+    expect(validateToken).not.toHaveBeenCalled();
+    expect(manager.size).toBe(1);
+  });
+
+  it("should end the idle sessions on their next request", async () => {
+    await manager.open("s1", { token: "token-a" }, 0);
+
+    expect(await manager.recordActivity("s1", 9 * MINUTE)).toBeUndefined();
+    expect(await manager.recordActivity("s1", 18 * MINUTE)).toBeUndefined();
+    expect(await manager.recordActivity("s1", 28 * MINUTE)).toBe("idle");
+
+    expect(closeSession).toHaveBeenCalledWith("s1", "idle");
+    expect(manager.get("s1")).toBeUndefined();
+    // The next requests still get the reason
+    expect(await manager.recordActivity("s1", 29 * MINUTE)).toBe("idle");
+    expect(closeSession).toHaveBeenCalledTimes(1);
+    expect(await manager.recordActivity("unknown")).toBeUndefined();
+  });
+
+  it("should end the sessions past their lifetime", async () => {
+    await manager.open("s1", { token: "token-a" }, 0);
+    await manager.setUser(
+      "s1",
+      { is_superuser: false, is_platform_auditor: false },
+      0,
+    );
+    for (let minute = 5; minute < 60; minute += 5) {
+      await manager.recordActivity("s1", minute * MINUTE);
+    }
+    validateToken.mockResolvedValue({ is_superuser: false });
+
+    await manager.sweep(60 * MINUTE);
+
+    expect(closeSession).toHaveBeenCalledWith("s1", "ttl");
+    expect(validateToken).not.toHaveBeenCalled();
+  });
+
+  it("should revalidate the tokens once per sweep", async () => {
+    await manager.open("s1", { token: "token-a" }, 0);
+    await manager.open("s2", { token: "token-a" }, 0);
+    await manager.open("s3", {}, 0);
+    validateToken.mockResolvedValue({
+      username: "ada",
+      is_superuser: true,
+      is_platform_auditor: false,
+    });
+
+    await manager.sweep(4 * MINUTE);
+    expect(validateToken).not.toHaveBeenCalled();
+
+    await manager.sweep(5 * MINUTE);
+    expect(validateToken).toHaveBeenCalledTimes(1);
+    expect(manager.get("s2")).toMatchObject({
+      user: { username: "ada", is_superuser: true },
+      validatedAt: 5 * MINUTE,
+    });
+    expect(closeSession).not.toHaveBeenCalled();
+  });
+
+  it("should close the sessions of the revoked tokens", async () => {
+    await manager.open("s1", { token: "token-a" }, 0);
+    validateToken.mockRejectedValue(
+      new TokenRejectedError("Authentication failed: 401 Unauthorized"),
+    );
+
+    await manager.sweep(5 * MINUTE);
+
+    expect(closeSession).toHaveBeenCalledWith("s1", "revoked");
+    expect(await manager.recordActivity("s1", 6 * MINUTE)).toBe("revoked");
+  });
+
+  it("should keep the sessions while AAP cannot validate the tokens", async () => {
+    await manager.open("s1", { token: "token-a" }, 0);
+    validateToken.mockRejectedValueOnce(
+      new Error("Service gateway is unavailable"),
+    );
+    validateToken.mockResolvedValueOnce({
+      username: "ada",
+      is_superuser: false,
+      is_platform_auditor: false,
+    });
+
+    await manager.sweep(5 * MINUTE);
+    expect(closeSession).not.toHaveBeenCalled();
+    expect(manager.get("s1")).toMatchObject({ validatedAt: 0 });
+
+    // Retried on the next sweep
+    await manager.sweep(6 * MINUTE);
+    expect(validateToken).toHaveBeenCalledTimes(2);
+    expect(manager.get("s1")).toMatchObject({
+      user: { username: "ada" },
+      validatedAt: 6 * MINUTE,
+    });
+  });
+
+  it("should not expire anything with the limits disabled", async () => {
+    manager = new SessionManager({
+      config: {
+        idle_timeout_minutes: 0,
+        max_lifetime_minutes: 0,
+        max_sessions: 0,
+        revalidate_interval_minutes: 0,
+      },
+      validateToken,
+      closeSession,
+    });
+    await manager.open("s1", { token: "token-a" }, 0);
+
+    await manager.sweep(1000 * MINUTE);
+
+    expect(manager.get("s1")).toBeDefined();
+    expect(manager.checkLimits("token-b")).toBeUndefined();
+    expect(validateToken).not.toHaveBeenCalled();
+  });
+
+  describe("with a shared store", () => {
+    let store: MemorySessionStore;
+    let other: SessionManager;
+    const closeOther = vi.fn();
+
+    beforeEach(() => {
+      store = new MemorySessionStore();
+      const options = {
+        config: { idle_timeout_minutes: 10, revalidate_interval_minutes: 0 },
+        store,
+        validateToken,
+      };
+      manager = new SessionManager({ ...options, closeSession });
+      closeOther.mockReset();
+      other = new SessionManager({ ...options, closeSession: closeOther });
+    });
+
+    it("should serve the sessions opened by another server", async () => {
+      await manager.open(
+        "s1",
+        { token: "token-a", category: "job_management", dryRun: true },
+        0,
+      );
+      await manager.setUser(
+        "s1",
+        { username: "ada", is_superuser: false, is_platform_auditor: true },
+        0,
+      );
+
+      expect(other.get("s1")).toBeUndefined();
+      expect(await other.recordActivity("s1", MINUTE)).toBeUndefined();
+      expect(other.get("s1")).toMatchObject({
+        token: "token-a",
+        category: "job_management",
+        dryRun: true,
+        user: { username: "ada", is_platform_auditor: true },
+        lastActivityAt: MINUTE,
+      });
+      expect(await other.recordActivity("unknown", MINUTE)).toBeUndefined();
+    });
+
+    it("should count the activity served by another server", async () => {
+      await manager.open("s1", { token: "token-a" }, 0);
+      await other.recordActivity("s1", 8 * MINUTE);
+
+      await manager.sweep(12 * MINUTE);
+      expect(closeSession).not.toHaveBeenCalled();
+
+      await manager.sweep(18 * MINUTE);
+      expect(closeSession).toHaveBeenCalledWith("s1", "idle");
+      expect(await store.get("s1")).toBeUndefined();
+    });
+
+    it("should close the sessions terminated on another server", async () => {
+      await manager.open("s1", { token: "token-a" }, 0);
+      await other.recordActivity("s1", MINUTE);
+
+      expect(await manager.remove("s1")).toBe(true);
+
+      expect(await other.recordActivity("s1", 2 * MINUTE)).toBe("closed");
+      expect(closeOther).toHaveBeenCalledWith("s1", "closed");
+    });
+
+    it("should keep the forgotten sessions in the store", async () => {
+      await manager.open("s1", { token: "token-a" }, 0);
+
+      manager.forget("s1");
+
+      expect(manager.get("s1")).toBeUndefined();
+      expect(await other.recordActivity("s1", MINUTE)).toBeUndefined();
+    });
+  });
+
+  it("should describe why a session ended", () => {
+    expect(describeSessionEnd("idle", { idle_timeout_minutes: 10 })).toBe(
+      "Session expired after 10 minutes of inactivity",
+    );
+    expect(describeSessionEnd("revoked")).toBe(
+      "Session closed, its token is no longer valid",
+    );
+  });
+});
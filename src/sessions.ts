@@ -0,0 +1,456 @@
+import type { UserPermissions } from "./permissions.js";
+import { createLogger } from "./logging.js";
+import {
+  MemorySessionStore,
+  type SessionStore,
+  type SessionStoreConfig,
+} from "./session-store.js";
+
+const log = createLogger("sessions");
+
+/**
+ * sessions section of aap-mcp.yaml. A limit of 0 disables it.
+ */
+export interface SessionsConfig {
+  idle_timeout_minutes?: number;
+  max_lifetime_minutes?: number;
+  max_sessions?: number;
+  max_sessions_per_token?: number;
+  sweep_interval_seconds?: number;
+  revalidate_interval_minutes?: number;
+  store?: SessionStoreConfig;
+}
+
+export const DEFAULT_SESSIONS_CONFIG: Required<Omit<SessionsConfig, "store">> =
+  {
+    idle_timeout_minutes: 60,
+    max_lifetime_minutes: 1440,
+    max_sessions: 1000,
+    max_sessions_per_token: 50,
+    sweep_interval_seconds: 60,
+    revalidate_interval_minutes: 15,
+  };
+
+// AAP account of a token, as returned by /api/gateway/v1/me/
+export interface SessionUser extends UserPermissions {
+  username?: string;
+  user_id?: number;
+}
+
+/**
+ * AAP explicitly refused a token (401 or 403). Any other validation failure
+ * is transient and the token is checked again on the next sweep.
+ */
+export class TokenRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenRejectedError";
+  }
+}
+
+// What a server needs to serve a session it did not initialize
+export interface SessionDetails {
+  // Token sent by the client, the fallback token is used without one
+  token?: string;
+  category?: string;
+  userAgent?: string;
+  dryRun?: boolean;
+  // clientInfo and capabilities of the initialize request
+  clientInfo?: { name: string; version: string };
+  clientCapabilities?: Record<string, unknown>;
+}
+
+export interface SessionRecord extends SessionDetails {
+  // Set once the token is validated
+  user?: SessionUser;
+  createdAt: number;
+  lastActivityAt: number;
+  validatedAt: number;
+}
+
+// closed: the session was removed from the store by another server
+export type SessionEndReason = "idle" | "ttl" | "revoked" | "closed";
+
+export type SessionLimit = "global" | "per_token";
+
+// Ended sessions remembered to explain the requests that still use them
+const MAX_ENDED_SESSIONS = 1000;
+
+export interface SessionManagerOptions {
+  config?: SessionsConfig;
+  // Shared by the servers of a deployment, in memory by default
+  store?: SessionStore;
+  // Validates a token against /api/gateway/v1/me/, rejects with a
+  // TokenRejectedError when AAP refuses it
+  validateToken: (token: string) => Promise<SessionUser>;
+  // Closes the transport of an ended session
+  closeSession: (
+    sessionId: string,
+    reason: SessionEndReason,
+  ) => Promise<void> | void;
+}
+
+/**
+ * Message of the JSON-RPC error returned to the requests of an ended
+ * session
+ */
+export const describeSessionEnd = (
+  reason: SessionEndReason,
+  config: SessionsConfig = {},
+): string => {
+  switch (reason) {
+    case "idle":
+      return `Session expired after ${config.idle_timeout_minutes ?? DEFAULT_SESSIONS_CONFIG.idle_timeout_minutes} minutes of inactivity`;
+    case "ttl":
+      return "Session expired, it reached its maximum lifetime";
+    case "revoked":
+      return "Session closed, its token is no longer valid";
+    case "closed":
+      return "Session closed";
+  }
+};
+
+/**
+ * Tokens and users of the MCP sessions. Sessions past their idle timeout
+ * or lifetime are closed by a periodic sweep, which also checks that the
+ * tokens are still valid.
+ *
+ * The sessions are written to the store, the servers sharing it can serve
+ * each other's sessions. The records of the sessions served here are kept
+ * in memory too, the limits only count these.
+ */
+export class SessionManager {
+  readonly config: Required<Omit<SessionsConfig, "store">>;
+  private readonly store: SessionStore;
+  private readonly sessions = new Map<string, SessionRecord>();
+  private readonly ended = new Map<string, SessionEndReason>();
+  private readonly validateToken: SessionManagerOptions["validateToken"];
+  private readonly closeSession: SessionManagerOptions["closeSession"];
+  private timer: NodeJS.Timeout | undefined;
+  private sweeping: Promise<void> | undefined;
+
+  constructor(options: SessionManagerOptions) {
+    const { store: _store, ...config } = options.config ?? {};
+    this.config = { ...DEFAULT_SESSIONS_CONFIG, ...config };
+    this.store = options.store ?? new MemorySessionStore();
+    this.validateToken = options.validateToken;
+    this.closeSession = options.closeSession;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(sessionId: string | undefined): SessionRecord | undefined {
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  /**
+   * The limit a new session of a token would exceed, if any
+   */
+  checkLimits(token: string | undefined): SessionLimit | undefined {
+    const { max_sessions, max_sessions_per_token } = this.config;
+    if (max_sessions > 0 && this.sessions.size >= max_sessions) {
+      return "global";
+    }
+    if (token && max_sessions_per_token > 0) {
+      let count = 0;
+      for (const record of this.sessions.values()) {
+        if (record.token === token) {
+          count++;
+        }
+      }
+      if (count >= max_sessions_per_token) {
+        return "per_token";
+      }
+    }
+    return undefined;
+  }
+
+  async open(
+    sessionId: string,
+    details: SessionDetails = {},
+    now: number = Date.now(),
+  ): Promise<void> {
+    const record: SessionRecord = {
+      ...details,
+      createdAt: now,
+      lastActivityAt: now,
+      validatedAt: now,
+    };
+    this.sessions.set(sessionId, record);
+    await this.save(sessionId, record, now);
+  }
+
+  /**
+   * Opens a session once its token is validated. A token AAP refuses
+   * leaves no session behind to count toward the limits.
+   */
+  async initialize(
+    sessionId: string,
+    details: SessionDetails = {},
+    now: number = Date.now(),
+  ): Promise<SessionUser | undefined> {
+    const user = details.token
+      ? await this.validateToken(details.token)
+      : undefined;
+    await this.open(sessionId, details, now);
+    if (user) {
+      await this.setUser(sessionId, user, now);
+    }
+    return user;
+  }
+
+  async setUser(
+    sessionId: string,
+    user: SessionUser,
+    now: number = Date.now(),
+  ): Promise<void> {
+    const record = this.sessions.get(sessionId);
+    if (record) {
+      record.user = user;
+      record.validatedAt = now;
+      await this.save(sessionId, record, now);
+    }
+  }
+
+  /**
+   * Forgets a session served here, it stays in the store for the other
+   * servers
+   */
+  forget(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Removes a session terminated by its client, from the store too
+   */
+  async remove(sessionId: string): Promise<boolean> {
+    const removed = this.forget(sessionId);
+    await this.deleteStored(sessionId);
+    return removed;
+  }
+
+  /**
+   * Milliseconds before a session reaches one of its limits, undefined
+   * when both are disabled
+   */
+  getTimeToLive(
+    record: SessionRecord,
+    now: number = Date.now(),
+  ): number | undefined {
+    const { idle_timeout_minutes, max_lifetime_minutes } = this.config;
+    const remaining: number[] = [];
+    if (max_lifetime_minutes > 0) {
+      remaining.push(record.createdAt + max_lifetime_minutes * 60 * 1000 - now);
+    }
+    if (idle_timeout_minutes > 0) {
+      remaining.push(
+        record.lastActivityAt + idle_timeout_minutes * 60 * 1000 - now,
+      );
+    }
+    return remaining.length > 0
+      ? Math.max(0, Math.min(...remaining))
+      : undefined;
+  }
+
+  /**
+   * Why a session should end now, if it should
+   */
+  getExpiry(
+    record: SessionRecord,
+    now: number = Date.now(),
+  ): SessionEndReason | undefined {
+    const { idle_timeout_minutes, max_lifetime_minutes } = this.config;
+    if (
+      max_lifetime_minutes > 0 &&
+      now - record.createdAt >= max_lifetime_minutes * 60 * 1000
+    ) {
+      return "ttl";
+    }
+    if (
+      idle_timeout_minutes > 0 &&
+      now - record.lastActivityAt >= idle_timeout_minutes * 60 * 1000
+    ) {
+      return "idle";
+    }
+    return undefined;
+  }
+
+  /**
+   * Records a request of a session. Returns why the session ended when it
+   * is past its limits, it is then closed, or was closed by the sweep or
+   * another server. The record of a session found in the store is kept
+   * here, ready to be served.
+   */
+  async recordActivity(
+    sessionId: string,
+    now: number = Date.now(),
+  ): Promise<SessionEndReason | undefined> {
+    const ended = this.ended.get(sessionId);
+    if (ended) {
+      return ended;
+    }
+    const cached = this.sessions.get(sessionId);
+    const record = await this.load(sessionId, cached);
+    if (!record) {
+      if (!cached) {
+        return undefined;
+      }
+      // Removed from the store: ended by another server or expired there
+      const reason = this.getExpiry(cached, now) ?? "closed";
+      await this.end(sessionId, reason);
+      return reason;
+    }
+    this.sessions.set(sessionId, record);
+    const reason = this.getExpiry(record, now);
+    if (reason) {
+      await this.end(sessionId, reason);
+      return reason;
+    }
+    record.lastActivityAt = now;
+    await this.save(sessionId, record, now);
+    return undefined;
+  }
+
+  /**
+   * Forgets a session, removes it from the store and closes its transport
+   */
+  async end(sessionId: string, reason: SessionEndReason): Promise<void> {
+    if (!this.sessions.delete(sessionId)) {
+      return;
+    }
+    this.ended.set(sessionId, reason);
+    if (this.ended.size > MAX_ENDED_SESSIONS) {
+      this.ended.delete(this.ended.keys().next().value as string);
+    }
+    log.info("Session ended", { sessionId, reason });
+    if (reason !== "closed") {
+      await this.deleteStored(sessionId);
+    }
+    try {
+      await this.closeSession(sessionId, reason);
+    } catch (error) {
+      log.error("Error closing the session", { sessionId, error });
+    }
+  }
+
+  /**
+   * Ends the expired sessions and revalidates the tokens not checked for
+   * revalidate_interval_minutes. A sweep already in progress is awaited
+   * instead of starting another one.
+   */
+  async sweep(now: number = Date.now()): Promise<void> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep(now).finally(() => {
+        this.sweeping = undefined;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async runSweep(now: number): Promise<void> {
+    const revalidateMs = this.config.revalidate_interval_minutes * 60 * 1000;
+    // Sessions sharing a token are revalidated with a single request
+    const validations = new Map<string, Promise<SessionUser>>();
+
+    for (const [sessionId, cached] of [...this.sessions]) {
+      // The requests served by the other servers count as activity
+      const record = await this.load(sessionId, cached);
+      if (!record) {
+        await this.end(sessionId, this.getExpiry(cached, now) ?? "closed");
+        continue;
+      }
+      const reason = this.getExpiry(record, now);
+      if (reason) {
+        await this.end(sessionId, reason);
+        continue;
+      }
+      this.sessions.set(sessionId, record);
+      if (
+        !record.token ||
+        revalidateMs <= 0 ||
+        now - record.validatedAt < revalidateMs
+      ) {
+        continue;
+      }
+      let validation = validations.get(record.token);
+      if (!validation) {
+        validation = this.validateToken(record.token);
+        validations.set(record.token, validation);
+      }
+      try {
+        await this.setUser(sessionId, await validation, now);
+      } catch (error) {
+        if (error instanceof TokenRejectedError) {
+          log.warn("Token revoked", { sessionId, error });
+          await this.end(sessionId, "revoked");
+        } else {
+          // AAP unavailable, the session is kept and checked on the next sweep
+          log.warn("Token revalidation failed", { sessionId, error });
+        }
+      }
+    }
+  }
+
+  /**
+   * Record of a session in the store. The record in memory is used when
+   * the store cannot be read.
+   */
+  private async load(
+    sessionId: string,
+    cached: SessionRecord | undefined,
+  ): Promise<SessionRecord | undefined> {
+    try {
+      return await this.store.get(sessionId);
+    } catch (error) {
+      log.error("Cannot read the session store", { sessionId, error });
+      return cached;
+    }
+  }
+
+  private async save(
+    sessionId: string,
+    record: SessionRecord,
+    now: number,
+  ): Promise<void> {
+    try {
+      await this.store.set(sessionId, record, this.getTimeToLive(record, now));
+    } catch (error) {
+      log.error("Cannot write to the session store", { sessionId, error });
+    }
+  }
+
+  private async deleteStored(sessionId: string): Promise<void> {
+    try {
+      await this.store.delete(sessionId);
+    } catch (error) {
+      log.error("Cannot delete from the session store", { sessionId, error });
+    }
+  }
+
+  /**
+   * Sweeps every sweep_interval_seconds. The timer does not keep the
+   * process alive.
+   */
+  start(): void {
+    this.stop();
+    this.timer = setInterval(
+      () => void this.sweep(),
+      this.config.sweep_interval_seconds * 1000,
+    );
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.stop();
+    await this.store.close();
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SpecRetryScheduler } from "./spec-retry";
+
+const SECOND = 1000;
+
+describe("SpecRetryScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createScheduler = (load: (service: string) => Promise<boolean>) =>
+    new SpecRetryScheduler({
+      load,
+      initialDelayMs: 10 * SECOND,
+      maxDelayMs: 30 * SECOND,
+      random: () => 1,
+    });
+
+  it("should retry with an exponential backoff until the spec loads", async () => {
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(false)
+      .mockRejectedValueOnce(new Error("HTTP 502"))
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    const scheduler = createScheduler(load);
+
+    scheduler.schedule("eda");
+    expect(scheduler.getPending()).toEqual({
+      eda: new Date(10 * SECOND).toISOString(),
+    });
+
+    await vi.advanceTimersByTimeAsync(10 * SECOND);
+    expect(load).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(20 * SECOND);
+    expect(load).toHaveBeenCalledTimes(2);
+    // Capped at maxDelayMs
+    await vi.advanceTimersByTimeAsync(29 * SECOND);
+    expect(load).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1 * SECOND);
+    expect(load).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(30 * SECOND);
+    expect(load).toHaveBeenCalledTimes(4);
+    expect(load).toHaveBeenCalledWith("eda");
+
+    expect(scheduler.getPending()).toEqual({});
+    await vi.advanceTimersByTimeAsync(60 * SECOND);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+
+  it("should keep the schedule of a service already waiting", async () => {
+    const load = vi.fn().mockResolvedValue(true);
+    const scheduler = createScheduler(load);
+
+    scheduler.schedule("eda");
+    await vi.advanceTimersByTimeAsync(5 * SECOND);
+    scheduler.schedule("eda");
+    await vi.advanceTimersByTimeAsync(5 * SECOND);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop the attempt in progress once stopped", async () => {
+    let finishLoad: (loaded: boolean) => void = () => {};
+    const load = vi.fn(
+      () => new Promise<boolean>((resolve) => (finishLoad = resolve)),
+    );
+    const scheduler = createScheduler(load);
+
+    scheduler.schedule("galaxy");
+    await vi.advanceTimersByTimeAsync(10 * SECOND);
+    scheduler.stop();
+    finishLoad(false);
+    await vi.advanceTimersByTimeAsync(60 * SECOND);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(scheduler.getPending()).toEqual({});
+  });
+});
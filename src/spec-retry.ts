@@ -0,0 +1,122 @@
+import { createLogger } from "./logging.js";
+
+const log = createLogger("loader");
+
+export const DEFAULT_SPEC_RETRY_DELAYS = {
+  initial_delay_ms: 10000,
+  max_delay_ms: 300000,
+};
+
+export interface SpecRetrySchedulerOptions {
+  // Loads the spec of a service and adds its tools, resolves to false while
+  // the spec cannot be loaded
+  load: (service: string) => Promise<boolean>;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number;
+}
+
+interface PendingRetry {
+  attempt: number;
+  timer: NodeJS.Timeout;
+  nextAttemptAt: number;
+}
+
+/**
+ * Retries in the background the loading of the optional services whose
+ * spec failed to load, with an exponential backoff, until it succeeds
+ */
+export class SpecRetryScheduler {
+  private readonly pending = new Map<string, PendingRetry>();
+  private readonly load: SpecRetrySchedulerOptions["load"];
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly random: () => number;
+
+  constructor(options: SpecRetrySchedulerOptions) {
+    this.load = options.load;
+    this.initialDelayMs =
+      options.initialDelayMs ?? DEFAULT_SPEC_RETRY_DELAYS.initial_delay_ms;
+    this.maxDelayMs =
+      options.maxDelayMs ?? DEFAULT_SPEC_RETRY_DELAYS.max_delay_ms;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Next attempt of each service waiting for a retry
+   */
+  getPending(): Record<string, string> {
+    return Object.fromEntries(
+      [...this.pending].map(([service, retry]) => [
+        service,
+        new Date(retry.nextAttemptAt).toISOString(),
+      ]),
+    );
+  }
+
+  // Between half and all of the exponential backoff
+  private getDelay(attempt: number): number {
+    const backoff = Math.min(
+      this.maxDelayMs,
+      this.initialDelayMs * 2 ** attempt,
+    );
+    return Math.round(backoff * (0.5 + this.random() / 2));
+  }
+
+  /**
+   * Schedules the next attempt of a service, a service already waiting
+   * keeps its schedule
+   */
+  schedule(service: string, attempt: number = 0): void {
+    if (attempt === 0 && this.pending.has(service)) {
+      return;
+    }
+    const delay = this.getDelay(attempt);
+    const timer = setTimeout(() => {
+      void this.retry(service, attempt);
+    }, delay);
+    timer.unref();
+    this.pending.set(service, {
+      attempt,
+      timer,
+      nextAttemptAt: Date.now() + delay,
+    });
+    log.info(`Loading of ${service} retried in ${Math.round(delay / 1000)}s`, {
+      service,
+      attempt: attempt + 1,
+    });
+  }
+
+  private async retry(service: string, attempt: number): Promise<void> {
+    const retry = this.pending.get(service);
+    let loaded = false;
+    try {
+      loaded = await this.load(service);
+    } catch (error) {
+      log.error(`Retry of ${service} failed`, { service, error });
+    }
+    // Cancelled or rescheduled while loading
+    if (this.pending.get(service) !== retry) {
+      return;
+    }
+    if (loaded) {
+      this.pending.delete(service);
+      return;
+    }
+    this.schedule(service, attempt + 1);
+  }
+
+  cancel(service: string): void {
+    const retry = this.pending.get(service);
+    if (retry) {
+      clearTimeout(retry.timer);
+      this.pending.delete(service);
+    }
+  }
+
+  stop(): void {
+    for (const service of [...this.pending.keys()]) {
+      this.cancel(service);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ToolCache,
+  computeToolCacheKey,
+  getDefaultToolCachePath,
+  type ToolCacheKeyInput,
+} from "./tool-cache";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const keyInput = (
+  overrides: Partial<ToolCacheKeyInput> = {},
+): ToolCacheKeyInput => ({
+  service: "controller",
+  spec: { openapi: "3.0.0", paths: { "/api/v2/jobs/": {} } },
+  serverVersion: "1.0.0",
+  settings: { allowedOperations: ["GET", "HEAD", "OPTIONS"] },
+  ...overrides,
+});
+
+const tools = [
+  {
+    name: "controller.jobs_list",
+    description: "List jobs",
+    method: "get",
+    pathTemplate: "/api/controller/v2/jobs/",
+    service: "controller",
+    logs: [],
+  },
+] as unknown as AAPMcpToolDefinition[];
+
+describe("computeToolCacheKey", () => {
+  it("should change with the spec, version and configuration", () => {
+    const key = computeToolCacheKey(keyInput());
+
+    expect(computeToolCacheKey(keyInput())).toBe(key);
+    expect(
+      computeToolCacheKey(
+        keyInput({
+          settings: { allowedOperations: ["OPTIONS", "GET", "HEAD"] },
+        }),
+      ),
+    ).toBe(key);
+    expect(
+      computeToolCacheKey(keyInput({ spec: { openapi: "3.0.1", paths: {} } })),
+    ).not.toBe(key);
+    expect(computeToolCacheKey(keyInput({ serverVersion: "1.0.1" }))).not.toBe(
+      key,
+    );
+    expect(
+      computeToolCacheKey(
+        keyInput({
+          settings: { allowedOperations: ["GET", "POST", "DELETE"] },
+        }),
+      ),
+    ).not.toBe(key);
+    expect(computeToolCacheKey(keyInput({ service: "eda" }))).not.toBe(key);
+  });
+});
+
+describe("getDefaultToolCachePath", () => {
+  it("should use the cache directory of the user", () => {
+    expect(getDefaultToolCachePath({}, "linux", "/home/ada")).toBe(
+      "/home/ada/.cache/aap-mcp-server/tools",
+    );
+    expect(
+      getDefaultToolCachePath({ XDG_CACHE_HOME: "/var/cache" }, "linux", "/"),
+    ).toBe("/var/cache/aap-mcp-server/tools");
+    expect(getDefaultToolCachePath({}, "darwin", "/Users/ada")).toBe(
+      "/Users/ada/Library/Caches/aap-mcp-server/tools",
+    );
+  });
+});
+
+describe("ToolCache", () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), "aap-mcp-tools-"));
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("should return the tools stored with the same key", async () => {
+    const cache = new ToolCache(join(cacheDir, "tools"));
+
+    expect(await cache.read("controller", "k1")).toBeUndefined();
+    await cache.write("controller", "k1", {
+      tools,
+      disabledToolNames: ["controller.jobs_create"],
+    });
+
+    expect(await cache.read("controller", "k1")).toEqual({
+      tools,
+      disabledToolNames: ["controller.jobs_create"],
+    });
+    expect(await cache.read("controller", "k2")).toBeUndefined();
+    expect(await cache.read("eda", "k1")).toBeUndefined();
+    expect(readdirSync(join(cacheDir, "tools"))).toEqual(["controller.json"]);
+  });
+
+  it("should ignore a broken cache file and overwrite it", async () => {
+    const cache = new ToolCache(cacheDir);
+    writeFileSync(join(cacheDir, "eda.json"), "{not json");
+
+    expect(await cache.read("eda", "k1")).toBeUndefined();
+    await cache.write("eda", "k1", { tools, disabledToolNames: [] });
+    expect((await cache.read("eda", "k1"))?.tools).toEqual(tools);
+  });
+
+  it("should not fail when the cache cannot be written", async () => {
+    const file = join(cacheDir, "file");
+    writeFileSync(file, "");
+    const cache = new ToolCache(join(file, "tools"));
+
+    await expect(
+      cache.write("eda", "k1", { tools, disabledToolNames: [] }),
+    ).resolves.toBeUndefined();
+    expect(await cache.read("eda", "k1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+import { createLogger } from "./logging.js";
+
+const log = createLogger("loader");
+
+/**
+ * tool_cache section of aap-mcp.yaml
+ */
+export interface ToolCacheConfig {
+  // Defaults to false
+  enabled?: boolean;
+  // Directory of the cache files, one per service, see
+  // getDefaultToolCachePath
+  path?: string;
+}
+
+/**
+ * Directory of the tool cache in the cache directory of the user:
+ * $XDG_CACHE_HOME or ~/.cache, ~/Library/Caches on macOS, %LOCALAPPDATA%
+ * on Windows
+ */
+export const getDefaultToolCachePath = (
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  home: string = homedir(),
+): string => {
+  let cacheHome = env.XDG_CACHE_HOME;
+  if (!cacheHome) {
+    cacheHome =
+      platform === "darwin"
+        ? join(home, "Library", "Caches")
+        : platform === "win32"
+          ? env.LOCALAPPDATA || join(home, "AppData", "Local")
+          : join(home, ".cache");
+  }
+  return join(cacheHome, "aap-mcp-server", "tools");
+};
+
+// Format of the cache files and of the tool generation, bumped when the
+// tools generated from the same spec and settings change without a new
+// server version
+const CACHE_FORMAT = 2;
+
+// Tools generated from the spec of a service
+export interface CachedServiceTools {
+  tools: AAPMcpToolDefinition[];
+  // Tools removed because their operation is not allowed
+  disabledToolNames: string[];
+}
+
+interface ToolCacheFile extends CachedServiceTools {
+  format: number;
+  key: string;
+  service: string;
+  createdAt: string;
+}
+
+/**
+ * Configuration the tools of a service are generated with. The renaming
+ * and filtering rules of a service are code, they change with the server
+ * version.
+ */
+export interface ToolGenerationSettings {
+  // HTTP methods turned into tools, depends on allow_write_operations
+  allowedOperations: string[];
+}
+
+export interface ToolCacheKeyInput {
+  service: string;
+  spec: unknown;
+  serverVersion: string;
+  settings: ToolGenerationSettings;
+}
+
+/**
+ * Hash of everything the tools of a service are generated from: the spec
+ * content, the server version and the configuration changing the tools
+ */
+export const computeToolCacheKey = (input: ToolCacheKeyInput): string => {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        CACHE_FORMAT,
+        input.service,
+        input.serverVersion,
+        { allowedOperations: [...input.settings.allowedOperations].sort() },
+      ]),
+    )
+    .update(JSON.stringify(input.spec))
+    .digest("hex");
+};
+
+/**
+ * Generated tools of each service, stored on disk to skip the OpenAPI
+ * normalization on the next start. A file is only used when its key
+ * matches, a stale or broken file is overwritten.
+ */
+export class ToolCache {
+  constructor(private readonly directory: string) {}
+
+  private getFilePath(service: string): string {
+    return join(this.directory, `${service}.json`);
+  }
+
+  async read(
+    service: string,
+    key: string,
+  ): Promise<CachedServiceTools | undefined> {
+    let file: ToolCacheFile;
+    try {
+      file = JSON.parse(
+        await fs.readFile(this.getFilePath(service), "utf8"),
+      ) as ToolCacheFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.warn(`Ignoring the unreadable tool cache of ${service}`, {
+          error,
+        });
+      }
+      return undefined;
+    }
+    if (
+      file.format !== CACHE_FORMAT ||
+      file.key !== key ||
+      !Array.isArray(file.tools)
+    ) {
+      log.debug(`Tool cache of ${service} is stale`);
+      return undefined;
+    }
+    return {
+      tools: file.tools,
+      disabledToolNames: file.disabledToolNames ?? [],
+    };
+  }
+
+  /**
+   * Writes the tools of a service, a failure is only logged as the cache
+   * is an optimization
+   */
+  async write(
+    service: string,
+    key: string,
+    entry: CachedServiceTools,
+  ): Promise<void> {
+    const file: ToolCacheFile = {
+      format: CACHE_FORMAT,
+      key,
+      service,
+      createdAt: new Date().toISOString(),
+      ...entry,
+    };
+    const filePath = this.getFilePath(service);
+    // Written aside then renamed, a concurrent start never reads half a file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file), "utf8");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      log.warn(`Failed to write the tool cache of ${service}`, { error });
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { buildToolRequest } from "./tool-request";
+import type { AAPMcpToolDefinition } from "./openapi-loader";
+
+const createMockTool = (
+  overrides: Partial<AAPMcpToolDefinition> = {},
+): AAPMcpToolDefinition => ({
+  name: "gateway.users_partial_update",
+  description: "Update a user",
+  inputSchema: { type: "object", properties: {} },
+  pathTemplate: "/api/gateway/v1/users/{id}/",
+  method: "patch",
+  parameters: [
+    { name: "id", in: "path", required: true },
+    { name: "format", in: "query" },
+  ] as any,
+  executionParameters: {} as any,
+  securityRequirements: [] as any,
+  operationId: "users_partial_update",
+  deprecated: false,
+  service: "gateway",
+  logs: [],
+  size: 100,
+  ...overrides,
+});
+
+describe("buildToolRequest", () => {
+  it("should fill in the path and query parameters and the body", () => {
+    const request = buildToolRequest(
+      createMockTool(),
+      { id: 42, format: "json", requestBody: { first_name: "Ada" } },
+      "https://aap.example.com",
+      "secret",
+    );
+
+    expect(request).toEqual({
+      url: "https://aap.example.com/api/gateway/v1/users/42/?format=json",
+      method: "PATCH",
+      headers: {
+        Authorization: "Bearer secret",
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: '{"first_name":"Ada"}',
+    });
+  });
+
+  it("should encode the path parameters", () => {
+    const request = buildToolRequest(
+      createMockTool({ method: "get" }),
+      { id: "../../teams/1?x=1#" },
+      "https://aap.example.com",
+      "secret",
+    );
+
+    expect(request.url).toBe(
+      "https://aap.example.com/api/gateway/v1/users/..%2F..%2Fteams%2F1%3Fx%3D1%23/",
+    );
+    expect(() =>
+      buildToolRequest(
+        createMockTool({ method: "get" }),
+        { id: ".." },
+        "https://aap.example.com",
+        "secret",
+      ),
+    ).toThrow("Invalid value for the id parameter");
+  });
+
+  it("should not send a body with GET requests", () => {
+    const request = buildToolRequest(
+      createMockTool({ method: "get" }),
+      { id: 1, requestBody: { ignored: true } },
+      "https://aap.example.com",
+      "secret",
+    );
+
+    expect(request.method).toBe("GET");
+    expect(request.body).toBeUndefined();
+    expect(request.headers["Content-Type"]).toBeUndefined();
+  });
+
+  it("should leave missing path parameters in place", () => {
+    const request = buildToolRequest(
+      createMockTool(),
+      {},
+      "https://aap.example.com",
+      "secret",
+    );
+
+    expect(request.url).toBe(
+      "https://aap.example.com/api/gateway/v1/users/{id}/",
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import type { AAPMcpToolDefinition } from "./openapi-loader.js";
+
+/**
+ * HTTP request sent to AAP for a tool call
+ */
+export interface ToolRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Builds the HTTP request of a tool call from its arguments: path and
+ * query parameters come from the OpenAPI parameters of the operation, the
+ * body from the requestBody argument.
+ */
+export const buildToolRequest = (
+  tool: AAPMcpToolDefinition,
+  args: Record<string, unknown>,
+  baseUrl: string,
+  bearerToken: string | undefined,
+): ToolRequest => {
+  let url = tool.pathTemplate;
+  const method = tool.method.toUpperCase();
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${bearerToken}`,
+    Accept: "application/json",
+  };
+
+  for (const param of tool.parameters || []) {
+    if (param.in === "path" && args[param.name]) {
+      const value = String(args[param.name]);
+      // Encoded so an argument cannot change the path or add a query, the
+      // URL parser still resolves the dot segments
+      if (value === "." || value === "..") {
+        throw new Error(`Invalid value for the ${param.name} parameter`);
+      }
+      url = url.replace(`{${param.name}}`, encodeURIComponent(value));
+    }
+  }
+
+  // Add query parameters
+  const queryParams = new URLSearchParams();
+  for (const param of tool.parameters || []) {
+    if (param.in === "query" && args[param.name] !== undefined) {
+      queryParams.append(param.name, String(args[param.name]));
+    }
+  }
+  if (queryParams.toString()) {
+    url += "?" + queryParams.toString();
+  }
+
+  const request: ToolRequest = { url: `${baseUrl}${url}`, method, headers };
+
+  // Add request body for POST, PUT, PATCH
+  if (["POST", "PUT", "PATCH"].includes(method) && args.requestBody) {
+    headers["Content-Type"] = "application/json";
+    request.body = JSON.stringify(args.requestBody);
+  }
+
+  return request;
+};
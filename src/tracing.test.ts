@@ -0,0 +1,195 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from "vitest";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-node";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  initTracing,
+  shutdownTracing,
+  traceTransport,
+  tracedFetch,
+} from "./tracing";
+
+const exporter = new InMemorySpanExporter();
+
+// A transport whose callbacks are set the way Server.connect() does
+const createTransport = (
+  onmessage: (message: JSONRPCMessage) => void,
+): Transport & { sent: JSONRPCMessage[] } => {
+  const sent: JSONRPCMessage[] = [];
+  return {
+    sent,
+    start: async () => {},
+    close: async () => {},
+    send: async (message) => {
+      sent.push(message);
+    },
+    onmessage,
+  };
+};
+
+const callTool = {
+  jsonrpc: "2.0",
+  id: 7,
+  method: "tools/call",
+  params: { name: "controller.jobs_list", arguments: {} },
+} as const;
+
+describe("Tracing", () => {
+  const mockFetch = vi.fn();
+
+  beforeAll(() => {
+    initTracing({ service_name: "test" }, exporter);
+  });
+
+  afterAll(async () => {
+    await shutdownTracing();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+    mockFetch.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  describe("tracedFetch", () => {
+    it("should create a client span and propagate the trace context", async () => {
+      mockFetch.mockResolvedValue(new Response("{}", { status: 200 }));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await tracedFetch(
+        "https://aap.example.com/api/controller/v2/jobs/",
+        { headers: { Accept: "application/json" } },
+        { urlTemplate: "/api/controller/v2/jobs/", service: "controller" },
+      );
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.name).toBe("GET /api/controller/v2/jobs/");
+      expect(span.kind).toBe(SpanKind.CLIENT);
+      expect(span.attributes).toMatchObject({
+        "http.request.method": "GET",
+        "url.full": "https://aap.example.com/api/controller/v2/jobs/",
+        "server.address": "aap.example.com",
+        "aap.service": "controller",
+        "http.response.status_code": 200,
+      });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers.Accept).toBe("application/json");
+      expect(init.headers.traceparent).toBe(
+        `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`,
+      );
+    });
+
+    it("should mark failed requests as errors", async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response("", { status: 503 }))
+        .mockRejectedValueOnce(new Error("connection refused"));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await tracedFetch("https://aap.example.com/a/", { method: "delete" });
+      await expect(tracedFetch("https://aap.example.com/b/")).rejects.toThrow(
+        "connection refused",
+      );
+
+      const [failed, unreachable] = exporter.getFinishedSpans();
+      expect(failed.name).toBe("DELETE");
+      expect(failed.status.code).toBe(SpanStatusCode.ERROR);
+      expect(unreachable.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: "connection refused",
+      });
+      expect(unreachable.events[0].name).toBe("exception");
+    });
+  });
+
+  describe("traceTransport", () => {
+    it("should wrap each request in a span parent of the AAP calls", async () => {
+      mockFetch.mockResolvedValue(new Response("{}", { status: 200 }));
+      vi.stubGlobal("fetch", mockFetch);
+
+      let handled: Promise<void> | undefined;
+      const transport = createTransport((message) => {
+        handled = (async () => {
+          await tracedFetch("https://aap.example.com/api/controller/v2/jobs/");
+          await transport.send({
+            jsonrpc: "2.0",
+            id: (message as typeof callTool).id,
+            result: { content: [] },
+          });
+        })();
+      });
+      traceTransport(transport, () => ({
+        "mcp.session.id": "session-1",
+        "mcp.category": "job_management",
+      }));
+
+      transport.onmessage!(callTool);
+      await handled;
+
+      const [client, server] = exporter.getFinishedSpans();
+      expect(server.name).toBe("tools/call controller.jobs_list");
+      expect(server.kind).toBe(SpanKind.SERVER);
+      expect(server.attributes).toEqual({
+        "mcp.method.name": "tools/call",
+        "mcp.tool.name": "controller.jobs_list",
+        "jsonrpc.request.id": "7",
+        "mcp.session.id": "session-1",
+        "mcp.category": "job_management",
+      });
+      expect(server.status.code).toBe(SpanStatusCode.UNSET);
+      expect(client.parentSpanContext?.spanId).toBe(
+        server.spanContext().spanId,
+      );
+      expect(transport.sent).toHaveLength(1);
+    });
+
+    it("should mark error responses and leave notifications untraced", async () => {
+      const transport = createTransport(() => {});
+      traceTransport(transport, () => ({ "mcp.category": undefined }));
+
+      transport.onmessage!({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+      transport.onmessage!({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+      await transport.send({
+        jsonrpc: "2.0",
+        id: 1,
+        error: { code: -32603, message: "Authentication failed" },
+      });
+
+      const spans = exporter.getFinishedSpans();
+      expect(spans).toHaveLength(1);
+      expect(spans[0].name).toBe("tools/list");
+      expect(spans[0].attributes).not.toHaveProperty("mcp.category");
+      expect(spans[0].status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: "Authentication failed",
+      });
+    });
+
+    it("should end the pending spans when the session closes", () => {
+      const transport = createTransport(() => {});
+      const onclose = vi.fn();
+      transport.onclose = onclose;
+      traceTransport(transport, () => ({}));
+
+      transport.onmessage!({ jsonrpc: "2.0", id: 2, method: "ping" });
+      transport.onclose!();
+
+      expect(exporter.getFinishedSpans()[0].status.message).toBe(
+        "session closed",
+      );
+      expect(onclose).toHaveBeenCalled();
+    });
+  });
+});
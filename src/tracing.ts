@@ -0,0 +1,235 @@
+import {
+  context,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type AttributeValue,
+  type Span,
+} from "@opentelemetry/api";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type SpanExporter,
+} from "@opentelemetry/sdk-trace-node";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCRequest,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * tracing section of aap-mcp.yaml
+ */
+export interface TracingConfig {
+  enabled?: boolean;
+  // OTLP/HTTP traces endpoint, the exporter falls back to the
+  // OTEL_EXPORTER_OTLP_* environment variables when unset
+  endpoint?: string;
+  headers?: Record<string, string>;
+  service_name?: string;
+}
+
+export const DEFAULT_SERVICE_NAME = "aap-mcp-server";
+
+let provider: NodeTracerProvider | undefined;
+
+const getTracer = () => trace.getTracer(DEFAULT_SERVICE_NAME);
+
+/**
+ * Registers the global tracer provider. Spans go to the OTLP endpoint of
+ * the configuration, or synchronously to exporter when one is given (tests
+ * use an InMemorySpanExporter). Until this is called every span is a no-op.
+ */
+export const initTracing = (
+  config: TracingConfig = {},
+  exporter?: SpanExporter,
+): void => {
+  const spanProcessor = exporter
+    ? new SimpleSpanProcessor(exporter)
+    : new BatchSpanProcessor(
+        new OTLPTraceExporter({
+          url: config.endpoint,
+          headers: config.headers,
+        }),
+      );
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      "service.name": config.service_name || DEFAULT_SERVICE_NAME,
+    }),
+    spanProcessors: [spanProcessor],
+  });
+  // Also installs the AsyncLocalStorage context manager and the W3C
+  // trace context propagator
+  provider.register();
+};
+
+/**
+ * Flushes the pending spans and unregisters the tracer provider
+ */
+export const shutdownTracing = async (): Promise<void> => {
+  if (!provider) {
+    return;
+  }
+  const current = provider;
+  provider = undefined;
+  await current.shutdown();
+  trace.disable();
+  context.disable();
+  propagation.disable();
+};
+
+// Attributes set to undefined are left out of the span
+const compactAttributes = (
+  attributes: Record<string, AttributeValue | undefined>,
+): Attributes => {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined),
+  ) as Attributes;
+};
+
+/**
+ * Sends an HTTP request within a client span, child of the active span. The
+ * trace context is propagated in the request headers, which must be a
+ * plain object. urlTemplate (the OpenAPI path) names the span.
+ */
+export const tracedFetch = (
+  url: string,
+  init: RequestInit = {},
+  attributes: { urlTemplate?: string; service?: string } = {},
+): Promise<Response> => {
+  const method = (init.method || "GET").toUpperCase();
+  let serverAddress: string | undefined;
+  try {
+    serverAddress = new URL(url).hostname;
+  } catch {
+    // fetch reports the invalid URL
+  }
+
+  const spanName = attributes.urlTemplate
+    ? `${method} ${attributes.urlTemplate}`
+    : method;
+  const spanAttributes = compactAttributes({
+    "http.request.method": method,
+    "url.full": url,
+    "url.template": attributes.urlTemplate,
+    "server.address": serverAddress,
+    "aap.service": attributes.service,
+  });
+
+  return getTracer().startActiveSpan(
+    spanName,
+    { kind: SpanKind.CLIENT, attributes: spanAttributes },
+    async (span) => {
+      const headers = { ...(init.headers as Record<string, string>) };
+      propagation.inject(context.active(), headers);
+      try {
+        const response = await fetch(url, { ...init, headers });
+        span.setAttribute("http.response.status_code", response.status);
+        if (response.status >= 400) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        return response;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        span.recordException(error instanceof Error ? error : message);
+        span.setStatus({ code: SpanStatusCode.ERROR, message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
+};
+
+/**
+ * Wraps a connected transport so that each incoming JSON-RPC request gets
+ * a server span, ended when its response is sent. The request handlers run
+ * within the span, the AAP calls they make become its children.
+ * getAttributes adds the session attributes (session id, category). Must
+ * be called after Server.connect(), which sets the transport callbacks.
+ */
+export const traceTransport = (
+  transport: Transport,
+  getAttributes: (
+    request: JSONRPCRequest,
+  ) => Record<string, AttributeValue | undefined>,
+): void => {
+  const spans = new Map<RequestId, Span>();
+  const onmessage = transport.onmessage;
+  const send = transport.send.bind(transport);
+
+  transport.onmessage = (message, extra) => {
+    if (!onmessage) {
+      return;
+    }
+    if (!isJSONRPCRequest(message)) {
+      onmessage(message, extra);
+      return;
+    }
+
+    const toolName =
+      message.method === "tools/call" &&
+      typeof message.params?.name === "string"
+        ? message.params.name
+        : undefined;
+    const span = getTracer().startSpan(
+      toolName ? `${message.method} ${toolName}` : message.method,
+      {
+        kind: SpanKind.SERVER,
+        attributes: compactAttributes({
+          "mcp.method.name": message.method,
+          "mcp.tool.name": toolName,
+          "jsonrpc.request.id": String(message.id),
+          ...getAttributes(message),
+        }),
+      },
+    );
+    spans.set(message.id, span);
+    context.with(trace.setSpan(context.active(), span), () =>
+      onmessage(message, extra),
+    );
+  };
+
+  transport.send = (message, options) => {
+    if (
+      (isJSONRPCResponse(message) || isJSONRPCError(message)) &&
+      "id" in message &&
+      message.id !== undefined
+    ) {
+      const span = spans.get(message.id);
+      if (span) {
+        spans.delete(message.id);
+        if (isJSONRPCError(message)) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: message.error.message,
+          });
+        } else if (message.result.isError === true) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        span.end();
+      }
+    }
+    return send(message, options);
+  };
+
+  // Requests left without a response when the session ends
+  const onclose = transport.onclose;
+  transport.onclose = () => {
+    for (const span of spans.values()) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: "session closed" });
+      span.end();
+    }
+    spans.clear();
+    onclose?.();
+  };
+};
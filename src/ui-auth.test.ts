@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  UI_SESSION_COOKIE,
+  UiAuthenticator,
+  parseCookies,
+  safeRedirectPath,
+  signUiSession,
+  verifyUiSession,
+} from "./ui-auth";
+
+describe("UI authentication", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("session cookies", () => {
+    const user = { username: "ada", role: "auditor" as const };
+
+    it("should verify the cookies it signed until they expire", () => {
+      const cookie = signUiSession(user, 2000, "secret");
+
+      expect(verifyUiSession(cookie, "secret", 1000)).toEqual(user);
+      expect(verifyUiSession(cookie, "secret", 2000)).toBeUndefined();
+      expect(verifyUiSession(cookie, "other", 1000)).toBeUndefined();
+    });
+
+    it("should reject the tampered cookies", () => {
+      const [, signature] = signUiSession(user, 2000, "secret").split(".");
+      const payload = Buffer.from(
+        JSON.stringify({ ...user, role: "superuser", expiresAt: 2000 }),
+      ).toString("base64url");
+
+      expect(
+        verifyUiSession(`${payload}.${signature}`, "secret", 1000),
+      ).toBeUndefined();
+      expect(verifyUiSession("garbage", "secret", 1000)).toBeUndefined();
+    });
+
+    it("should parse the Cookie header", () => {
+      expect(parseCookies("a=1; b=x%3Dy; broken; c=%E0")).toEqual({
+        a: "1",
+        b: "x=y",
+        c: "%E0",
+      });
+      expect(parseCookies(undefined)).toEqual({});
+    });
+  });
+
+  describe("safeRedirectPath", () => {
+    it("should only accept the paths of this server", () => {
+      expect(safeRedirectPath("/logs?tool=x")).toBe("/logs?tool=x");
+      expect(safeRedirectPath("//evil.example.com")).toBe("/");
+      expect(safeRedirectPath("/\\evil.example.com")).toBe("/");
+      expect(safeRedirectPath("https://evil.example.com")).toBe("/");
+      expect(safeRedirectPath(undefined)).toBe("/");
+    });
+  });
+
+  describe("requireRole", () => {
+    const validateToken = vi.fn();
+    let auth: UiAuthenticator;
+
+    const request = (
+      headers: Record<string, string>,
+      accepts: string = "json",
+    ) => ({
+      method: "GET",
+      path: "/logs",
+      originalUrl: "/logs?tool=x",
+      headers,
+      accepts: () => accepts,
+    });
+
+    const response = () => {
+      const res = {
+        locals: {} as Record<string, unknown>,
+        statusCode: 200,
+        body: undefined as unknown,
+        redirectedTo: undefined as string | undefined,
+        status: vi.fn((code: number) => {
+          res.statusCode = code;
+          return res;
+        }),
+        json: vi.fn((body: unknown) => {
+          res.body = body;
+          return res;
+        }),
+        redirect: vi.fn((url: string) => {
+          res.redirectedTo = url;
+        }),
+      };
+      return res;
+    };
+
+    const run = async (
+      role: "user" | "auditor" | "superuser",
+      req: ReturnType<typeof request>,
+    ) => {
+      const res = response();
+      const next = vi.fn();
+      await auth.requireRole(role)(req as any, res as any, next);
+      return { res, next };
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      validateToken.mockReset();
+      auth = new UiAuthenticator({
+        adminToken: "admin-secret",
+        sessionSecret: "secret",
+        validateToken,
+      });
+    });
+
+    it("should accept the admin token as a superuser", async () => {
+      const { res, next } = await run(
+        "superuser",
+        request({ authorization: "Bearer admin-secret" }),
+      );
+
+      expect(next).toHaveBeenCalled();
+      expect(res.locals.uiUser).toEqual({
+        username: "admin-token",
+        role: "superuser",
+      });
+      expect(validateToken).not.toHaveBeenCalled();
+    });
+
+    it("should check the role of the AAP tokens", async () => {
+      validateToken.mockResolvedValue({
+        username: "bob",
+        is_superuser: false,
+        is_platform_auditor: false,
+      });
+
+      const { res, next } = await run(
+        "auditor",
+        request({ authorization: "Bearer aap-token" }),
+      );
+
+      expect(validateToken).toHaveBeenCalledWith("aap-token");
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+      expect(auth.canViewLogs(res as any)).toBe(false);
+    });
+
+    it("should accept a valid session cookie", async () => {
+      const cookie = signUiSession(
+        { username: "ada", role: "auditor" },
+        Date.now() + 60000,
+        "secret",
+      );
+
+      const { res, next } = await run(
+        "auditor",
+        request({ cookie: `${UI_SESSION_COOKIE}=${cookie}` }),
+      );
+
+      expect(next).toHaveBeenCalled();
+      expect(auth.canViewLogs(res as any)).toBe(true);
+    });
+
+    it("should send the browsers to the login page", async () => {
+      const { res } = await run("user", request({}, "html"));
+
+      expect(res.redirectedTo).toBe("/login?next=%2Flogs%3Ftool%3Dx");
+    });
+
+    it("should reject the invalid tokens of the other clients", async () => {
+      validateToken.mockRejectedValue(new Error("401 Unauthorized"));
+
+      const { res } = await run(
+        "user",
+        request({ authorization: "Bearer wrong" }),
+      );
+
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ error: "Authentication required" });
+    });
+
+    it("should let everything through when disabled", async () => {
+      auth = new UiAuthenticator({
+        config: { enabled: false },
+        validateToken,
+      });
+
+      const { res, next } = await run("superuser", request({}));
+
+      expect(next).toHaveBeenCalled();
+      expect(auth.canViewLogs(res as any)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import {
+  getUserRole,
+  hasRequiredRole,
+  type UserPermissions,
+  type UserRole,
+} from "./permissions.js";
+import { createLogger } from "./logging.js";
+import { renderLogin } from "./views/index.js";
+
+const log = createLogger("ui");
+
+/**
+ * ui_auth section of aap-mcp.yaml
+ */
+export interface UiAuthConfig {
+  enabled?: boolean;
+  // Static token logging in as a superuser, lower priority than UI_ADMIN_TOKEN
+  admin_token?: string;
+  // Key signing the session cookies, lower priority than UI_SESSION_SECRET
+  session_secret?: string;
+  session_ttl_minutes?: number;
+  // Minimum role to see the recorded calls
+  logs_role?: UserRole;
+}
+
+/**
+ * cors section of aap-mcp.yaml
+ */
+export interface CorsConfig {
+  origins?: string[];
+}
+
+export interface UiUser {
+  username: string;
+  role: UserRole;
+}
+
+export const UI_SESSION_COOKIE = "aap_mcp_ui_session";
+export const DEFAULT_UI_SESSION_TTL_MINUTES = 480;
+
+// Username of the sessions opened with the admin token
+const ADMIN_USERNAME = "admin-token";
+
+const sign = (payload: string, secret: string): string =>
+  createHmac("sha256", secret).update(payload).digest("base64url");
+
+// Compares the digests so that the length of the secret does not leak
+const safeEqual = (a: string, b: string): boolean =>
+  timingSafeEqual(
+    createHash("sha256").update(a).digest(),
+    createHash("sha256").update(b).digest(),
+  );
+
+/**
+ * Value of the session cookie: the user and the expiry, signed with the
+ * session secret. The AAP token itself is never stored in the cookie.
+ */
+export const signUiSession = (
+  user: UiUser,
+  expiresAt: number,
+  secret: string,
+): string => {
+  const payload = Buffer.from(
+    JSON.stringify({ username: user.username, role: user.role, expiresAt }),
+  ).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+/**
+ * User of a session cookie, undefined when the signature is wrong or the
+ * session expired
+ */
+export const verifyUiSession = (
+  value: string,
+  secret: string,
+  now: number = Date.now(),
+): UiUser | undefined => {
+  const [payload, signature] = value.split(".");
+  if (!payload || !signature || !safeEqual(signature, sign(payload, secret))) {
+    return undefined;
+  }
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof session.expiresAt !== "number" || session.expiresAt <= now) {
+      return undefined;
+    }
+    return { username: session.username, role: session.role };
+  } catch {
+    return undefined;
+  }
+};
+
+export const parseCookies = (
+  header: string | undefined,
+): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || "").split(";")) {
+    const index = part.indexOf("=");
+    if (index > 0) {
+      const value = part.slice(index + 1).trim();
+      try {
+        cookies[part.slice(0, index).trim()] = decodeURIComponent(value);
+      } catch {
+        cookies[part.slice(0, index).trim()] = value;
+      }
+    }
+  }
+  return cookies;
+};
+
+/**
+ * Page to go back to after the login, only paths of this server are
+ * accepted
+ */
+export const safeRedirectPath = (next: unknown): string =>
+  typeof next === "string" && /^\/(?![/\\])/.test(next) ? next : "/";
+
+export interface UiAuthenticatorOptions {
+  config?: UiAuthConfig;
+  adminToken?: string;
+  sessionSecret?: string;
+  // Validates an AAP token against /api/gateway/v1/me/
+  validateToken: (
+    token: string,
+  ) => Promise<UserPermissions & { username?: string }>;
+}
+
+/**
+ * Authentication of the web UI and of the admin endpoints. Users log in
+ * with an AAP token or the admin token and get a signed session cookie,
+ * scripts send the token in the Authorization header.
+ */
+export class UiAuthenticator {
+  readonly enabled: boolean;
+  readonly logsRole: UserRole;
+  private readonly adminToken: string | undefined;
+  private readonly sessionSecret: string;
+  private readonly sessionTtlMs: number;
+  private readonly validateToken: UiAuthenticatorOptions["validateToken"];
+
+  constructor(options: UiAuthenticatorOptions) {
+    const config = options.config || {};
+    this.enabled = config.enabled ?? true;
+    this.logsRole = config.logs_role ?? "auditor";
+    this.adminToken = options.adminToken || config.admin_token;
+    this.sessionTtlMs =
+      (config.session_ttl_minutes ?? DEFAULT_UI_SESSION_TTL_MINUTES) *
+      60 *
+      1000;
+    this.validateToken = options.validateToken;
+
+    const sessionSecret = options.sessionSecret || config.session_secret;
+    if (!sessionSecret && this.enabled) {
+      log.info(
+        "No UI session secret configured, the UI sessions end when the server restarts",
+      );
+    }
+    this.sessionSecret = sessionSecret || randomBytes(32).toString("hex");
+  }
+
+  /**
+   * User of a token: the admin token, or an AAP token
+   */
+  async authenticateToken(token: string): Promise<UiUser> {
+    if (this.adminToken && safeEqual(token, this.adminToken)) {
+      return { username: ADMIN_USERNAME, role: "superuser" };
+    }
+    const user = await this.validateToken(token);
+    return { username: user.username || "unknown", role: getUserRole(user) };
+  }
+
+  /**
+   * User of a request, from the Authorization header or the session cookie
+   */
+  async authenticate(req: Request): Promise<UiUser | undefined> {
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith("Bearer ")) {
+      return this.authenticateToken(authHeader.substring(7)).catch(
+        () => undefined,
+      );
+    }
+    const cookie = parseCookies(req.headers.cookie)[UI_SESSION_COOKIE];
+    return cookie ? verifyUiSession(cookie, this.sessionSecret) : undefined;
+  }
+
+  /**
+   * Middleware rejecting the requests without a user of the role. Browsers
+   * are sent to the login page, other clients get a 401.
+   */
+  requireRole(role: UserRole = "user"): RequestHandler<Record<string, string>> {
+    return async (req, res, next) => {
+      if (!this.enabled) {
+        return next();
+      }
+      const user = await this.authenticate(req);
+      if (!user) {
+        if (req.method === "GET" && req.accepts(["json", "html"]) === "html") {
+          return res.redirect(
+            `/login?next=${encodeURIComponent(req.originalUrl)}`,
+          );
+        }
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      if (!hasRequiredRole(user.role, role)) {
+        log.warn(`${user.username} was denied ${req.method} ${req.path}`, {
+          role: user.role,
+          requiredRole: role,
+        });
+        return res.status(403).json({
+          error: "Forbidden",
+          message: `This page requires the ${role} role`,
+        });
+      }
+      res.locals.uiUser = user;
+      next();
+    };
+  }
+
+  /**
+   * Whether the user of a request passed by requireRole may see the
+   * recorded calls
+   */
+  canViewLogs(res: Response): boolean {
+    const user = res.locals.uiUser as UiUser | undefined;
+    return (
+      !this.enabled || (!!user && hasRequiredRole(user.role, this.logsRole))
+    );
+  }
+
+  loginPage: RequestHandler = (req, res) => {
+    res.setHeader("Content-Type", "text/html");
+    res.send(renderLogin({ next: safeRedirectPath(req.query.next) }));
+  };
+
+  login: RequestHandler = async (req, res) => {
+    const token = typeof req.body?.token === "string" ? req.body.token : "";
+    const next = safeRedirectPath(req.body?.next);
+    let user: UiUser;
+    try {
+      user = await this.authenticateToken(token.trim());
+    } catch {
+      log.warn("UI login failed");
+      res.status(401).setHeader("Content-Type", "text/html");
+      res.send(renderLogin({ next, error: "Invalid token" }));
+      return;
+    }
+    log.info(`${user.username} logged in to the UI`, { role: user.role });
+    res.cookie(
+      UI_SESSION_COOKIE,
+      signUiSession(user, Date.now() + this.sessionTtlMs, this.sessionSecret),
+      {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: req.secure,
+        maxAge: this.sessionTtlMs,
+        path: "/",
+      },
+    );
+    res.redirect(next);
+  };
+
+  logout: RequestHandler = (req, res) => {
+    res.clearCookie(UI_SESSION_COOKIE, { path: "/" });
+    res.redirect("/login");
+  };
+}
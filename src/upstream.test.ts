@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from "vitest";
+import { CircuitBreaker, UpstreamClient, isConnectionError } from "./upstream";
+
+const SECOND = 1000;
+
+const connectionReset = () =>
+  Object.assign(new TypeError("fetch failed"), {
+    cause: { code: "ECONNRESET" },
+  });
+
+const createClient = (
+  send: ReturnType<typeof vi.fn>,
+  options: { now?: () => number } = {},
+) => {
+  const sleep = vi.fn().mockResolvedValue(undefined);
+  const client = new UpstreamClient({
+    config: {
+      retries: 2,
+      circuit_breaker: { failure_threshold: 3, reset_timeout_seconds: 30 },
+    },
+    fetch: send,
+    sleep,
+    random: () => 0.5,
+    now: options.now,
+  });
+  return { client, sleep };
+};
+
+describe("UpstreamClient", () => {
+  it("should retry the GET requests on 503 with a jittered backoff", async () => {
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockRejectedValueOnce(connectionReset())
+      .mockResolvedValueOnce(new Response("{}", { status: 200 }));
+    const { client, sleep } = createClient(send);
+
+    const response = await client.fetch("https://aap/api/", undefined, {
+      service: "controller",
+    });
+
+    expect(response.status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([125, 250]);
+    expect(Object.keys(client.getLastSuccessfulCalls())).toEqual([
+      "controller",
+    ]);
+  });
+
+  it("should return the last response once the retries are exhausted", async () => {
+    const send = vi
+      .fn()
+      .mockImplementation(async () => new Response("", { status: 502 }));
+    const { client } = createClient(send);
+
+    const response = await client.fetch("https://aap/api/");
+
+    expect(response.status).toBe(502);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry the other methods and statuses", async () => {
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(new Response("", { status: 500 }));
+    const { client } = createClient(send);
+
+    expect(
+      (await client.fetch("https://aap/api/", { method: "POST" })).status,
+    ).toBe(503);
+    expect((await client.fetch("https://aap/api/")).status).toBe(500);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should time out the requests of a service", async () => {
+    const send = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+    const client = new UpstreamClient({
+      config: { retries: 0 },
+      serviceTimeouts: { eda: 0.05 },
+      fetch: send,
+    });
+
+    await expect(
+      client.fetch("https://aap/api/eda/v1/", undefined, { service: "eda" }),
+    ).rejects.toThrow(
+      "Request to https://aap/api/eda/v1/ timed out after 0.05 seconds",
+    );
+  });
+
+  it("should abort the request when the call is cancelled", async () => {
+    const controller = new AbortController();
+    const send = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+          controller.abort();
+        }),
+    );
+    const { client } = createClient(send);
+
+    await expect(
+      client.fetch("https://aap/api/", undefined, {
+        service: "controller",
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow("Request to https://aap/api/ was cancelled");
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(client.getCircuitStatus().controller.consecutiveFailures).toBe(0);
+  });
+
+  it("should fail fast while the circuit of a service is open", async () => {
+    let now = 0;
+    const send = vi.fn().mockRejectedValue(connectionReset());
+    const { client } = createClient(send, { now: () => now });
+
+    await expect(
+      client.fetch("https://aap/api/", undefined, { service: "eda" }),
+    ).rejects.toThrow("fetch failed");
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(client.getCircuitStatus()).toEqual({
+      eda: {
+        state: "open",
+        consecutiveFailures: 3,
+        retryAt: new Date(30 * SECOND).toISOString(),
+      },
+    });
+
+    await expect(
+      client.fetch("https://aap/api/", undefined, { service: "eda" }),
+    ).rejects.toThrow("Service eda is unavailable");
+    expect(send).toHaveBeenCalledTimes(3);
+
+    now = 30 * SECOND;
+    send.mockResolvedValue(new Response("{}", { status: 200 }));
+    expect(
+      (await client.fetch("https://aap/api/", undefined, { service: "eda" }))
+        .status,
+    ).toBe(200);
+    expect(client.getCircuitStatus().eda.state).toBe("closed");
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("should let a single trial request through once half open", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(
+      { failure_threshold: 1, reset_timeout_seconds: 10 },
+      () => now,
+    );
+
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(false);
+
+    now = 10 * SECOND;
+    expect(breaker.getStatus().state).toBe("half_open");
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordFailure();
+    expect(breaker.getStatus().state).toBe("open");
+  });
+
+  it("should never open with a failure threshold of 0", () => {
+    const breaker = new CircuitBreaker({
+      failure_threshold: 0,
+      reset_timeout_seconds: 10,
+    });
+
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure();
+    }
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+});
+
+describe("isConnectionError", () => {
+  it("should only match the dropped connections", () => {
+    expect(isConnectionError(connectionReset())).toBe(true);
+    expect(
+      isConnectionError(
+        Object.assign(new TypeError("fetch failed"), {
+          cause: { code: "ERR_INVALID_URL" },
+        }),
+      ),
+    ).toBe(false);
+    expect(isConnectionError(new Error("HTTP 500"))).toBe(false);
+  });
+});
@@ -0,0 +1,392 @@
+import { tracedFetch } from "./tracing.js";
+import { createLogger } from "./logging.js";
+
+const log = createLogger("upstream");
+
+/**
+ * upstream section of aap-mcp.yaml, the timeout can be set per service
+ * with services[].timeout_seconds
+ */
+export interface UpstreamConfig {
+  timeout_seconds?: number;
+  // Retries of the GET and HEAD requests, 0 disables them
+  retries?: number;
+  retry_base_delay_ms?: number;
+  retry_max_delay_ms?: number;
+  circuit_breaker?: CircuitBreakerConfig;
+}
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures opening the circuit, 0 disables the breaker
+  failure_threshold?: number;
+  // Time before a trial request is let through an open circuit
+  reset_timeout_seconds?: number;
+}
+
+export const DEFAULT_UPSTREAM_CONFIG = {
+  timeout_seconds: 30,
+  retries: 2,
+  retry_base_delay_ms: 250,
+  retry_max_delay_ms: 5000,
+  circuit_breaker: {
+    failure_threshold: 5,
+    reset_timeout_seconds: 30,
+  },
+};
+
+// Statuses of an unavailable upstream, retried and counted by the breaker
+export const RETRYABLE_STATUSES = [502, 503, 504];
+
+// Methods that can be sent twice without side effect
+const IDEMPOTENT_METHODS = ["GET", "HEAD"];
+
+// Error codes of a dropped connection, as reported in the fetch error cause
+const CONNECTION_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // Set while the circuit is open
+  retryAt?: string;
+}
+
+export interface UpstreamRequestOptions {
+  service?: string;
+  // OpenAPI path of the request, names its trace span
+  urlTemplate?: string;
+  // Aborted when the MCP client cancels the call
+  signal?: AbortSignal;
+}
+
+export type UpstreamFetch = (
+  url: string,
+  init?: RequestInit,
+  options?: UpstreamRequestOptions,
+) => Promise<Response>;
+
+export interface UpstreamClientOptions {
+  config?: UpstreamConfig;
+  // Timeout of each service, in seconds
+  serviceTimeouts?: Record<string, number | undefined>;
+  // Sends the requests, tracedFetch by default
+  fetch?: UpstreamFetch;
+  // Waits between two attempts, can be replaced in the tests
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+/**
+ * Consecutive failures of a service. Once failure_threshold is reached the
+ * circuit opens and the requests fail without being sent. After
+ * reset_timeout_seconds a single trial request is let through, its outcome
+ * closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInProgress = false;
+
+  constructor(
+    private config: Required<CircuitBreakerConfig>,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  configure(config: Required<CircuitBreakerConfig>): void {
+    this.config = config;
+  }
+
+  private get resetTimeoutMs(): number {
+    return this.config.reset_timeout_seconds * 1000;
+  }
+
+  /**
+   * Whether a request can be sent now, counts it as the trial request of
+   * a half open circuit
+   */
+  allowRequest(): boolean {
+    if (this.config.failure_threshold <= 0 || this.state === "closed") {
+      return true;
+    }
+    if (
+      this.state === "open" &&
+      this.now() - this.openedAt >= this.resetTimeoutMs
+    ) {
+      this.state = "half_open";
+    }
+    if (this.state === "half_open" && !this.trialInProgress) {
+      this.trialInProgress = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.trialInProgress = false;
+    if (
+      this.config.failure_threshold > 0 &&
+      (this.state === "half_open" ||
+        this.consecutiveFailures >= this.config.failure_threshold)
+    ) {
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+
+  // A request that ended without telling anything about the service
+  recordAbort(): void {
+    this.trialInProgress = false;
+  }
+
+  getStatus(): CircuitStatus {
+    // An open circuit past its reset timeout lets the next request through
+    if (
+      this.state === "open" &&
+      this.now() - this.openedAt >= this.resetTimeoutMs
+    ) {
+      return {
+        state: "half_open",
+        consecutiveFailures: this.consecutiveFailures,
+      };
+    }
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state === "open"
+        ? {
+            retryAt: new Date(
+              this.openedAt + this.resetTimeoutMs,
+            ).toISOString(),
+          }
+        : {}),
+    };
+  }
+}
+
+// Whether a fetch error is a dropped or refused connection
+export const isConnectionError = (error: unknown): boolean => {
+  const cause = (error as { cause?: { code?: string } })?.cause;
+  return (
+    error instanceof TypeError &&
+    cause?.code !== undefined &&
+    CONNECTION_ERROR_CODES.includes(cause.code)
+  );
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+/**
+ * Sends the requests to AAP with a timeout, retries the idempotent ones
+ * when the service is unavailable and keeps a circuit breaker per service
+ */
+export class UpstreamClient {
+  private config = DEFAULT_UPSTREAM_CONFIG;
+  private serviceTimeouts: Record<string, number | undefined> = {};
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly lastSuccessAt = new Map<string, number>();
+  private readonly send: UpstreamFetch;
+  private readonly sleep: NonNullable<UpstreamClientOptions["sleep"]>;
+  private readonly random: () => number;
+  private readonly now: () => number;
+
+  constructor(options: UpstreamClientOptions = {}) {
+    this.send =
+      options.fetch ??
+      ((url, init, { service, urlTemplate } = {}) =>
+        tracedFetch(url, init, { service, urlTemplate }));
+    this.sleep = options.sleep ?? sleep;
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+    this.configure(options.config, options.serviceTimeouts);
+  }
+
+  /**
+   * Applies a new configuration, the breakers keep their state
+   */
+  configure(
+    config: UpstreamConfig = {},
+    serviceTimeouts: Record<string, number | undefined> = {},
+  ): void {
+    this.config = {
+      ...DEFAULT_UPSTREAM_CONFIG,
+      ...config,
+      circuit_breaker: {
+        ...DEFAULT_UPSTREAM_CONFIG.circuit_breaker,
+        ...config.circuit_breaker,
+      },
+    };
+    this.serviceTimeouts = serviceTimeouts;
+    for (const breaker of this.breakers.values()) {
+      breaker.configure(this.config.circuit_breaker);
+    }
+  }
+
+  private getBreaker(service: string): CircuitBreaker {
+    let breaker = this.breakers.get(service);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config.circuit_breaker, this.now);
+      this.breakers.set(service, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Circuit state of the services called so far
+   */
+  getCircuitStatus(): Record<string, CircuitStatus> {
+    return Object.fromEntries(
+      [...this.breakers].map(([service, breaker]) => [
+        service,
+        breaker.getStatus(),
+      ]),
+    );
+  }
+
+  /**
+   * Time of the last successful (2xx) response of each service
+   */
+  getLastSuccessfulCalls(): Record<string, string> {
+    return Object.fromEntries(
+      [...this.lastSuccessAt].map(([service, time]) => [
+        service,
+        new Date(time).toISOString(),
+      ]),
+    );
+  }
+
+  // Full jitter: a random delay up to the exponential backoff
+  private getRetryDelay(attempt: number): number {
+    const backoff = Math.min(
+      this.config.retry_max_delay_ms,
+      this.config.retry_base_delay_ms * 2 ** attempt,
+    );
+    return Math.round(this.random() * backoff);
+  }
+
+  private attempt(
+    url: string,
+    init: RequestInit,
+    options: UpstreamRequestOptions,
+    timeoutMs: number,
+  ): Promise<Response> {
+    const signals = [AbortSignal.timeout(timeoutMs)];
+    if (options.signal) {
+      signals.push(options.signal);
+    }
+    return this.send(
+      url,
+      { ...init, signal: AbortSignal.any(signals) },
+      options,
+    );
+  }
+
+  /**
+   * Sends a request. Fails without sending it when the circuit of the
+   * service is open. GET and HEAD requests are retried on 502, 503 and 504
+   * and on connection errors, a response with these statuses is returned
+   * once the retries are exhausted.
+   */
+  fetch: UpstreamFetch = async (url, init = {}, options = {}) => {
+    const service = options.service || "unknown";
+    const breaker = this.getBreaker(service);
+    const method = (init.method || "GET").toUpperCase();
+    const retries = IDEMPOTENT_METHODS.includes(method)
+      ? this.config.retries
+      : 0;
+    const timeoutMs =
+      (this.serviceTimeouts[service] ?? this.config.timeout_seconds) * 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.allowRequest()) {
+        const { retryAt } = breaker.getStatus();
+        throw new Error(
+          `Service ${service} is unavailable, its circuit breaker is open${retryAt ? ` until ${retryAt}` : ""}`,
+        );
+      }
+
+      let response: Response;
+      try {
+        response = await this.attempt(url, init, options, timeoutMs);
+      } catch (error) {
+        if (options.signal?.aborted) {
+          breaker.recordAbort();
+          throw new Error(`Request to ${url} was cancelled`, { cause: error });
+        }
+        const timedOut = (error as Error)?.name === "TimeoutError";
+        if (!timedOut && !isConnectionError(error)) {
+          breaker.recordAbort();
+          throw error;
+        }
+        breaker.recordFailure();
+        if (attempt >= retries) {
+          throw timedOut
+            ? new Error(
+                `Request to ${url} timed out after ${timeoutMs / 1000} seconds`,
+                { cause: error },
+              )
+            : error;
+        }
+        log.warn(`Retrying ${method} ${url}`, {
+          service,
+          attempt: attempt + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.sleep(this.getRetryDelay(attempt), options.signal);
+        continue;
+      }
+
+      if (!RETRYABLE_STATUSES.includes(response.status)) {
+        breaker.recordSuccess();
+        if (response.ok) {
+          this.lastSuccessAt.set(service, this.now());
+        }
+        return response;
+      }
+      breaker.recordFailure();
+      if (attempt >= retries) {
+        return response;
+      }
+      log.warn(`Retrying ${method} ${url}`, {
+        service,
+        attempt: attempt + 1,
+        status: response.status,
+      });
+      await response.body?.cancel();
+      await this.sleep(this.getRetryDelay(attempt), options.signal);
+    }
+  };
+}
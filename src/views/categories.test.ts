@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { renderCategoriesOverview, renderCategoryTools } from "./categories";
+import type { AAPMcpToolDefinition } from "../openapi-loader";
+
+describe("Categories Views", () => {
+  const tool = {
+    name: "controller.<b>hosts</b>_list",
+    size: 100,
+    service: "controller",
+  } as unknown as AAPMcpToolDefinition;
+
+  it("should escape the categories and their inherited tools", () => {
+    const html = renderCategoriesOverview({
+      categories: [
+        {
+          name: "child",
+          displayName: "<i>Child</i>",
+          description: "<script>alert(1)</script>",
+          tools: [tool],
+          color: "#007acc",
+          toolCount: 1,
+          totalSize: 100,
+          parents: ["<u>base</u>"],
+          inheritedFrom: { [tool.name]: "a&b <u>base</u>" },
+        },
+      ],
+      allTools: [tool],
+    });
+
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).not.toContain("<i>Child</i>");
+    expect(html).not.toContain("<u>base</u>");
+    expect(html).not.toContain("<b>hosts</b>");
+    expect(html).toContain(
+      '<a href="/category/a%26b%20%3Cu%3Ebase%3C%2Fu%3E">a&amp;b &lt;u&gt;base&lt;/u&gt;</a>',
+    );
+  });
+
+  it("should escape the rules of a category", () => {
+    const html = renderCategoryTools({
+      categoryName: "<i>ops</i>",
+      displayName: "<i>Ops</i>",
+      filteredTools: [tool],
+      totalSize: 100,
+      allCategories: { "<i>ops</i>": [] },
+      rules: [
+        {
+          entry: "/<img src=x onerror=alert(1)>/",
+          kind: "regex",
+          exclude: false,
+          toolNames: [tool.name],
+        },
+      ],
+    });
+
+    expect(html).not.toContain("<img src=x");
+    expect(html).not.toContain("<i>");
+    expect(html).not.toContain("<b>hosts</b>");
+    expect(html).toContain('href="/category/%3Ci%3Eops%3C%2Fi%3E"');
+  });
+});
@@ -1,5 +1,7 @@
 import { AAPMcpToolDefinition } from "../openapi-loader.js";
 import { renderHeader, getHeaderStyles } from "../header.js";
+import { escapeHtml } from "./utils.js";
+import type { CategoryRuleExpansion } from "../categories.js";
 
 interface CategoryData {
   name: string;
@@ -9,6 +11,8 @@ interface CategoryData {
   color: string;
   toolCount: number;
   totalSize: number;
+  parents: string[];
+  inheritedFrom: Record<string, string>;
 }
 
 interface CategoriesOverviewData {
@@ -22,6 +26,7 @@ interface CategoryToolsData {
   filteredTools: AAPMcpToolDefinition[];
   totalSize: number;
   allCategories: Record<string, string[]>;
+  rules: CategoryRuleExpansion[];
 }
 
 export const renderCategoriesOverview = (
@@ -29,6 +34,41 @@ export const renderCategoriesOverview = (
 ): string => {
   const { categories } = data;
 
+  // One table per category extending others, listing where each inherited
+  // tool comes from
+  const inheritanceTables = categories
+    .filter((category) => category.parents.length > 0)
+    .map((category) => {
+      const inheritedTools = Object.entries(category.inheritedFrom);
+      const rows = inheritedTools
+        .map(
+          ([toolName, origin]) => `
+                    <tr>
+                        <td><a href="/tools/${encodeURIComponent(toolName)}">${escapeHtml(toolName)}</a></td>
+                        <td><a href="/category/${encodeURIComponent(origin)}">${escapeHtml(origin)}</a></td>
+                    </tr>`,
+        )
+        .join("");
+      return `
+            <h3>${escapeHtml(category.displayName)} <span class="inheritance-count">(extends ${escapeHtml(category.parents.join(", "))}, ${inheritedTools.length} inherited tools)</span></h3>
+            ${
+              inheritedTools.length === 0
+                ? ""
+                : `
+            <table class="inheritance-table">
+                <thead>
+                    <tr>
+                        <th>Tool Name</th>
+                        <th>Inherited From</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}
+                </tbody>
+            </table>`
+            }`;
+    })
+    .join("");
+
   return `
 <!DOCTYPE html>
 <html lang="en">
@@ -124,6 +164,30 @@ export const renderCategoriesOverview = (
             font-size: 0.8em;
             color: #666;
         }
+        .category-extends {
+            color: #555;
+            font-size: 0.9em;
+            margin-bottom: 15px;
+        }
+        .inheritance-count {
+            font-size: 0.8em;
+            font-weight: normal;
+            color: #6c757d;
+        }
+        .inheritance-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 20px;
+        }
+        .inheritance-table th, .inheritance-table td {
+            border: 1px solid #ddd;
+            padding: 6px 8px;
+            text-align: left;
+        }
+        .inheritance-table th {
+            background-color: #007acc;
+            color: white;
+        }
     </style>
 </head>
 <body>
@@ -141,14 +205,15 @@ export const renderCategoriesOverview = (
             ${categories
               .map(
                 (category) => `
-            <a href="/category/${category.name}" class="category-card">
+            <a href="/category/${encodeURIComponent(category.name)}" class="category-card">
                 <div class="category-header">
-                    <div class="category-icon" style="background-color: ${category.color};">
-                        ${category.displayName.charAt(0)}
+                    <div class="category-icon" style="background-color: ${escapeHtml(category.color)};">
+                        ${escapeHtml(category.displayName.charAt(0))}
                     </div>
-                    <h3 class="category-title">${category.displayName}</h3>
+                    <h3 class="category-title">${escapeHtml(category.displayName)}</h3>
                 </div>
-                <p class="category-description">${category.description}</p>
+                <p class="category-description">${escapeHtml(category.description)}</p>
+                ${category.parents.length > 0 ? `<p class="category-extends">Extends: ${escapeHtml(category.parents.join(", "))}</p>` : ""}
                 <div class="category-stats">
                     <div class="stat">
                         <div class="stat-number">${category.toolCount}</div>
@@ -164,22 +229,57 @@ export const renderCategoriesOverview = (
               )
               .join("")}
         </div>
+
+        ${
+          inheritanceTables
+            ? `
+        <div class="inheritance">
+            <h2>Inherited Tools</h2>
+            ${inheritanceTables}
+        </div>
+        `
+            : ""
+        }
     </div>
 </body>
 </html>`;
 };
 
 export const renderCategoryTools = (data: CategoryToolsData): string => {
-  const { categoryName, displayName, filteredTools, totalSize, allCategories } =
-    data;
+  const {
+    categoryName,
+    displayName,
+    filteredTools,
+    totalSize,
+    allCategories,
+    rules,
+  } = data;
+
+  // Exact tool names are only counted, patterns and selectors are listed
+  // with the tools they match
+  const exactRuleCount = rules.filter((rule) => rule.kind === "name").length;
+  const patternRules = rules.filter((rule) => rule.kind !== "name");
+  const ruleRows = patternRules
+    .map(
+      (rule) => `
+    <tr>
+      <td><code>${escapeHtml(rule.entry)}</code></td>
+      <td>${rule.kind}</td>
+      <td><span class="rule-${rule.exclude ? "exclude" : "include"}">${rule.exclude ? "exclude" : "include"}</span></td>
+      <td>${rule.toolNames.length}</td>
+      <td class="rule-tools">${escapeHtml(rule.toolNames.join(", "))}</td>
+    </tr>
+  `,
+    )
+    .join("");
 
   const toolRows = filteredTools
     .map(
       (tool) => `
     <tr>
-      <td><a href="/tools/${encodeURIComponent(tool.name)}" style="color: #007acc; text-decoration: none;">${tool.name}</a></td>
+      <td><a href="/tools/${encodeURIComponent(tool.name)}" style="color: #007acc; text-decoration: none;">${escapeHtml(tool.name)}</a></td>
       <td>${tool.size}</td>
-      <td><span class="service-${tool.service || "unknown"}">${tool.service || "unknown"}</span></td>
+      <td><span class="service-${escapeHtml(tool.service || "unknown")}">${escapeHtml(tool.service || "unknown")}</span></td>
     </tr>
   `,
     )
@@ -191,7 +291,7 @@ export const renderCategoryTools = (data: CategoryToolsData): string => {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${displayName} Category Tools - AAP MCP</title>
+    <title>${escapeHtml(displayName)} Category Tools - AAP MCP</title>
     <style>
         body {
             font-family: Arial, sans-serif;
@@ -273,6 +373,16 @@ export const renderCategoryTools = (data: CategoryToolsData): string => {
             border-radius: 5px;
             margin-bottom: 20px;
         }
+        .rule-include { background-color: #e8f5e8; padding: 3px 6px; border-radius: 3px; }
+        .rule-exclude { background-color: #ffebee; padding: 3px 6px; border-radius: 3px; }
+        .rule-tools {
+            font-size: 0.85em;
+            color: #555;
+            word-break: break-word;
+        }
+        .rules {
+            margin-bottom: 20px;
+        }
         .empty-state {
             text-align: center;
             color: #6c757d;
@@ -283,7 +393,7 @@ export const renderCategoryTools = (data: CategoryToolsData): string => {
 </head>
 <body>
     <div class="container">
-        <h1>${displayName} Category Tools<span class="category-badge">${filteredTools.length} tools</span></h1>
+        <h1>${escapeHtml(displayName)} Category Tools<span class="category-badge">${filteredTools.length} tools</span></h1>
 
         ${renderHeader()}
 
@@ -291,23 +401,49 @@ export const renderCategoryTools = (data: CategoryToolsData): string => {
             ${Object.keys(allCategories)
               .map(
                 (name) => `
-            <a href="/category/${name}" class="category-nav-link ${categoryName === name ? "active" : ""}">${name.charAt(0).toUpperCase() + name.slice(1)}</a>
+            <a href="/category/${encodeURIComponent(name)}" class="category-nav-link ${categoryName === name ? "active" : ""}">${escapeHtml(name.charAt(0).toUpperCase() + name.slice(1))}</a>
             `,
               )
               .join("")}
         </div>
 
         <div class="stats">
-            <strong>Category:</strong> ${displayName}<br>
+            <strong>Category:</strong> ${escapeHtml(displayName)}<br>
             <strong>Available Tools:</strong> ${filteredTools.length}<br>
-            <strong>Total Size:</strong> ${totalSize.toLocaleString()} characters
+            <strong>Total Size:</strong> ${totalSize.toLocaleString()} characters<br>
+            <strong>Exact Tool Names:</strong> ${exactRuleCount}<br>
+            <strong>Patterns and Selectors:</strong> ${patternRules.length}
+        </div>
+
+        ${
+          patternRules.length === 0
+            ? ""
+            : `
+        <div class="rules">
+            <h2>Membership Rules</h2>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Entry</th>
+                        <th>Type</th>
+                        <th>Effect</th>
+                        <th>Matches</th>
+                        <th>Matched Tools</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${ruleRows}
+                </tbody>
+            </table>
         </div>
+        `
+        }
 
         ${
           filteredTools.length === 0
             ? `
         <div class="empty-state">
-            <p>No tools are available for the ${displayName} category.</p>
+            <p>No tools are available for the ${escapeHtml(displayName)} category.</p>
         </div>
         `
             : `
@@ -26,3 +26,4 @@ export {
   type EndpointData,
   type EndpointsOverviewData,
 } from "./endpoints.js";
+export { renderLogin } from "./login.js";
@@ -0,0 +1,83 @@
+import { escapeHtml } from "./utils.js";
+
+interface LoginData {
+  // Page to go back to after the login
+  next: string;
+  error?: string;
+}
+
+export const renderLogin = (data: LoginData): string => {
+  const { next, error } = data;
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Log in - AAP MCP</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+        }
+        .container {
+            max-width: 420px;
+            margin: 80px auto;
+            background-color: white;
+            padding: 30px;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        h1 {
+            color: #333;
+            margin-top: 0;
+        }
+        p {
+            color: #6c757d;
+            line-height: 1.4;
+        }
+        input[type="password"] {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 10px;
+            margin: 10px 0 20px;
+            border: 1px solid #ced4da;
+            border-radius: 4px;
+        }
+        button {
+            background-color: #007bff;
+            color: white;
+            border: none;
+            padding: 10px 20px;
+            border-radius: 4px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: #0056b3;
+        }
+        .error {
+            background-color: #f8d7da;
+            color: #721c24;
+            padding: 10px;
+            border-radius: 4px;
+            margin-bottom: 15px;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>AAP MCP</h1>
+        <p>Log in with an AAP token or the admin token of this server.</p>
+        ${error ? `<div class="error">${error}</div>` : ""}
+        <form method="post" action="/login">
+            <input type="hidden" name="next" value="${escapeHtml(next)}">
+            <label for="token">Token</label>
+            <input type="password" id="token" name="token" autocomplete="off" required autofocus>
+            <button type="submit">Log in</button>
+        </form>
+    </div>
+</body>
+</html>`;
+};
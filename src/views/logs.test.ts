@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { renderLogs, type LogsData } from "./logs";
+import { emptyPruneResult } from "../audit-retention";
+
+describe("Logs View", () => {
+  const logsData = (overrides: Partial<LogsData> = {}): LogsData => ({
+    lastEntries: [
+      {
+        timestamp: "2025-01-01T00:00:00.000Z",
+        toolName: "controller.jobs_list",
+        return_code: 200,
+        endpoint: "/api/controller/v2/jobs/",
+        payload: { method: "GET" },
+        userAgent: "claude-code/1.0",
+        username: "<b>admin</b>",
+        sessionId: 'abc" onmouseover="alert(1)',
+        category: "<i>operator</i>",
+        client: '"><script>alert("client")</script>',
+      },
+    ],
+    totalRequests: 1,
+    filteredRequests: 1,
+    statusCodeSummary: { 200: 1 },
+    toolSummary: { "controller.jobs_list": 1 },
+    userAgentSummary: { "claude-code/1.0": 1 },
+    userSummary: { "<b>admin</b>": 1 },
+    logEntriesSizeLimit: 1000,
+    ...overrides,
+  });
+
+  it("should escape the values coming from the MCP clients", () => {
+    const html = renderLogs(logsData());
+
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<b>admin</b>");
+    expect(html).not.toContain("<i>operator</i>");
+    expect(html).not.toContain('" onmouseover=');
+    expect(html).toContain(
+      'title="&quot;&gt;&lt;script&gt;alert(&quot;client&quot;)&lt;/script&gt;"',
+    );
+    expect(html).toContain('title="abc&quot; onmouseover=&quot;alert(1)"');
+    expect(html).toContain("&lt;b&gt;admin&lt;/b&gt;");
+  });
+
+  it("should escape the filters of the query string", () => {
+    const html = renderLogs(
+      logsData({
+        userFilter: "<script>alert('user')</script>",
+        sessionFilter: "<img src=x onerror=alert(1)>",
+      }),
+    );
+
+    expect(html).not.toContain("<script>alert");
+    expect(html).not.toContain("<img");
+    expect(html).toContain(
+      "Filtering by user: &lt;script&gt;alert(&#39;user&#39;)&lt;/script&gt;",
+    );
+  });
+
+  it("should escape the error of the last compaction", () => {
+    const html = renderLogs(
+      logsData({
+        compaction: {
+          policy: { gzip: false },
+          intervalMinutes: 60,
+          runs: 1,
+          lastRunAt: "2025-01-01T00:00:00.000Z",
+          lastError: "<script>error</script>",
+          total: emptyPruneResult(),
+        },
+      }),
+    );
+
+    expect(html).toContain("failed (&lt;script&gt;error&lt;/script&gt;)");
+  });
+});
@@ -1,4 +1,6 @@
 import { renderHeader, getHeaderStyles } from "../header.js";
+import type { CompactionReport, PruneResult } from "../audit-retention.js";
+import { escapeHtml } from "./utils.js";
 
 interface LogsEntry {
   timestamp: string;
@@ -7,31 +9,52 @@ interface LogsEntry {
   endpoint: string;
   payload?: any;
   userAgent?: string;
+  username?: string;
+  sessionId?: string;
+  category?: string;
+  // MCP client name and version
+  client?: string;
 }
 
 interface LogsData {
   lastEntries: LogsEntry[];
   totalRequests: number;
+  // Requests matching the filters, beyond the displayed entries
+  filteredRequests: number;
   statusCodeFilter?: string;
   toolFilter?: string;
   userAgentFilter?: string;
+  userFilter?: string;
+  sessionFilter?: string;
+  sinceFilter?: string;
+  untilFilter?: string;
   statusCodeSummary: Record<number, number>;
   toolSummary: Record<string, number>;
   userAgentSummary: Record<string, number>;
+  userSummary: Record<string, number>;
   logEntriesSizeLimit: number;
+  // Undefined when no retention limit is configured
+  compaction?: CompactionReport;
 }
 
 export const renderLogs = (data: LogsData): string => {
   const {
     lastEntries,
     totalRequests,
+    filteredRequests,
     statusCodeFilter,
     toolFilter,
     userAgentFilter,
+    userFilter,
+    sessionFilter,
+    sinceFilter,
+    untilFilter,
     statusCodeSummary,
     toolSummary,
     userAgentSummary,
+    userSummary,
     logEntriesSizeLimit,
+    compaction,
   } = data;
 
   // Helper function to format timestamp for display
@@ -48,6 +71,84 @@ export const renderLogs = (data: LogsData): string => {
     return "#6c757d"; // gray
   };
 
+  // URL of the logs page with the current filters, except the omitted ones
+  const filters: Record<string, string | undefined> = {
+    status_code: statusCodeFilter,
+    tool: toolFilter,
+    user_agent: userAgentFilter,
+    user: userFilter,
+    session: sessionFilter,
+    since: sinceFilter,
+    until: untilFilter,
+  };
+  const logsUrlWithout = (...omitted: string[]) => {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(filters)) {
+      if (value && !omitted.includes(name)) {
+        params.set(name, value);
+      }
+    }
+    const query = params.toString();
+    return query ? `/logs?${query}` : "/logs";
+  };
+  const hasFilter = Object.values(filters).some(Boolean);
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const describePruned = (result: PruneResult) =>
+    `${result.entries.toLocaleString()} entries (${formatBytes(result.bytes)}): ${result.byReason.age} by age, ${result.byReason.tool_size} by tool size, ${result.byReason.total_size} by total size`;
+
+  const renderCompaction = () => {
+    if (!compaction) {
+      return `<p>No retention limit is configured, the audit log is never pruned.</p>`;
+    }
+    const { policy } = compaction;
+    const limits = [
+      policy.maxAgeMs !== undefined
+        ? `entries older than ${policy.maxAgeMs / (24 * 60 * 60 * 1000)} day(s)`
+        : "",
+      policy.maxBytesPerTool !== undefined
+        ? `${formatBytes(policy.maxBytesPerTool)} per tool`
+        : "",
+      policy.maxTotalBytes !== undefined
+        ? `${formatBytes(policy.maxTotalBytes)} in total`
+        : "",
+      policy.maxSegmentBytes !== undefined
+        ? `segments rotated at ${formatBytes(policy.maxSegmentBytes)}${policy.gzip ? " and gzipped" : ""}`
+        : "",
+    ].filter(Boolean);
+    const prunedTools = Object.entries(compaction.total.byTool)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 8);
+    return `
+            <p>Limits: ${limits.join(", ")}. Compacted every ${compaction.intervalMinutes} minute(s).</p>
+            <p>${
+              compaction.lastRunAt
+                ? `Last compaction at ${formatTimestamp(compaction.lastRunAt)}${
+                    compaction.lastError
+                      ? `: <strong style="color: #dc3545;">failed (${escapeHtml(compaction.lastError)})</strong>`
+                      : compaction.lastResult
+                        ? `: pruned ${describePruned(compaction.lastResult)}`
+                        : ""
+                  }.`
+                : "No compaction has run yet."
+            }</p>
+            <p>Pruned since the server started: ${describePruned(compaction.total)}${compaction.total.rotatedSegments > 0 ? `, ${compaction.total.rotatedSegments} segment(s) rotated` : ""}.</p>
+            ${
+              prunedTools.length > 0
+                ? `<div class="tool-summary">${prunedTools
+                    .map(
+                      ([tool, count]) =>
+                        `<span class="tool-entry">${escapeHtml(tool)}: ${count}</span>`,
+                    )
+                    .join("")}</div>`
+                : ""
+            }`;
+  };
 
   return `
 <!DOCTYPE html>
@@ -198,14 +299,14 @@ export const renderLogs = (data: LogsData): string => {
 
         <div class="summary">
             <h2>Log Summary</h2>
-            <p>Showing the last requests${statusCodeFilter || toolFilter || userAgentFilter ? ` out of ${lastEntries.length} filtered results` : ""} from ${totalRequests.toLocaleString()} total logged requests.${statusCodeFilter ? ` <strong>Filtered by status code: ${statusCodeFilter}</strong>` : ""}${toolFilter ? ` <strong>Filtered by tool: ${toolFilter}</strong>` : ""}${userAgentFilter ? ` <strong>Filtered by user-agent: ${userAgentFilter}</strong>` : ""}</p>
+            <p>Showing the last requests${hasFilter ? ` out of ${filteredRequests.toLocaleString()} filtered results` : ""} from ${totalRequests.toLocaleString()} total logged requests.${statusCodeFilter ? ` <strong>Filtered by status code: ${escapeHtml(statusCodeFilter)}</strong>` : ""}${toolFilter ? ` <strong>Filtered by tool: ${escapeHtml(toolFilter)}</strong>` : ""}${userAgentFilter ? ` <strong>Filtered by user-agent: ${escapeHtml(userAgentFilter)}</strong>` : ""}${userFilter ? ` <strong>Filtered by user: ${escapeHtml(userFilter)}</strong>` : ""}${sessionFilter ? ` <strong>Filtered by session: ${escapeHtml(sessionFilter)}</strong>` : ""}</p>
 
             ${
               statusCodeFilter
                 ? `
             <div style="margin: 20px 0; padding: 15px; background-color: #fff3cd; border: 1px solid #ffeaa7; border-radius: 5px;">
-                <strong>Filtering by status code: ${statusCodeFilter}</strong>
-                <a href="/logs${toolFilter || userAgentFilter ? `?${toolFilter ? `tool=${encodeURIComponent(toolFilter)}` : ""}${toolFilter && userAgentFilter ? "&" : ""}${userAgentFilter ? `user_agent=${encodeURIComponent(userAgentFilter)}` : ""}` : ""}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear Status Filter</a>
+                <strong>Filtering by status code: ${escapeHtml(statusCodeFilter)}</strong>
+                <a href="${escapeHtml(logsUrlWithout("status_code"))}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear Status Filter</a>
             </div>
             `
                 : ""
@@ -215,8 +316,8 @@ export const renderLogs = (data: LogsData): string => {
               toolFilter
                 ? `
             <div style="margin: 20px 0; padding: 15px; background-color: #d1ecf1; border: 1px solid #bee5eb; border-radius: 5px;">
-                <strong>Filtering by tool: ${toolFilter}</strong>
-                <a href="/logs${statusCodeFilter || userAgentFilter ? `?${statusCodeFilter ? `status_code=${statusCodeFilter}` : ""}${statusCodeFilter && userAgentFilter ? "&" : ""}${userAgentFilter ? `user_agent=${encodeURIComponent(userAgentFilter)}` : ""}` : ""}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear Tool Filter</a>
+                <strong>Filtering by tool: ${escapeHtml(toolFilter)}</strong>
+                <a href="${escapeHtml(logsUrlWithout("tool"))}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear Tool Filter</a>
             </div>
             `
                 : ""
@@ -226,13 +327,47 @@ export const renderLogs = (data: LogsData): string => {
               userAgentFilter
                 ? `
             <div style="margin: 20px 0; padding: 15px; background-color: #e2e3e5; border: 1px solid #d6d8db; border-radius: 5px;">
-                <strong>Filtering by user-agent: ${userAgentFilter}</strong>
-                <a href="/logs${statusCodeFilter || toolFilter ? `?${statusCodeFilter ? `status_code=${statusCodeFilter}` : ""}${statusCodeFilter && toolFilter ? "&" : ""}${toolFilter ? `tool=${encodeURIComponent(toolFilter)}` : ""}` : ""}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear User-Agent Filter</a>
+                <strong>Filtering by user-agent: ${escapeHtml(userAgentFilter)}</strong>
+                <a href="${escapeHtml(logsUrlWithout("user_agent"))}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear User-Agent Filter</a>
+            </div>
+            `
+                : ""
+            }
+
+            ${
+              userFilter
+                ? `
+            <div style="margin: 20px 0; padding: 15px; background-color: #f3e5f5; border: 1px solid #e1bee7; border-radius: 5px;">
+                <strong>Filtering by user: ${escapeHtml(userFilter)}</strong>
+                <a href="${escapeHtml(logsUrlWithout("user"))}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear User Filter</a>
+            </div>
+            `
+                : ""
+            }
+
+            ${
+              sessionFilter
+                ? `
+            <div style="margin: 20px 0; padding: 15px; background-color: #fff8e1; border: 1px solid #ffecb3; border-radius: 5px;">
+                <strong>Filtering by session: ${escapeHtml(sessionFilter)}</strong>
+                <a href="${escapeHtml(logsUrlWithout("session"))}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear Session Filter</a>
             </div>
             `
                 : ""
             }
 
+            ${
+              sinceFilter || untilFilter
+                ? `
+            <div style="margin: 20px 0; padding: 15px; background-color: #e8f5e9; border: 1px solid #c8e6c9; border-radius: 5px;">
+                <strong>Filtering by time range: ${sinceFilter ? `from ${escapeHtml(formatTimestamp(sinceFilter))}` : ""}${sinceFilter && untilFilter ? " " : ""}${untilFilter ? `until ${escapeHtml(formatTimestamp(untilFilter))}` : ""}</strong>
+                <a href="${escapeHtml(logsUrlWithout("since", "until"))}" style="margin-left: 15px; padding: 5px 15px; background-color: #6c757d; color: white; text-decoration: none; border-radius: 4px;">Clear Time Filter</a>
+            </div>
+            `
+                : ""
+            }
+
+
             <div class="summary-grid">
                 <div class="summary-card">
                     <h4>Status Codes</h4>
@@ -241,8 +376,8 @@ export const renderLogs = (data: LogsData): string => {
                           .sort(([, a], [, b]) => b - a)
                           .map(
                             ([code, count]) => `
-                        <a href="/logs?status_code=${code}" class="code-entry" style="border-left-color: ${getStatusColor(Number(code))}; text-decoration: none; color: inherit; display: block; transition: background-color 0.2s ease;">
-                            ${code}: ${count}
+                        <a href="/logs?status_code=${encodeURIComponent(code)}" class="code-entry" style="border-left-color: ${getStatusColor(Number(code))}; text-decoration: none; color: inherit; display: block; transition: background-color 0.2s ease;">
+                            ${escapeHtml(code)}: ${count}
                         </a>
                         `,
                           )
@@ -259,7 +394,7 @@ export const renderLogs = (data: LogsData): string => {
                           .map(
                             ([tool, count]) => `
                         <a href="/logs?tool=${encodeURIComponent(tool)}" class="tool-entry" style="text-decoration: none; color: inherit; display: block; transition: background-color 0.2s ease;">
-                            ${tool}: ${count}
+                            ${escapeHtml(tool)}: ${count}
                         </a>
                         `,
                           )
@@ -276,16 +411,39 @@ export const renderLogs = (data: LogsData): string => {
                           .map(
                             ([userAgent, count]) => `
                         <a href="/logs?user_agent=${encodeURIComponent(userAgent)}" class="tool-entry" style="text-decoration: none; color: inherit; display: block; transition: background-color 0.2s ease;">
-                            ${userAgent}: ${count}
+                            ${escapeHtml(userAgent)}: ${count}
                         </a>
                         `,
                           )
                           .join("")}
                     </div>
                 </div>
+
+                <div class="summary-card">
+                    <h4>Users</h4>
+                    <div class="tool-summary">
+                        ${Object.entries(userSummary)
+                          .sort(([, a], [, b]) => b - a)
+                          .slice(0, 8)
+                          .map(
+                            ([user, count]) => `
+                        <a href="/logs?user=${encodeURIComponent(user)}" class="tool-entry" style="text-decoration: none; color: inherit; display: block; transition: background-color 0.2s ease;">
+                            ${escapeHtml(user)}: ${count}
+                        </a>
+                        `,
+                          )
+                          .join("")}
+                    </div>
+                </div>
+            </div>
+
+            <div class="summary-card" style="margin-top: 20px;">
+                <h4>Retention</h4>
+                ${renderCompaction()}
             </div>
         </div>
 
+
         <table class="logs-table">
             <thead>
                 <tr>
@@ -294,6 +452,8 @@ export const renderLogs = (data: LogsData): string => {
                     <th>Method</th>
                     <th>Status</th>
                     <th>Endpoint</th>
+                    <th>User</th>
+                    <th>Session</th>
                     <th>User Agent</th>
                 </tr>
             </thead>
@@ -304,18 +464,29 @@ export const renderLogs = (data: LogsData): string => {
                 <tr>
                     <td class="timestamp">${formatTimestamp(entry.timestamp)}</td>
                     <td>
-                        <a href="/tools/${encodeURIComponent(entry.toolName)}" class="tool-link">${entry.toolName}</a>
+                        <a href="/tools/${encodeURIComponent(entry.toolName)}" class="tool-link">${escapeHtml(entry.toolName)}</a>
                     </td>
                     <td>
-                        <span class="method-badge method-${(entry.payload?.method || "unknown").toLowerCase()}">${entry.payload?.method || "N/A"}</span>
+                        <span class="method-badge method-${escapeHtml(String(entry.payload?.method || "unknown").toLowerCase())}">${escapeHtml(entry.payload?.method || "N/A")}</span>
                     </td>
                     <td>
                         <span class="status-code" style="color: ${getStatusColor(entry.return_code)};">
                             ${entry.return_code}
                         </span>
                     </td>
-                    <td class="endpoint">${entry.endpoint}</td>
-                    <td class="user-agent">${entry.userAgent || "N/A"}</td>
+                    <td class="endpoint">${escapeHtml(entry.endpoint)}</td>
+                    <td>${
+                      entry.username
+                        ? `<a href="/logs?user=${encodeURIComponent(entry.username)}" class="tool-link">${escapeHtml(entry.username)}</a>`
+                        : "N/A"
+                    }</td>
+                    <td class="user-agent">${
+                      entry.sessionId
+                        ? `<a href="/logs?session=${encodeURIComponent(entry.sessionId)}" class="tool-link" title="${escapeHtml(entry.sessionId)}">${escapeHtml(entry.sessionId.slice(0, 8))}</a>${entry.category ? ` (${escapeHtml(entry.category)})` : ""}`
+                        : "N/A"
+                    }</td>
+                    <td class="user-agent" title="${escapeHtml(entry.client || "")}">${escapeHtml(entry.userAgent || "N/A")}</td>
+
                 </tr>
                 `,
                   )
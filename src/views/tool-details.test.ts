@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { renderToolDetails } from "./tool-details";
+import type { AAPMcpToolDefinition } from "../openapi-loader";
+
+describe("Tool Details View", () => {
+  const tool = {
+    name: "controller.hosts_retrieve",
+    description: "Retrieve a host",
+    inputSchema: { type: "object", properties: {} },
+    pathTemplate: "/api/controller/v2/hosts/{id}/",
+    method: "get",
+    parameters: [],
+    service: "controller",
+    logs: [],
+    size: 100,
+  } as unknown as AAPMcpToolDefinition;
+
+  it("should escape the endpoints and errors of the recent calls", () => {
+    const html = renderToolDetails({
+      tool,
+      totalCalls: 1,
+      last10Calls: [
+        {
+          timestamp: "2025-01-01T00:00:00.000Z",
+          return_code: 404,
+          endpoint: "/api/controller/v2/hosts/<img src=x onerror=alert(1)>/",
+          response: { error: "<script>alert(1)</script>" },
+        },
+      ],
+      errorCodeSummary: { 404: 1 },
+      chartData: { success: 0, error: 1 },
+      categoriesWithAccess: [
+        { name: "a b", displayName: "<b>A</b>", color: "#007acc" },
+      ],
+      riskLevel: "read",
+    });
+
+    expect(html).not.toContain("<img src=x");
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).not.toContain("<b>A</b>");
+    expect(html).toContain('href="/category/a%20b"');
+  });
+});
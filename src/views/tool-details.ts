@@ -1,6 +1,7 @@
 import { AAPMcpToolDefinition } from "../openapi-loader.js";
-import { getLogIcon } from "./utils.js";
+import { escapeHtml, getLogIcon } from "./utils.js";
 import { renderHeader, getHeaderStyles } from "../header.js";
+import type { RiskLevel } from "../risk.js";
 
 interface LogEntry {
   timestamp: string;
@@ -17,21 +18,23 @@ interface CategoryWithAccess {
 
 interface ToolDetailsData {
   tool: AAPMcpToolDefinition;
-  logEntries: LogEntry[];
+  totalCalls: number;
   last10Calls: LogEntry[];
   errorCodeSummary: Record<number, number>;
   chartData: { success: number; error: number };
   categoriesWithAccess: CategoryWithAccess[];
+  riskLevel: RiskLevel;
 }
 
 export const renderToolDetails = (data: ToolDetailsData): string => {
   const {
     tool,
-    logEntries,
+    totalCalls,
     last10Calls,
     errorCodeSummary,
     chartData,
     categoriesWithAccess,
+    riskLevel,
   } = data;
 
   // Helper function to format timestamp for display
@@ -481,9 +484,9 @@ export const renderToolDetails = (data: ToolDetailsData): string => {
         <div class="schema-section">
             <h2>Usage Statistics</h2>
             ${
-              logEntries.length > 0
+              totalCalls > 0
                 ? `
-            <p><strong>Total Calls:</strong> ${logEntries.length}</p>
+            <p><strong>Total Calls:</strong> ${totalCalls}</p>
             <div class="chart-container">
                 <div class="chart-wrapper">
                     <div class="chart-title">Success vs Error Rate</div>
@@ -531,13 +534,13 @@ export const renderToolDetails = (data: ToolDetailsData): string => {
                             ${entry.return_code} ${getStatusText(entry.return_code)}
                         </span>
                     </div>
-                    <div class="call-endpoint">${entry.endpoint}</div>
+                    <div class="call-endpoint">${escapeHtml(entry.endpoint)}</div>
                     ${
                       entry.response &&
                       typeof entry.response === "object" &&
                       entry.response.error
                         ? `
-                    <div class="call-error">Error: ${entry.response.error}</div>
+                    <div class="call-error">Error: ${escapeHtml(entry.response.error)}</div>
                     `
                         : ""
                     }
@@ -584,6 +587,11 @@ export const renderToolDetails = (data: ToolDetailsData): string => {
                 <h3>Service</h3>
                 <div class="info-value">${tool.service || "unknown"}</div>
             </div>
+
+            <div class="info-card">
+                <h3>Risk Level</h3>
+                <div class="info-value">${riskLevel}${riskLevel === "destructive" ? " (needs a confirmation)" : ""}</div>
+            </div>
         </div>
 
         <div class="categories-section">
@@ -595,8 +603,8 @@ export const renderToolDetails = (data: ToolDetailsData): string => {
                 ${categoriesWithAccess
                   .map(
                     (category) => `
-                <a href="/category/${category.name}" class="category-badge" style="background-color: ${category.color};">
-                    ${category.displayName}
+                <a href="/category/${encodeURIComponent(category.name)}" class="category-badge" style="background-color: ${escapeHtml(category.color)};">
+                    ${escapeHtml(category.displayName)}
                 </a>
                 `,
                   )
@@ -631,7 +639,7 @@ export const renderToolDetails = (data: ToolDetailsData): string => {
     </div>
 
     ${
-      logEntries.length > 0
+      totalCalls > 0
         ? `
     <script>
         // Create pie chart for success vs error distribution
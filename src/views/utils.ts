@@ -19,3 +19,16 @@ export const getLogIcon = (severity: string): string => {
       return "📝"; // Default for unknown severity
   }
 };
+
+/**
+ * Escapes a value interpolated in the HTML, as a text or an attribute
+ * @param value The text to escape, often coming from the MCP clients or the query string
+ * @returns The text with the HTML special characters replaced by entities
+ */
+export const escapeHtml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");